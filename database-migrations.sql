@@ -0,0 +1,59 @@
+-- Database Migrations for Receipt OCR Importer
+-- Execute these commands in Supabase SQL Editor, in order
+
+-- 1. Per-item tax rate (0.08 / 0.10 in Japan, 0.13 HST / 0 in Ontario)
+-- Item prices are stored tax-inclusive; tax_rate records the rate that was applied
+ALTER TABLE public.items ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(4, 3);
+
+-- 2. Imported receipts, used to warn before the same receipt is imported twice
+-- The fingerprint columns hold what was read from the receipt; items holds what was saved from it
+CREATE TABLE IF NOT EXISTS public.receipt_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  fingerprint_hash TEXT NOT NULL,
+  store_name TEXT,
+  purchase_date DATE,
+  purchase_time TEXT,
+  transaction_number TEXT,
+  total NUMERIC(12, 2),
+  item_keys TEXT[] NOT NULL DEFAULT '{}',
+  items JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS receipt_imports_user_date_idx ON public.receipt_imports (user_id, purchase_date);
+CREATE INDEX IF NOT EXISTS receipt_imports_user_hash_idx ON public.receipt_imports (user_id, fingerprint_hash);
+
+ALTER TABLE public.receipt_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own receipt imports" ON public.receipt_imports
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- 3. Weight- and volume-priced items (e.g. 245 g at ¥198 per 100 g, 1.23 kg at $1.74/kg)
+-- quantity holds the weight or volume in unit; unit_price is the price per unit_price_basis of unit
+ALTER TABLE public.items ALTER COLUMN quantity TYPE NUMERIC(10, 3);
+ALTER TABLE public.items ADD COLUMN IF NOT EXISTS unit_price NUMERIC(12, 2);
+ALTER TABLE public.items ADD COLUMN IF NOT EXISTS unit_price_basis NUMERIC(10, 3);
+
+-- 4. Per-user product aliases, learned when an imported item is corrected
+-- raw_key is the normalised receipt text; later scans replace matching items with name, category and unit
+ALTER TABLE public.items ADD COLUMN IF NOT EXISTS receipt_name TEXT;
+
+CREATE TABLE IF NOT EXISTS public.product_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  raw_text TEXT NOT NULL,
+  raw_key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  category TEXT,
+  unit TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, raw_key)
+);
+
+ALTER TABLE public.product_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own product aliases" ON public.product_aliases
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
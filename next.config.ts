@@ -1,6 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // Tesseract.jsはワーカースクリプトと言語データをnode_modulesから直接読み込むためバンドル対象外にする
+  // pdf.jsも同様にCMap・標準フォントとネイティブのキャンバスをnode_modulesから読み込む
+  serverExternalPackages: ["tesseract.js", "pdfjs-dist", "@napi-rs/canvas"],
   eslint: {
     // Warning: This allows production builds to successfully complete even if
     // your project has ESLint errors.
@@ -0,0 +1,139 @@
+import { existsSync } from 'fs'
+import { readFile, writeFile } from 'fs/promises'
+import { CorpusBaseline, GoldenCorpus, GoldenCorpusReport } from '../src/lib/ocr/golden-corpus'
+
+/**
+ * ゴールデンコーパスで全パーサーを評価
+ *
+ *   npm run ocr:corpus -- [--corpus <dir>] [--parser warehouse,life] [--output report.json] [--baseline report.json] [--update-baseline] [--json] [--verbose]
+ *
+ * fixtures/corpus-baseline.json に記録したレシート・パーサーごとのF1・価格の正解率を下回ると終了コード1で終了する
+ * （--update-baseline で現在の結果を記録）
+ * --baseline を指定するとパーサーごとの差分を表示し、F1が下がったレシートがあれば終了コード1で終了する
+ */
+function parseArgs(argv: string[]): Record<string, string | boolean> {
+  const args: Record<string, string | boolean> = {}
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue
+    const key = argv[i].slice(2)
+    const value = argv[i + 1]
+    if (value && !value.startsWith('--')) {
+      args[key] = value
+      i++
+    } else {
+      args[key] = true
+    }
+  }
+  return args
+}
+
+function formatDelta(value: number): string {
+  return `${value > 0 ? '+' : ''}${value}`
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+  const corpusDir = typeof args.corpus === 'string' ? args.corpus : GoldenCorpus.getCorpusDir()
+  const parsers = typeof args.parser === 'string' ? args.parser.split(',') : undefined
+
+  // パーサー内部のログを抑制（--verbose で表示）
+  const log = console.log
+  const warn = console.warn
+  if (!args.verbose) {
+    console.log = () => {}
+    console.warn = () => {}
+  }
+
+  let report: GoldenCorpusReport
+  try {
+    const cases = await GoldenCorpus.load(corpusDir)
+    report = await GoldenCorpus.run(cases, { parsers, corpusDir })
+  } finally {
+    console.log = log
+    console.warn = warn
+  }
+
+  if (typeof args.output === 'string') {
+    await writeFile(args.output, JSON.stringify(report, null, 2) + '\n')
+  }
+
+  if (args.json) {
+    log(JSON.stringify(report, null, 2))
+  } else {
+    log(`📚 ${report.caseCount}件のレシートを評価`)
+    console.table(report.aggregates.map(aggregate => ({
+      parser: aggregate.parser,
+      precision: aggregate.precision,
+      recall: aggregate.recall,
+      f1: aggregate.f1,
+      priceAccuracy: aggregate.priceAccuracy,
+      avgMs: aggregate.averageRuntimeMs,
+      errors: aggregate.errors
+    })))
+  }
+
+  await checkCaseBaseline(report, Boolean(args['update-baseline']), Boolean(args.json))
+
+  if (typeof args.baseline !== 'string') return
+
+  const baseline = JSON.parse(await readFile(args.baseline, 'utf-8')) as GoldenCorpusReport
+  const comparisons = GoldenCorpus.compare(report, baseline)
+
+  if (!args.json) {
+    log(`📊 基準レポートとの比較: ${args.baseline}`)
+    console.table(comparisons.map(comparison => ({
+      parser: comparison.parser,
+      precision: formatDelta(comparison.precision),
+      recall: formatDelta(comparison.recall),
+      f1: formatDelta(comparison.f1),
+      priceAccuracy: formatDelta(comparison.priceAccuracy),
+      avgMs: formatDelta(comparison.averageRuntimeMs),
+      regressions: comparison.regressions.length,
+      improvements: comparison.improvements.length
+    })))
+  }
+
+  const regressions = comparisons.flatMap(comparison =>
+    comparison.regressions.map(regression => ({ parser: comparison.parser, ...regression }))
+  )
+  regressions.forEach(regression => {
+    console.error(`⚠️ ${regression.parser} / ${regression.caseId}: F1 ${regression.before} → ${regression.after}`)
+  })
+  if (regressions.length > 0) {
+    process.exitCode = 1
+  }
+}
+
+/**
+ * 記録済みのレシートごとの基準値と比較（--update-baseline で現在の結果を記録）
+ */
+async function checkCaseBaseline(report: GoldenCorpusReport, update: boolean, json: boolean) {
+  const baselinePath = GoldenCorpus.getBaselinePath()
+  const previous = existsSync(baselinePath)
+    ? JSON.parse(await readFile(baselinePath, 'utf-8')) as CorpusBaseline
+    : undefined
+
+  if (update) {
+    await writeFile(baselinePath, JSON.stringify(GoldenCorpus.createBaseline(report, previous), null, 2) + '\n')
+    if (!json) console.log(`💾 基準値を更新: ${baselinePath}`)
+    return
+  }
+
+  if (!previous) {
+    console.warn(`⚠️ 基準値がありません（--update-baseline で作成）: ${baselinePath}`)
+    return
+  }
+
+  const regressions = GoldenCorpus.checkBaseline(report, previous)
+  regressions.forEach(regression => {
+    console.error(`⚠️ ${regression.parser} / ${regression.caseId}: ${regression.metric} ${regression.expected} → ${regression.actual}（基準値を下回りました）`)
+  })
+  if (regressions.length > 0) {
+    process.exitCode = 1
+  }
+}
+
+main().catch(error => {
+  console.error('❌ コーパス評価エラー:', error instanceof Error ? error.message : error)
+  process.exitCode = 1
+})
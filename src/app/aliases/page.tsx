@@ -0,0 +1,150 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { useAuth } from '@/hooks/useAuth'
+import ProductAliasRow from '@/components/aliases/product-alias-row'
+import { ProductAliasChanges, ProductAliasEntry } from '@/types/product-alias'
+import { ArrowLeft } from 'lucide-react'
+
+export default function ProductAliasesPage() {
+  const { user } = useAuth()
+  const [aliases, setAliases] = useState<ProductAliasEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [searchQuery, setSearchQuery] = useState('')
+
+  const fetchAliases = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('product_aliases')
+        .select('id, raw_text, name, category, unit, updated_at')
+        .eq('user_id', user?.id)
+        .order('updated_at', { ascending: false })
+
+      if (error) throw error
+      setAliases(data || [])
+    } catch (error) {
+      console.error('ユーザー辞書取得エラー:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (user) {
+      fetchAliases()
+    }
+  }, [user, fetchAliases])
+
+  const saveAlias = async (id: string, changes: ProductAliasChanges) => {
+    setSaving(true)
+    setError('')
+
+    try {
+      const { error } = await supabase
+        .from('product_aliases')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', id)
+
+      if (error) throw error
+      await fetchAliases()
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'エラーが発生しました')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteAlias = async (id: string) => {
+    if (!confirm('この登録を削除しますか？次回以降の読み取りには適用されなくなります')) return
+
+    setSaving(true)
+    setError('')
+
+    try {
+      const { error } = await supabase
+        .from('product_aliases')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+      setAliases(aliases.filter(alias => alias.id !== id))
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'エラーが発生しました')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const filteredAliases = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase()
+    if (!query) return aliases
+
+    return aliases.filter(alias =>
+      alias.raw_text.toLowerCase().includes(query) ||
+      alias.name.toLowerCase().includes(query)
+    )
+  }, [aliases, searchQuery])
+
+  if (loading) {
+    return <div className="text-center">読み込み中...</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">商品名辞書</h2>
+          <p className="text-muted-foreground">
+            レシートから取り込んだ食材の修正内容です。次回以降の読み取りで自動的に適用されます
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => window.history.back()}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          戻る
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {aliases.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground mb-4">まだ登録がありません</p>
+          <p className="text-sm text-muted-foreground">
+            食材管理でレシートから取り込んだ食材の商品名・カテゴリ・単位を修正すると、ここに登録されます
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="レシート上の表記・商品名で検索"
+          />
+          {filteredAliases.length === 0 ? (
+            <p className="text-center text-muted-foreground py-6">条件に一致する登録が見つかりませんでした</p>
+          ) : (
+            filteredAliases.map(alias => (
+              <ProductAliasRow
+                key={alias.id}
+                alias={alias}
+                saving={saving}
+                onSave={saveAlias}
+                onDelete={deleteAlias}
+              />
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
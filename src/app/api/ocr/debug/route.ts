@@ -2,6 +2,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { EnhancedOCRService } from '@/lib/ocr/enhanced-ocr-service'
+import { ImagePreprocessor, PreprocessStep } from '@/lib/ocr/image-preprocessor'
 import { createClient } from '@/lib/supabase/server'
 
 export async function POST(request: NextRequest) {
@@ -136,9 +137,51 @@ export async function POST(request: NextRequest) {
         })
       }
 
+      case 'preprocess': {
+        // 前処理の各ステップの中間画像を返す
+        const stepsParam = formData.get('steps') as string | null
+        const steps = stepsParam
+          ? ImagePreprocessor.parseSteps(stepsParam)
+          : ImagePreprocessor.defaultSteps(formData.get('engine') === 'tesseract' ? 'tesseract' : undefined)
+        const buffer = Buffer.from(await file.arrayBuffer())
+        const preprocessed = await ImagePreprocessor.process(buffer, {
+          steps,
+          keepIntermediates: true,
+          debugMode: true
+        })
+
+        // step 指定時はその中間画像をそのまま返す
+        const requestedStep = formData.get('step') as PreprocessStep | null
+        if (requestedStep) {
+          const stepResult = preprocessed.steps.find(result => result.step === requestedStep)
+          if (!stepResult?.image) {
+            return NextResponse.json({ error: `ステップが実行されていません: ${requestedStep}` }, { status: 400 })
+          }
+          return new NextResponse(new Uint8Array(stepResult.image), {
+            headers: { 'Content-Type': 'image/png' }
+          })
+        }
+
+        return NextResponse.json({
+          success: true,
+          action: 'preprocess',
+          data: {
+            output: {
+              mimeType: preprocessed.mimeType,
+              width: preprocessed.width,
+              height: preprocessed.height
+            },
+            steps: preprocessed.steps.map(({ image, ...stepResult }) => ({
+              ...stepResult,
+              image: image ? `data:image/png;base64,${image.toString('base64')}` : undefined
+            }))
+          }
+        })
+      }
+
       default: {
         return NextResponse.json({ 
-          error: '無効なアクションです。利用可能: analysis, performance, comparison, validation' 
+          error: '無効なアクションです。利用可能: analysis, performance, comparison, validation, preprocess' 
         }, { status: 400 })
       }
     }
@@ -179,6 +222,12 @@ export async function GET() {
         method: 'POST',
         description: '検証結果の詳細表示',
         parameters: ['image (File)']
+      },
+      {
+        action: 'preprocess',
+        method: 'POST',
+        description: '画像前処理の各ステップの中間画像を表示',
+        parameters: ['image (File)', 'steps (任意, 例: rotate,crop,deskew)', 'step (任意, 指定ステップの画像のみ返す)', 'engine (任意)']
       }
     ],
     usage: {
@@ -3,6 +3,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { EnhancedOCRService } from '@/lib/ocr/enhanced-ocr-service'
 import { HybridOCRStrategy } from '@/lib/ocr/hybrid-ocr-strategy'
+import { OCREngineFactory } from '@/lib/ocr/ocr-engine'
+import { ProductAliasDictionary } from '@/lib/ocr/product-alias-dictionary'
+import { ProductNameCorrector } from '@/lib/ocr/product-name-corrector'
+import { ReceiptHeaderExtractor } from '@/lib/ocr/receipt-header-extractor'
+import { TaxModel } from '@/lib/ocr/tax-model'
+import { TextNormalizer } from '@/lib/ocr/text-normalizer'
 import { createClient } from '@/lib/supabase/server'
 
 export async function POST(request: NextRequest) {
@@ -20,33 +26,68 @@ export async function POST(request: NextRequest) {
 
     console.log('📝 FormData解析開始')
     const formData = await request.formData()
-    const file = formData.get('image') as File
+    // 複数枚に分けて撮影したレシートは image を撮影順に複数送信
+    // PDF・HTML・メール（.eml）は image または file として1件送信
+    const files = [...formData.getAll('image'), ...formData.getAll('file')]
+      .filter((entry): entry is File => entry instanceof File)
+    const file = files[0]
+    const requestedEngine = formData.get('engine') as string | null
 
     if (!file) {
       console.log('❌ ファイルが見つかりません')
       return NextResponse.json({ error: 'ファイルが見つかりません' }, { status: 400 })
     }
 
-    console.log('📁 ファイル情報:', {
-      name: file.name,
-      size: file.size,
-      type: file.type,
-      lastModified: new Date(file.lastModified).toISOString()
+    files.forEach((entry, index) => {
+      console.log(`📁 ファイル情報${files.length > 1 ? ` (${index + 1}/${files.length})` : ''}:`, {
+        name: entry.name,
+        size: entry.size,
+        type: entry.type,
+        lastModified: new Date(entry.lastModified).toISOString()
+      })
     })
 
+    // PDF・HTML・メールは1件ずつ処理する（2件目以降を黙って無視しない）
+    if (files.length > 1 && files.some(entry => !entry.type.startsWith('image/'))) {
+      return NextResponse.json({ error: 'PDF・HTML・メールは1件ずつ送信してください' }, { status: 400 })
+    }
+
+    if (requestedEngine && !OCREngineFactory.isEngineName(requestedEngine)) {
+      return NextResponse.json({ error: `未対応のOCRエンジンです: ${requestedEngine}` }, { status: 400 })
+    }
+
     // ハイブリッドOCR戦略を使用
     const debugMode = process.env.NODE_ENV === 'development' // 開発環境でのみデバッグ出力を有効化
     const useHybridStrategy = process.env.USE_HYBRID_STRATEGY === 'true'
+    const ocrEngine = OCREngineFactory.resolveEngineName(requestedEngine)
     
     console.log('⚙️ OCR処理設定:', {
       debugMode,
       useHybridStrategy,
+      ocrEngine,
       documentAIAvailable: process.env.USE_DOCUMENT_AI === 'true' && !!process.env.DOCUMENT_AI_PROCESSOR_ID
     })
 
+    // ユーザー辞書（過去の修正）: 解析直後にレシート上の表記で照合し、組み込みの正規化・略称展開・誤読修正より優先する
+    const { data: aliasRows, error: aliasError } = await supabase
+      .from('product_aliases')
+      .select('raw_text, name, category, unit')
+      .eq('user_id', session.user.id)
+
+    if (aliasError) {
+      console.warn('⚠️ ユーザー辞書の取得に失敗しました:', aliasError.message)
+    }
+    const aliases = new ProductAliasDictionary((aliasRows || []).map(row => ({
+      rawText: row.raw_text,
+      name: row.name,
+      category: row.category,
+      unit: row.unit
+    })))
+
     let result
     
-    if (useHybridStrategy) {
+    // ハイブリッド戦略はDocument AIで画像を1枚ずつ処理するため、複数枚・画像以外の場合は使用しない
+    if (useHybridStrategy && files.length === 1 && file.type.startsWith('image/')) {
       // ハイブリッド戦略使用
       console.log('🔄 ハイブリッドOCR戦略を使用')
       const hybridOCR = new HybridOCRStrategy({
@@ -55,16 +96,19 @@ export async function POST(request: NextRequest) {
         fallbackThreshold: 0.7,
         mergeStrategy: 'best-of-both',
         confidenceThreshold: 0.7,
-        itemCountThreshold: 3
+        itemCountThreshold: 3,
+        ocrEngine
       })
       
       result = await hybridOCR.processReceipt(file)
+      // Document AI の結果は解析パイプラインを通らないため、ここでユーザー辞書を適用
+      result.items = aliases.applyToItems(result.items, debugMode)
     } else {
       // 従来のEnhancedOCRService使用
       console.log('🔧 従来のEnhancedOCRServiceを使用')
       const enhancedOCR = new EnhancedOCRService()
       
-      const useDocumentAI = process.env.USE_DOCUMENT_AI === 'true'
+      const useDocumentAI = process.env.USE_DOCUMENT_AI === 'true' && ocrEngine !== 'tesseract'
       const options = {
         enablePatternMatching: true,
         maxProcessingTime: 25000,
@@ -80,12 +124,14 @@ export async function POST(request: NextRequest) {
         useReceipt3Parser: true,
         useLifeParser: true,
         useWarehouseParser: true,
+        ocrEngine,
         useDocumentAI: useDocumentAI,
         documentAIProcessorId: process.env.DOCUMENT_AI_PROCESSOR_ID,
-        documentAILocation: process.env.DOCUMENT_AI_LOCATION || 'us'
+        documentAILocation: process.env.DOCUMENT_AI_LOCATION || 'us',
+        productAliases: aliases
       }
       
-      result = await enhancedOCR.processImage(file, options)
+      result = await enhancedOCR.processDocument(files, options)
     }
 
     console.log('🔍 OCR処理開始')
@@ -103,6 +149,31 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    // ユーザーの過去の食材・辞書の商品名を語彙に加えて商品名の誤読を修正
+    const { data: pastItems, error: pastItemsError } = await supabase
+      .from('items')
+      .select('name')
+      .eq('user_id', session.user.id)
+      .order('created_at', { ascending: false })
+      .limit(500)
+
+    if (pastItemsError) {
+      console.warn('⚠️ 過去の食材の取得に失敗しました:', pastItemsError.message)
+    } else if ((pastItems && pastItems.length > 0) || (aliasRows && aliasRows.length > 0)) {
+      const corrector = new ProductNameCorrector([
+        ...(pastItems || []).map(item => item.name),
+        ...(aliasRows || []).map(row => row.name)
+      ])
+      result.items = corrector.applyToItems(result.items, debugMode)
+    }
+
+    // レシートヘッダー（店舗・購入日時等）を抽出（商品と同じく正規化したテキストから）
+    const receiptText = TextNormalizer.normalize(result.extractedText)
+    const header = ReceiptHeaderExtractor.extract(receiptText, debugMode)
+
+    // 商品ごとの税率を設定し、税抜レシートは税込価格に換算
+    const tax = TaxModel.applyToItems(result.items, receiptText, debugMode)
+
     // デバッグ分析（開発環境で有効）
     if (debugMode) {
       console.log('\n📋 処理結果:')
@@ -114,18 +185,26 @@ export async function POST(request: NextRequest) {
       if (result.items.length > 0) {
         console.log('\n🛒 検出された商品:')
         result.items.forEach((item, index) => {
-          const currency = item.currency === 'USD' ? '$' : '¥'
+          const currency = item.currency === 'USD' ? '$' : item.currency === 'CAD' ? 'C$' : '¥'
           console.log(`${index + 1}. ${item.name} - ${currency}${item.price} (x${item.quantity || 1}) [信頼度: ${(item.confidence * 100).toFixed(1)}%]`)
         })
       }
       console.log('=========================')
     }
 
+    // 解析の段階記録はデバッグ情報として返す
+    const stageTrace = result.metadata && 'stageTrace' in result.metadata ? result.metadata.stageTrace : undefined
+    const methodsUsed = stageTrace
+      ? stageTrace.filter(stage => stage.status !== 'skipped').map(stage => stage.name)
+      : result.metadata && 'methodsUsed' in result.metadata ? result.metadata.methodsUsed : []
+
     return NextResponse.json({
       success: true,
       extractedText: result.extractedText,
       items: result.items,
-      metadata: result.metadata,
+      header,
+      tax,
+      metadata: result.metadata && { ...result.metadata, stageTrace: undefined },
       debug: {
         textLines: result.extractedText.split('\n').length,
         itemsFound: result.items.length,
@@ -133,8 +212,9 @@ export async function POST(request: NextRequest) {
         patternUsed: 'patternUsed' in (result.metadata || {}) ? (result.metadata as { patternUsed: string }).patternUsed : 'unknown',
         confidence: result.metadata?.confidence,
         processingTime: result.metadata?.processingTime,
-        methodsUsed: [],
-        qualityScore: 0
+        methodsUsed,
+        qualityScore: result.metadata?.qualityScore ?? 0,
+        stageTrace
       }
     })
 
@@ -5,35 +5,49 @@ import UploadMethodSelector from '@/components/upload/upload-method-selector'
 import ImagePreview from '@/components/upload/image-preview'
 import OCRResults from '@/components/upload/ocr-results'
 import ErrorAlert from '@/components/upload/error-alert'
+import DuplicateReceiptAlert from '@/components/upload/duplicate-receipt-alert'
 import { useUpload } from '@/hooks/useUpload'
 
 export default function UploadPage() {
   const {
-    file,
-    preview,
+    files,
+    previews,
     loading,
     ocrResult,
     error,
     progress,
     selectedItems,
     showCamera,
+    duplicateReceipt,
     handleFileChange,
-    processFile,
+    handleAddFileChange,
+    addFile,
+    removeFile,
+    moveFile,
     processOCR,
     saveSelectedItems,
+    resolveDuplicate,
     toggleItemSelection,
     setShowCamera,
     resetUpload,
   } = useUpload()
 
+  // 撮影を続けられるよう、撮影した写真は続きの写真として追加
   const handleCameraCapture = (capturedFile: File) => {
-    processFile(capturedFile)
+    if (ocrResult) {
+      resetUpload()
+    }
+    addFile(capturedFile)
   }
 
   const handleFileSelectClick = () => {
     document.getElementById('file-input')?.click()
   }
 
+  const handleAddPhotoClick = () => {
+    document.getElementById('file-input-add')?.click()
+  }
+
   if (showCamera) {
     return (
       <div className="space-y-6">
@@ -47,6 +61,8 @@ export default function UploadPage() {
         <CameraCapture
           onCapture={handleCameraCapture}
           onCancel={() => setShowCamera(false)}
+          onDone={() => setShowCamera(false)}
+          capturedCount={ocrResult ? 0 : files.length}
         />
       </div>
     )
@@ -71,22 +87,42 @@ export default function UploadPage() {
         id="file-input"
         type="file"
         className="hidden"
-        accept="image/*"
+        accept="image/*,application/pdf,.pdf,text/html,.html,.htm,message/rfc822,.eml"
+        multiple
         onChange={handleFileChange}
       />
+      <input
+        id="file-input-add"
+        type="file"
+        className="hidden"
+        accept="image/*"
+        multiple
+        onChange={handleAddFileChange}
+      />
 
       <ImagePreview
-        preview={preview}
-        file={file}
+        previews={previews}
+        files={files}
         loading={loading}
         progress={progress}
         ocrResult={ocrResult}
         onProcessOCR={processOCR}
         onReset={resetUpload}
+        onAddPhoto={handleAddPhotoClick}
+        onRemovePhoto={removeFile}
+        onMovePhoto={moveFile}
       />
 
       <ErrorAlert error={error} />
 
+      {duplicateReceipt && (
+        <DuplicateReceiptAlert
+          duplicate={duplicateReceipt}
+          loading={loading}
+          onResolve={resolveDuplicate}
+        />
+      )}
+
       {ocrResult && (
         <OCRResults
           ocrResult={ocrResult}
@@ -0,0 +1,88 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { CATEGORIES, UNITS } from '@/constants/itemConstants'
+import { ProductAliasChanges, ProductAliasEntry } from '@/types/product-alias'
+import { ArrowRight, Trash2 } from 'lucide-react'
+
+interface ProductAliasRowProps {
+  alias: ProductAliasEntry
+  saving: boolean
+  onSave: (id: string, changes: ProductAliasChanges) => void
+  onDelete: (id: string) => void
+}
+
+export default function ProductAliasRow({ alias, saving, onSave, onDelete }: ProductAliasRowProps) {
+  const [formData, setFormData] = useState<ProductAliasChanges>({
+    name: alias.name,
+    category: alias.category,
+    unit: alias.unit
+  })
+
+  // 保存後の再取得で内容を更新
+  useEffect(() => {
+    setFormData({ name: alias.name, category: alias.category, unit: alias.unit })
+  }, [alias])
+
+  const changed = formData.name !== alias.name || formData.category !== alias.category || formData.unit !== alias.unit
+
+  return (
+    <div className="flex flex-col lg:flex-row lg:items-center gap-3 p-4 rounded-xl border bg-white/60 border-slate-200">
+      <div className="flex items-center gap-2 lg:w-64 min-w-0">
+        <span className="text-sm text-slate-600 truncate" title={alias.raw_text}>{alias.raw_text}</span>
+        <ArrowRight className="h-4 w-4 flex-shrink-0 text-slate-400" />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 flex-1">
+        <Input
+          value={formData.name}
+          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+          placeholder="商品名"
+          aria-label="商品名"
+        />
+        <Select value={formData.category || ''} onValueChange={(value) => setFormData({ ...formData, category: value })}>
+          <SelectTrigger aria-label="カテゴリ">
+            <SelectValue placeholder="カテゴリ" />
+          </SelectTrigger>
+          <SelectContent>
+            {CATEGORIES.map((category) => (
+              <SelectItem key={category} value={category}>
+                {category}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={formData.unit || ''} onValueChange={(value) => setFormData({ ...formData, unit: value })}>
+          <SelectTrigger aria-label="単位">
+            <SelectValue placeholder="単位" />
+          </SelectTrigger>
+          <SelectContent>
+            {UNITS.map((unit) => (
+              <SelectItem key={unit} value={unit}>
+                {unit}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex gap-2 justify-end">
+        <Button
+          size="sm"
+          onClick={() => onSave(alias.id, { ...formData, name: formData.name.trim() })}
+          disabled={saving || !changed || !formData.name.trim()}
+        >
+          保存
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onDelete(alias.id)}
+          disabled={saving}
+          aria-label="削除"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
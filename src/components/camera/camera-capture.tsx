@@ -8,9 +8,12 @@ import { Camera, X, RotateCcw, Check, AlertCircle } from 'lucide-react'
 interface CameraCaptureProps {
   onCapture: (file: File) => void
   onCancel: () => void
+  // 指定時は撮影後も続けて撮影できる（長いレシートを複数枚に分けて撮影）
+  onDone?: () => void
+  capturedCount?: number
 }
 
-export default function CameraCapture({ onCapture, onCancel }: CameraCaptureProps) {
+export default function CameraCapture({ onCapture, onCancel, onDone, capturedCount = 0 }: CameraCaptureProps) {
   const [isStreaming, setIsStreaming] = useState(false)
   const [capturedImage, setCapturedImage] = useState<string | null>(null)
   const [error, setError] = useState('')
@@ -144,11 +147,17 @@ export default function CameraCapture({ onCapture, onCancel }: CameraCaptureProp
 
     canvasRef.current.toBlob((blob) => {
       if (blob) {
-        const file = new File([blob], 'camera-capture.jpg', { type: 'image/jpeg' })
+        const file = new File([blob], `camera-capture-${capturedCount + 1}.jpg`, { type: 'image/jpeg' })
         onCapture(file)
+
+        // 続きの写真を撮影できるようにカメラを再開
+        if (onDone) {
+          setCapturedImage(null)
+          startCamera()
+        }
       }
     }, 'image/jpeg', 0.8)
-  }, [capturedImage, onCapture])
+  }, [capturedImage, capturedCount, onCapture, onDone, startCamera])
 
   const handleCancel = useCallback(() => {
     stopCamera()
@@ -163,7 +172,9 @@ export default function CameraCapture({ onCapture, onCancel }: CameraCaptureProp
           カメラで撮影
         </CardTitle>
         <CardDescription>
-          レシートを撮影してください
+          {capturedCount > 0
+            ? `${capturedCount}枚撮影済み - 続きを前の写真と少し重ねて撮影してください`
+            : 'レシートを撮影してください'}
         </CardDescription>
       </CardHeader>
       
@@ -178,6 +189,7 @@ export default function CameraCapture({ onCapture, onCancel }: CameraCaptureProp
                 <ul className="text-xs text-blue-700 space-y-0.5">
                   <li>• <strong>1枚ずつ</strong>撮影してください</li>
                   <li>• レシート全体が画面に収まるように調整</li>
+                  <li>• 長いレシートは上から順に、少し重ねて複数枚に分けて撮影できます</li>
                   <li>• 明るい場所で文字が鮮明に写るよう撮影</li>
                 </ul>
               </div>
@@ -246,7 +258,7 @@ export default function CameraCapture({ onCapture, onCancel }: CameraCaptureProp
                 </Button>
                 <Button onClick={confirmCapture} className="flex-1">
                   <Check className="mr-2 h-4 w-4" />
-                  この写真を使用
+                  {onDone ? 'この写真を追加' : 'この写真を使用'}
                 </Button>
               </div>
             </div>
@@ -255,12 +267,21 @@ export default function CameraCapture({ onCapture, onCancel }: CameraCaptureProp
           {/* キャンバス（非表示） */}
           <canvas ref={canvasRef} style={{ display: 'none' }} />
 
-          {/* キャンセルボタン */}
-          <div className="flex justify-center pt-4">
+          {/* キャンセル・撮影終了ボタン */}
+          <div className="flex justify-center gap-2 pt-4">
             <Button variant="outline" onClick={handleCancel}>
               <X className="mr-2 h-4 w-4" />
-              キャンセル
+              {capturedCount > 0 ? '閉じる' : 'キャンセル'}
             </Button>
+            {onDone && capturedCount > 0 && (
+              <Button onClick={() => {
+                stopCamera()
+                onDone()
+              }}>
+                <Check className="mr-2 h-4 w-4" />
+                撮影を終了（{capturedCount}枚）
+              </Button>
+            )}
           </div>
         </div>
       </CardContent>
@@ -6,6 +6,7 @@ import { formatDateTimeInToronto } from '@/utils/timezone'
 const getCurrencySymbol = (currency: string | undefined | null): string => {
   if (currency === 'JPY') return '¥'
   if (currency === 'USD') return '$'
+  if (currency === 'CAD') return 'C$'
   return currency || '¥'
 }
 
@@ -112,8 +112,8 @@ export default function AddItemForm({ onSuccess, onCancel }: AddItemFormProps) {
               <Input
                 id="quantity"
                 type="number"
-                step="1"
-                min="1"
+                step="any"
+                min="0"
                 value={formData.quantity}
                 onChange={(e) => setFormData({...formData, quantity: e.target.value})}
                 placeholder="1"
@@ -158,6 +158,7 @@ export default function AddItemForm({ onSuccess, onCancel }: AddItemFormProps) {
                 <SelectContent>
                   <SelectItem value="¥">¥ (円)</SelectItem>
                   <SelectItem value="$">$ (ドル)</SelectItem>
+                  <SelectItem value="C$">C$ (カナダドル)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
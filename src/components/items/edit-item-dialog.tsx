@@ -9,6 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { CATEGORIES, UNITS } from '@/constants/itemConstants'
+import { ProductAliasDictionary } from '@/lib/ocr/product-alias-dictionary'
 import type { Item } from '@/types/item'
 
 interface EditItemDialogProps {
@@ -28,7 +29,7 @@ export default function EditItemDialog({ item, open, onOpenChange, onSuccess }:
     quantity: item?.quantity?.toString() || '',
     unit: item?.unit || '個',
     price: item?.price?.toString() || '',
-    currency: item?.currency === 'JPY' ? '¥' : item?.currency === 'USD' ? '$' : '¥',
+    currency: item?.currency === 'JPY' ? '¥' : item?.currency === 'USD' ? '$' : item?.currency === 'CAD' ? 'C$' : '¥',
     expiry_date: item?.expiry_date || '',
     purchase_date: item?.purchase_date || '',
     notes: item?.notes || ''
@@ -43,7 +44,7 @@ export default function EditItemDialog({ item, open, onOpenChange, onSuccess }:
         quantity: item.quantity.toString(),
         unit: item.unit,
         price: item.price?.toString() || '',
-        currency: item.currency === 'JPY' ? '¥' : item.currency === 'USD' ? '$' : '¥',
+        currency: item.currency === 'JPY' ? '¥' : item.currency === 'USD' ? '$' : item.currency === 'CAD' ? 'C$' : '¥',
         expiry_date: item.expiry_date || '',
         purchase_date: item.purchase_date || '',
         notes: item.notes || ''
@@ -68,7 +69,7 @@ export default function EditItemDialog({ item, open, onOpenChange, onSuccess }:
           quantity: parseFloat(formData.quantity) || 1,
           unit: formData.unit,
           price: formData.price ? parseFloat(formData.price) : null,
-          currency: formData.currency === '¥' ? 'JPY' : formData.currency === '$' ? 'USD' : formData.currency,
+          currency: formData.currency === '¥' ? 'JPY' : formData.currency === '$' ? 'USD' : formData.currency === 'C$' ? 'CAD' : formData.currency,
           expiry_date: formData.expiry_date || null,
           purchase_date: formData.purchase_date || null,
           notes: formData.notes || null,
@@ -76,6 +77,8 @@ export default function EditItemDialog({ item, open, onOpenChange, onSuccess }:
         .eq('id', item.id)
 
       if (error) throw error
+
+      await recordCorrection(item)
       
       onSuccess()
       onOpenChange(false)
@@ -86,6 +89,32 @@ export default function EditItemDialog({ item, open, onOpenChange, onSuccess }:
     }
   }
 
+  // レシートから取り込んだ食材の商品名・カテゴリ・単位を修正した場合はユーザー辞書に記録
+  const recordCorrection = async (original: Item) => {
+    if (!original.receipt_name || !original.user_id) return
+
+    const category = formData.category || 'その他'
+    const corrected = formData.name !== original.name || category !== original.category || formData.unit !== original.unit
+    if (!corrected) return
+
+    const { error } = await supabase
+      .from('product_aliases')
+      .upsert({
+        user_id: original.user_id,
+        raw_text: original.receipt_name,
+        raw_key: ProductAliasDictionary.normalizeKey(original.receipt_name),
+        name: formData.name,
+        category,
+        unit: formData.unit,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id,raw_key' })
+
+    // 辞書への記録に失敗しても食材の修正は完了しているため、警告のみ
+    if (error) {
+      console.warn('ユーザー辞書の記録に失敗しました:', error.message)
+    }
+  }
+
   const handleDelete = async () => {
     if (!item || !confirm('この食材を削除しますか？')) return
     
@@ -118,6 +147,11 @@ export default function EditItemDialog({ item, open, onOpenChange, onSuccess }:
           <DialogTitle>食材を編集</DialogTitle>
           <DialogDescription>
             食材の情報を編集できます
+            {item.receipt_name && (
+              <span className="block mt-1 text-xs">
+                レシート上の表記: {item.receipt_name}（商品名・カテゴリ・単位の修正は次回以降の読み取りに反映されます）
+              </span>
+            )}
           </DialogDescription>
         </DialogHeader>
         
@@ -155,8 +189,8 @@ export default function EditItemDialog({ item, open, onOpenChange, onSuccess }:
               <Input
                 id="quantity"
                 type="number"
-                step="1"
-                min="1"
+                step="any"
+                min="0"
                 value={formData.quantity}
                 onChange={(e) => setFormData({...formData, quantity: e.target.value})}
                 placeholder="1"
@@ -201,6 +235,7 @@ export default function EditItemDialog({ item, open, onOpenChange, onSuccess }:
                 <SelectContent>
                   <SelectItem value="¥">¥ (円)</SelectItem>
                   <SelectItem value="$">$ (ドル)</SelectItem>
+                  <SelectItem value="C$">C$ (カナダドル)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -1,6 +1,6 @@
 import { Button } from '@/components/ui/button'
 import NavLink from './nav-link'
-import { Home, Upload, Package, History } from 'lucide-react'
+import { Home, Upload, Package, History, BookOpen } from 'lucide-react'
 
 interface DesktopHeaderProps {
   pathname: string
@@ -41,6 +41,9 @@ export default function DesktopHeader({
           <NavLink href="/history" pathname={pathname} icon={History}>
             履歴
           </NavLink>
+          <NavLink href="/aliases" pathname={pathname} icon={BookOpen}>
+            辞書
+          </NavLink>
         </nav>
         
         <div className="flex items-center gap-3 pl-6 border-l border-slate-200">
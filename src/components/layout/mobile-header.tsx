@@ -1,6 +1,6 @@
 import { Button } from '@/components/ui/button'
 import NavLink from './nav-link'
-import { Home, Upload, Package, History } from 'lucide-react'
+import { Home, Upload, Package, History, BookOpen } from 'lucide-react'
 
 interface MobileHeaderProps {
   pathname: string
@@ -34,7 +34,7 @@ export default function MobileHeader({ pathname, onSignOut }: MobileHeaderProps)
       
       {/* モバイルナビゲーション */}
       <div className="pb-3 border-t border-slate-200/60">
-        <nav className="grid grid-cols-2 gap-2 pt-3 bg-white/40 backdrop-blur-sm rounded-xl p-2 mx-2 border border-slate-200/60 shadow-sm">
+        <nav className="grid grid-cols-3 gap-2 pt-3 bg-white/40 backdrop-blur-sm rounded-xl p-2 mx-2 border border-slate-200/60 shadow-sm">
           <NavLink href="/" pathname={pathname} icon={Home} mobile>
             ダッシュボード
           </NavLink>
@@ -47,6 +47,9 @@ export default function MobileHeader({ pathname, onSignOut }: MobileHeaderProps)
           <NavLink href="/history" pathname={pathname} icon={History} mobile>
             履歴
           </NavLink>
+          <NavLink href="/aliases" pathname={pathname} icon={BookOpen} mobile>
+            辞書
+          </NavLink>
         </nav>
       </div>
     </div>
@@ -1,6 +1,6 @@
 import { Button } from '@/components/ui/button'
 import NavLink from './nav-link'
-import { Home, Upload, Package, History } from 'lucide-react'
+import { Home, Upload, Package, History, BookOpen } from 'lucide-react'
 
 interface TabletHeaderProps {
   pathname: string
@@ -34,7 +34,7 @@ export default function TabletHeader({ pathname, onSignOut }: TabletHeaderProps)
       
       {/* タブレットナビゲーション */}
       <div className="pb-4 border-t border-slate-200/60">
-        <nav className="grid grid-cols-4 gap-3 pt-4 bg-white/40 backdrop-blur-sm rounded-xl p-3 mx-2 border border-slate-200/60 shadow-sm">
+        <nav className="grid grid-cols-5 gap-3 pt-4 bg-white/40 backdrop-blur-sm rounded-xl p-3 mx-2 border border-slate-200/60 shadow-sm">
           <NavLink href="/" pathname={pathname} icon={Home} tablet>
             ダッシュボード
           </NavLink>
@@ -47,6 +47,9 @@ export default function TabletHeader({ pathname, onSignOut }: TabletHeaderProps)
           <NavLink href="/history" pathname={pathname} icon={History} tablet>
             履歴
           </NavLink>
+          <NavLink href="/aliases" pathname={pathname} icon={BookOpen} tablet>
+            辞書
+          </NavLink>
         </nav>
       </div>
     </div>
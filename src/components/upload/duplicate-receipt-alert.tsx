@@ -0,0 +1,87 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Copy, Loader2 } from 'lucide-react'
+import { DuplicateReceipt, DuplicateResolution } from '@/types/upload'
+
+interface DuplicateReceiptAlertProps {
+  duplicate: DuplicateReceipt
+  loading: boolean
+  onResolve: (resolution: DuplicateResolution) => void
+}
+
+// 一致した項目の表示名
+const FIELD_LABELS: Record<string, string> = {
+  hash: 'すべての項目',
+  transactionNumber: '取引番号',
+  purchaseDate: '購入日',
+  purchaseTime: '購入時刻',
+  storeName: '店舗名',
+  total: '合計金額',
+  items: '商品'
+}
+
+export default function DuplicateReceiptAlert({ duplicate, loading, onResolve }: DuplicateReceiptAlertProps) {
+  const importedAt = new Date(duplicate.importedAt).toLocaleString('ja-JP')
+
+  // 通貨を記録していない以前の取り込みは記号なしで表示
+  const getCurrencySymbol = (currency: string | undefined): string => {
+    if (currency === 'JPY') return '¥'
+    if (currency === 'USD') return '$'
+    if (currency === 'CAD') return 'C$'
+    return currency || ''
+  }
+
+  return (
+    <Alert className="bg-amber-50/80 border-amber-200/60 backdrop-blur-sm shadow-sm">
+      <Copy className="h-4 w-4 text-amber-700" />
+      <AlertTitle className="text-amber-900">このレシートは取り込み済みの可能性があります</AlertTitle>
+      <AlertDescription className="text-amber-800">
+        <p>
+          {importedAt} に取り込み
+          {duplicate.storeName && ` • ${duplicate.storeName}`}
+          {duplicate.purchaseDate && ` • 購入日: ${duplicate.purchaseDate}`}
+        </p>
+        <p className="text-sm">
+          一致: {duplicate.matchedFields.map(field => FIELD_LABELS[field] || field).join('・')}
+        </p>
+        {duplicate.items.length > 0 && (
+          <ul className="mt-2 max-h-40 overflow-y-auto text-sm list-disc pl-5">
+            {duplicate.items.map((item, index) => (
+              <li key={index}>
+                {item.name}
+                {item.price !== null && ` • ${getCurrencySymbol(item.currency)}${item.price.toLocaleString('en-CA')}`}
+                {item.quantity > 1 && ` • 数量: ${item.quantity}`}
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-wrap gap-2 pt-3">
+          <Button
+            variant="outline"
+            onClick={() => onResolve('skip')}
+            disabled={loading}
+            className="bg-white/80 border-slate-200 hover:bg-slate-50 text-slate-700"
+          >
+            取り込まない
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => onResolve('merge')}
+            disabled={loading}
+            className="bg-white/80 border-amber-300 hover:bg-amber-100 text-amber-900"
+          >
+            前回にない食材のみ追加
+          </Button>
+          <Button
+            onClick={() => onResolve('import')}
+            disabled={loading}
+            className="bg-gradient-to-r from-teal-600 to-teal-700 hover:from-teal-700 hover:to-teal-800 text-white"
+          >
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            すべて取り込む
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -1,29 +1,37 @@
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Loader2, X, ImageIcon } from 'lucide-react'
+import { Loader2, X, ImageIcon, Plus, ChevronUp, ChevronDown, FileText } from 'lucide-react'
 import NextImage from 'next/image'
 import { OCRResult } from '@/types/upload'
 
 interface ImagePreviewProps {
-  preview: string | null
-  file: File | null
+  previews: string[]
+  files: File[]
   loading: boolean
   progress: number
   ocrResult: OCRResult | null
   onProcessOCR: () => void
   onReset: () => void
+  onAddPhoto: () => void
+  onRemovePhoto: (index: number) => void
+  onMovePhoto: (index: number, offset: number) => void
 }
 
 export default function ImagePreview({
-  preview,
-  file,
+  previews,
+  files,
   loading,
   progress,
   ocrResult,
   onProcessOCR,
-  onReset
+  onReset,
+  onAddPhoto,
+  onRemovePhoto,
+  onMovePhoto
 }: ImagePreviewProps) {
-  if (!file && !preview) return null
+  if (files.length === 0 && previews.length === 0) return null
+
+  const isMultiple = previews.length > 1
 
   return (
     <Card className="bg-white/80 backdrop-blur-sm border-slate-200/60 shadow-sm hover:shadow-md transition-all duration-300">
@@ -35,28 +43,67 @@ export default function ImagePreview({
           アップロード画像
         </CardTitle>
         <CardDescription className="text-slate-600">
-          画像を確認してレシートを読み取ってください
+          {isMultiple
+            ? `${previews.length}枚の写真を上から順に並べてください。重なった部分は自動で結合されます`
+            : '画像を確認してレシートを読み取ってください'}
         </CardDescription>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
-          {preview && (
-            <div className="flex justify-center">
+          {previews.map((preview, index) => (
+            <div key={index} className="flex justify-center items-center gap-2">
               <div className="relative overflow-hidden rounded-xl border-2 border-slate-200/60 shadow-sm bg-white/50">
-                <NextImage
-                  src={preview}
-                  alt="アップロード画像"
-                  width={400}
-                  height={300}
-                  className="object-contain"
-                  style={{ maxHeight: '400px' }}
-                />
+                {isMultiple && (
+                  <span className="absolute top-2 left-2 z-10 rounded-md bg-slate-800/70 px-2 py-0.5 text-xs font-medium text-white">
+                    {index + 1}枚目
+                  </span>
+                )}
+                {preview ? (
+                  <NextImage
+                    src={preview}
+                    alt={`アップロード画像${isMultiple ? ` ${index + 1}` : ''}`}
+                    width={400}
+                    height={300}
+                    className="object-contain"
+                    style={{ maxHeight: '400px' }}
+                  />
+                ) : (
+                  // PDF・メールのレシートはファイル名を表示
+                  <div className="flex items-center gap-3 px-6 py-8 text-slate-700">
+                    <FileText className="h-8 w-8 text-teal-600" />
+                    <span className="text-sm font-medium break-all">{files[index]?.name}</span>
+                  </div>
+                )}
               </div>
+              {isMultiple && !loading && (
+                <div className="flex flex-col gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => onMovePhoto(index, -1)} disabled={index === 0} aria-label="前へ移動">
+                    <ChevronUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => onRemovePhoto(index)} aria-label="この写真を削除">
+                    <X className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => onMovePhoto(index, 1)} disabled={index === previews.length - 1} aria-label="後ろへ移動">
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
             </div>
+          ))}
+
+          {!ocrResult && !loading && previews.every(preview => preview) && (
+            <Button
+              variant="outline"
+              onClick={onAddPhoto}
+              className="w-full bg-white/80 border-dashed border-slate-300 hover:bg-slate-50 text-slate-700 font-medium transition-all duration-200"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              続きの写真を追加（長いレシート）
+            </Button>
           )}
 
           <div className="flex gap-2">
-            {file && !ocrResult && (
+            {files.length > 0 && !ocrResult && (
               <div className="flex-1">
                 <Button 
                   onClick={onProcessOCR} 
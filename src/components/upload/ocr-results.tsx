@@ -23,6 +23,7 @@ export default function OCRResults({
   const getCurrencySymbol = (currency: string | undefined): string => {
     if (currency === 'JPY') return '¥'
     if (currency === 'USD') return '$'
+    if (currency === 'CAD') return 'C$'
     return currency || '$'
   }
 
@@ -38,6 +39,14 @@ export default function OCRResults({
         <CardDescription className="text-slate-600">
           保存したい食材を選択してください
         </CardDescription>
+        {ocrResult.header && (ocrResult.header.storeName || ocrResult.header.purchaseDate) && (
+          <p className="text-sm text-slate-500">
+            {ocrResult.header.storeName}
+            {ocrResult.header.branch && ` ${ocrResult.header.branch}`}
+            {ocrResult.header.purchaseDate && ` • 購入日: ${ocrResult.header.purchaseDate}`}
+            {ocrResult.header.purchaseTime && ` ${ocrResult.header.purchaseTime}`}
+          </p>
+        )}
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
@@ -70,7 +79,19 @@ export default function OCRResults({
                       <p className="text-sm text-slate-600">
                         {item.category} 
                         {item.price && ` • ${getCurrencySymbol(item.currency)}${item.price.toLocaleString('en-CA')}`}
-                        {item.quantity && item.quantity > 1 && ` • 数量: ${item.quantity}`}
+                        {item.discount && item.originalPrice && (
+                          <span className="ml-1 text-rose-600">
+                            (<span className="line-through">{getCurrencySymbol(item.currency)}{item.originalPrice.toLocaleString('en-CA')}</span> 値引 -{item.discount.toLocaleString('en-CA')})
+                          </span>
+                        )}
+                        {item.unitPriceBasis && item.unitPrice ? (
+                          ` • ${item.quantity}${item.unit} (${item.unitPriceBasis === 1 ? '' : item.unitPriceBasis}${item.unit}あたり${getCurrencySymbol(item.currency)}${item.unitPrice.toLocaleString('en-CA')})`
+                        ) : (
+                          <>
+                            {item.quantity && item.quantity > 1 && ` • 数量: ${item.quantity}`}
+                            {item.quantity && item.quantity > 1 && item.unitPrice && ` × ${getCurrencySymbol(item.currency)}${item.unitPrice.toLocaleString('en-CA')}`}
+                          </>
+                        )}
                       </p>
                     </div>
                   </div>
@@ -56,6 +56,7 @@ export default function UploadMethodSelector({
               <h4 className="font-medium text-amber-800">撮影時のご注意</h4>
               <ul className="text-sm text-amber-700 space-y-1">
                 <li>• <strong>レシートは1枚ずつ</strong>撮影してください</li>
+                <li>• 長いレシートは上から順に、少し重ねて複数枚の写真に分けてアップロードできます</li>
                 <li>• 文字が鮮明に写るように明るい場所で撮影してください</li>
                 <li>• レシート全体が画面に収まるようにしてください</li>
                 <li>• 影が入らないよう正面から撮影してください</li>
@@ -72,6 +73,7 @@ export default function UploadMethodSelector({
           >
             <Upload className="h-7 w-7 text-slate-600 group-hover:text-teal-600 transition-colors duration-200" />
             <span className="font-medium text-slate-700 group-hover:text-teal-700">ファイルから選択</span>
+            <span className="text-xs text-slate-500">画像・PDF・注文確認メール（.eml）</span>
           </Button>
           <Button
             variant="outline"
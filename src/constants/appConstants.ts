@@ -15,9 +15,14 @@ export const AUTH_CONFIG = {
 // 画像処理
 export const IMAGE_CONFIG = {
   MAX_SIZE: 1200,
+  TALL_ASPECT_RATIO: 2, // これ以上縦長の画像は幅のみ制限（長尺レシート）
+  MAX_TALL_HEIGHT: 12000, // 縦長画像の高さ上限（クライアントの縮小・サーバーの前処理で共通。高さはタイル分割OCRで処理）
   QUALITY: 85,
   MAX_FILE_SIZE: 10 * 1024 * 1024, // 10MB
   ACCEPTED_TYPES: ['image/jpeg', 'image/png', 'image/webp'] as const,
+  // PDFレシート・注文確認メール（画像以外はOCR前の圧縮を行わない）
+  ACCEPTED_DOCUMENT_TYPES: ['application/pdf', 'text/html', 'message/rfc822'] as const,
+  ACCEPTED_DOCUMENT_EXTENSIONS: ['.pdf', '.html', '.htm', '.eml'] as const,
 } as const
 
 // UI設定
@@ -38,4 +43,9 @@ export const STORAGE_KEYS = {
 export const API_CONFIG = {
   TIMEOUT: 30000, // 30秒
   RETRY_ATTEMPTS: 3,
-} as const
\ No newline at end of file
+} as const
+// 重複レシートの検出
+export const DUPLICATE_RECEIPT_CONFIG = {
+  RECENT_IMPORT_DAYS: 30, // 購入日が読み取れない場合に比較する取り込み期間
+  MAX_CANDIDATES: 50,
+} as const
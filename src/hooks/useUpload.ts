@@ -1,64 +1,131 @@
 import { useState, useCallback, useRef } from 'react'
 import { supabase } from '@/lib/supabase/client'
 import { useAuth } from '@/hooks/useAuth'
-import { UploadHookReturn, OCRResult, ExtractedItem } from '@/types/upload'
+import { UploadHookReturn, OCRResult, ExtractedItem, DuplicateReceipt, DuplicateResolution, ReceiptImportItem } from '@/types/upload'
 import { ProductCategorizer } from '@/lib/ocr/product-categorizer'
+import { ReceiptFingerprint, ReceiptFingerprintData } from '@/lib/ocr/receipt-fingerprint'
+import { IMAGE_CONFIG, DUPLICATE_RECEIPT_CONFIG } from '@/constants/appConstants'
+import { Json } from '@/lib/supabase/types'
+
+// PDF・HTML・メール（.eml）のレシート
+function isDocumentFile(file: File): boolean {
+  return (IMAGE_CONFIG.ACCEPTED_DOCUMENT_TYPES as readonly string[]).includes(file.type) ||
+    IMAGE_CONFIG.ACCEPTED_DOCUMENT_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))
+}
 
 export function useUpload(): UploadHookReturn {
   const { user } = useAuth()
-  const [file, setFile] = useState<File | null>(null)
-  const [preview, setPreview] = useState<string | null>(null)
+  // 長いレシートは複数枚に分けて撮影できるため、撮影順に保持する
+  const [files, setFiles] = useState<File[]>([])
+  const [previews, setPreviews] = useState<string[]>([])
   const [loading, setLoading] = useState(false)
   const [ocrResult, setOcrResult] = useState<OCRResult | null>(null)
   const [error, setError] = useState('')
   const [progress, setProgress] = useState(0)
   const [selectedItems, setSelectedItems] = useState<Set<number>>(new Set())
   const [showCamera, setShowCamera] = useState(false)
+  const [duplicateReceipt, setDuplicateReceipt] = useState<DuplicateReceipt | null>(null)
   
   // タイマー管理用のref
   const progressIntervalRef = useRef<NodeJS.Timeout | null>(null)
   const timeoutIdRef = useRef<NodeJS.Timeout | null>(null)
 
-  const processFile = useCallback((selectedFile: File) => {
+  // プレビュー画像を作成（PDF・メールはプレビューなし）
+  const readPreview = useCallback((selectedFile: File): Promise<string> => {
+    if (isDocumentFile(selectedFile)) {
+      return Promise.resolve('')
+    }
+
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader()
+      reader.onload = (e) => resolve(e.target?.result as string)
+      reader.onerror = () => reject(new Error('画像の読み込みに失敗しました'))
+      reader.readAsDataURL(selectedFile)
+    })
+  }, [])
+
+  const addFiles = useCallback(async (selectedFiles: File[], replace: boolean) => {
     // ファイル形式の検証
-    if (!selectedFile.type.startsWith('image/')) {
-      setError('画像ファイル（JPEG、PNG、GIF、WebP）のみサポートされています。')
+    if (selectedFiles.some(selectedFile => !selectedFile.type.startsWith('image/') && !isDocumentFile(selectedFile))) {
+      setError('画像ファイル（JPEG、PNG、GIF、WebP）、PDF、HTML、メール（.eml）のみサポートされています。')
+      return
+    }
+
+    // PDF・メールは1件ずつ処理する
+    if (selectedFiles.some(isDocumentFile) && (selectedFiles.length > 1 || (!replace && files.length > 0))) {
+      setError('PDF・HTML・メールのレシートは1件ずつアップロードしてください。')
       return
     }
     
-    setFile(selectedFile)
     setError('')
     setOcrResult(null)
-    setShowCamera(false)
-    
-    // プレビュー画像を作成
-    const reader = new FileReader()
-    reader.onload = (e) => {
-      setPreview(e.target?.result as string)
+    setProgress(0)
+
+    try {
+      const newPreviews = await Promise.all(selectedFiles.map(readPreview))
+      setFiles(prev => replace ? selectedFiles : [...prev, ...selectedFiles])
+      setPreviews(prev => replace ? newPreviews : [...prev, ...newPreviews])
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : '画像の読み込みに失敗しました')
     }
-    reader.onerror = () => {
-      setError('画像の読み込みに失敗しました')
+  }, [readPreview, files])
+
+  const processFile = useCallback((selectedFile: File) => {
+    setShowCamera(false)
+    addFiles([selectedFile], true)
+  }, [addFiles])
+
+  // 続きの写真を追加（カメラ撮影中は撮影を続ける）
+  const addFile = useCallback((selectedFile: File) => {
+    addFiles([selectedFile], false)
+  }, [addFiles])
+
+  const removeFile = useCallback((index: number) => {
+    setFiles(prev => prev.filter((_, i) => i !== index))
+    setPreviews(prev => prev.filter((_, i) => i !== index))
+    setOcrResult(null)
+  }, [])
+
+  // 写真の順番を入れ替え（offset: -1で前へ、1で後ろへ）
+  const moveFile = useCallback((index: number, offset: number) => {
+    const target = index + offset
+    const swap = <T,>(list: T[]): T[] => {
+      if (target < 0 || target >= list.length) return list
+      const next = [...list]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
     }
-    reader.readAsDataURL(selectedFile)
+    setFiles(swap)
+    setPreviews(swap)
+    setOcrResult(null)
   }, [])
 
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0]
-    if (selectedFile) {
-      // 前の状態をクリア
-      setError('')
-      setOcrResult(null)
-      setProgress(0)
-      
-      processFile(selectedFile)
+    const selectedFiles = Array.from(e.target.files || [])
+    if (selectedFiles.length > 0) {
+      addFiles(selectedFiles, true)
     }
     
     // ファイル選択後、同じファイルでも再選択できるようにinputをリセット
     e.target.value = ''
-  }, [processFile])
+  }, [addFiles])
+
+  const handleAddFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFiles = Array.from(e.target.files || [])
+    if (selectedFiles.length > 0) {
+      addFiles(selectedFiles, false)
+    }
+    
+    e.target.value = ''
+  }, [addFiles])
 
   // クライアントサイド画像圧縮
   const compressImage = useCallback(async (file: File): Promise<File> => {
+    // PDF・メールはそのまま送信
+    if (isDocumentFile(file)) {
+      return file
+    }
+
     return new Promise((resolve) => {
       const canvas = document.createElement('canvas')
       const ctx = canvas.getContext('2d')!
@@ -66,10 +133,15 @@ export function useUpload(): UploadHookReturn {
       
       img.onload = () => {
         // 最大サイズを設定
-        const maxSize = 1200
+        const maxSize = IMAGE_CONFIG.MAX_SIZE
         let { width, height } = img
         
-        if (width > height && width > maxSize) {
+        if (height / width >= IMAGE_CONFIG.TALL_ASPECT_RATIO) {
+          // 長尺レシートは幅のみ制限し、サーバー側でタイル分割してOCRする
+          const scale = Math.min(1, maxSize / width, IMAGE_CONFIG.MAX_TALL_HEIGHT / height)
+          width = width * scale
+          height = height * scale
+        } else if (width > height && width > maxSize) {
           height = (height * maxSize) / width
           width = maxSize
         } else if (height > maxSize) {
@@ -92,7 +164,7 @@ export function useUpload(): UploadHookReturn {
           } else {
             resolve(file)
           }
-        }, 'image/jpeg', 0.85)
+        }, 'image/jpeg', IMAGE_CONFIG.QUALITY / 100)
       }
       
       img.src = URL.createObjectURL(file)
@@ -100,13 +172,13 @@ export function useUpload(): UploadHookReturn {
   }, [])
 
   const processOCR = useCallback(async () => {
-    if (!file) {
+    if (files.length === 0) {
       setError('ファイルが見つかりません。画像を選択してから処理を開始してください。')
       return
     }
 
     // ファイルの有効性チェック
-    if (file.size === 0) {
+    if (files.some(selectedFile => selectedFile.size === 0)) {
       setError('ファイルが空またはアクセスできません。別の画像を選択してください。')
       return
     }
@@ -132,17 +204,21 @@ export function useUpload(): UploadHookReturn {
       }, 300)
 
       // 画像圧縮をクライアントサイドで実行（タイムアウト付き）
-      const compressedFile = await Promise.race([
-        compressImage(file),
-        new Promise<File>((_, reject) => {
+      const compressedFiles = await Promise.race([
+        Promise.all(files.map(compressImage)),
+        new Promise<File[]>((_, reject) => {
           setTimeout(() => {
             reject(new Error('画像圧縮がタイムアウトしました（10秒）'))
           }, 10000) // 10秒でタイムアウト
         })
       ])
       
+      // 複数枚の場合は撮影順に送信し、サーバー側で重なった行を除いて結合する
       const formData = new FormData()
-      formData.append('image', compressedFile)
+      compressedFiles.forEach(compressedFile => formData.append('image', compressedFile))
+
+      // 2枚目以降は1枚につき15秒延長
+      const timeoutSeconds = 30 + (files.length - 1) * 15
 
       // タイムアウト付きでfetch実行
       const controller = new AbortController()
@@ -151,11 +227,11 @@ export function useUpload(): UploadHookReturn {
         
         // 強制的にエラー状態に移行
         setTimeout(() => {
-          setError('OCR処理がタイムアウトしました（30秒）。ファイルサイズを小さくして再試行してください。')
+          setError(`OCR処理がタイムアウトしました（${timeoutSeconds}秒）。ファイルサイズを小さくして再試行してください。`)
           setLoading(false)
           setProgress(0)
         }, 1000) // 1秒後に強制実行
-      }, 30000) // 30秒でタイムアウト
+      }, timeoutSeconds * 1000)
 
       const response = await fetch('/api/ocr', {
         method: 'POST',
@@ -203,7 +279,7 @@ export function useUpload(): UploadHookReturn {
       
       if (error instanceof Error) {
         if (error.name === 'AbortError' || error.message.includes('aborted')) {
-          errorMessage = 'OCR処理がタイムアウトしました（30秒）。ファイルサイズを小さくして再試行してください。'
+          errorMessage = 'OCR処理がタイムアウトしました。ファイルサイズを小さくして再試行してください。'
         } else if (error.message.includes('Failed to fetch')) {
           errorMessage = 'ネットワークエラーが発生しました。インターネット接続を確認してください。'
         } else if (error.message.includes('画像圧縮がタイムアウト')) {
@@ -227,7 +303,7 @@ export function useUpload(): UploadHookReturn {
       setLoading(false)
       setProgress(0)
     }
-  }, [file, compressImage])
+  }, [files, compressImage])
 
   const resetUpload = useCallback(() => {
     // すべてのタイマーを停止
@@ -243,10 +319,11 @@ export function useUpload(): UploadHookReturn {
     // loadingとprogressを確実にリセット
     setLoading(false)
     setProgress(0)
-    setFile(null)
-    setPreview(null)
+    setFiles([])
+    setPreviews([])
     setOcrResult(null)
     setSelectedItems(new Set())
+    setDuplicateReceipt(null)
     setError('')
     
     // HTMLファイル入力もリセット
@@ -266,6 +343,130 @@ export function useUpload(): UploadHookReturn {
     setSelectedItems(newSelected)
   }, [selectedItems])
 
+  // 取り込み済みのレシートから最も一致するものを検索
+  const findDuplicateReceipt = useCallback(async (fingerprint: ReceiptFingerprintData): Promise<DuplicateReceipt | null> => {
+    if (!user) return null
+
+    let query = supabase
+      .from('receipt_imports')
+      .select('*')
+      .eq('user_id', user.id)
+
+    // 購入日が読み取れない場合は最近の取り込みと比較する
+    query = fingerprint.purchaseDate
+      ? query.or(`fingerprint_hash.eq.${fingerprint.hash},purchase_date.eq.${fingerprint.purchaseDate}`)
+      : query.gte('created_at', new Date(Date.now() - DUPLICATE_RECEIPT_CONFIG.RECENT_IMPORT_DAYS * 24 * 60 * 60 * 1000).toISOString())
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(DUPLICATE_RECEIPT_CONFIG.MAX_CANDIDATES)
+
+    // 検索できない場合（テーブル未作成等）は保存を妨げない
+    if (error) {
+      console.warn('⚠️ 取り込み済みレシートの検索に失敗しました:', error.message)
+      return null
+    }
+
+    let best: DuplicateReceipt | null = null
+    for (const row of data || []) {
+      const match = ReceiptFingerprint.compare(fingerprint, {
+        hash: row.fingerprint_hash,
+        storeName: row.store_name ?? undefined,
+        purchaseDate: row.purchase_date ?? undefined,
+        purchaseTime: row.purchase_time ?? undefined,
+        transactionNumber: row.transaction_number ?? undefined,
+        total: row.total ?? undefined,
+        itemKeys: row.item_keys
+      })
+
+      if (match.duplicate && (!best || match.score > best.score)) {
+        best = {
+          importId: row.id,
+          importedAt: row.created_at,
+          storeName: row.store_name ?? undefined,
+          purchaseDate: row.purchase_date ?? undefined,
+          items: row.items as unknown as ReceiptImportItem[],
+          matchedFields: match.matchedFields,
+          score: match.score
+        }
+      }
+    }
+
+    return best
+  }, [user])
+
+  // 商品を保存し、取り込み履歴に記録（mergeInto を指定した場合は前回の取り込みに追加）
+  const persistItems = useCallback(async (
+    items: ExtractedItem[],
+    fingerprint: ReceiptFingerprintData,
+    mergeInto?: DuplicateReceipt
+  ): Promise<number> => {
+    if (!ocrResult || !user) return 0
+
+    // レシートから購入日が読み取れた場合はそれを使用
+    const purchaseDate = ocrResult.header?.purchaseDate || new Date().toISOString().split('T')[0]
+
+    if (items.length > 0) {
+      const itemsToSave = items.map(item => ({
+        user_id: user.id,
+        name: item.name,
+        receipt_name: item.receiptName || item.name, // 後で修正した場合にユーザー辞書へ記録するため
+        category: item.category || ProductCategorizer.categorize(item.name),
+        quantity: item.quantity || 1,
+        unit: item.unit || '個',
+        purchase_date: purchaseDate,
+        price: item.price || null,
+        currency: item.currency || null,
+        tax_rate: item.taxRate ?? null,
+        unit_price: item.unitPrice ?? null,
+        unit_price_basis: item.unitPriceBasis ?? null,
+        notes: null,
+      }))
+
+      const { error } = await supabase
+        .from('items')
+        .insert(itemsToSave)
+
+      if (error) throw error
+    }
+
+    const importItems: ReceiptImportItem[] = items.map(item => ({
+      name: item.name,
+      price: item.price ?? null,
+      currency: item.currency,
+      quantity: item.quantity || 1
+    }))
+
+    // 取り込み履歴の記録に失敗しても商品は保存済みのため、警告のみとする
+    const { error: importError } = mergeInto
+      ? await supabase
+        .from('receipt_imports')
+        .update({
+          items: [...mergeInto.items, ...importItems] as unknown as Json,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', mergeInto.importId)
+      : await supabase
+        .from('receipt_imports')
+        .insert({
+          user_id: user.id,
+          fingerprint_hash: fingerprint.hash,
+          store_name: fingerprint.storeName ?? null,
+          purchase_date: fingerprint.purchaseDate ?? null,
+          purchase_time: fingerprint.purchaseTime ?? null,
+          transaction_number: fingerprint.transactionNumber ?? null,
+          total: fingerprint.total ?? null,
+          item_keys: fingerprint.itemKeys,
+          items: importItems as unknown as Json
+        })
+
+    if (importError) {
+      console.warn('⚠️ 取り込み履歴の記録に失敗しました:', importError.message)
+    }
+
+    return items.length
+  }, [ocrResult, user])
+
   const saveSelectedItems = useCallback(async () => {
     if (!ocrResult || !user) return
 
@@ -273,51 +474,96 @@ export function useUpload(): UploadHookReturn {
     setError('')
 
     try {
-      const itemsToSave = ocrResult.items
-        .filter((_, index) => selectedItems.has(index))
-        .map(item => ({
-          user_id: user.id,
-          name: item.name,
-          category: item.category || ProductCategorizer.categorize(item.name),
-          quantity: item.quantity || 1,
-          unit: '個',
-          purchase_date: new Date().toISOString().split('T')[0],
-          price: item.price || null,
-          currency: item.currency || null,
-          notes: null,
-        }))
+      const fingerprint = ReceiptFingerprint.create(ocrResult)
 
-      const { error } = await supabase
-        .from('items')
-        .insert(itemsToSave)
+      // 同じレシートを取り込み済みの場合は保存せず、ユーザーに確認する
+      const duplicate = await findDuplicateReceipt(fingerprint)
+      if (duplicate) {
+        setDuplicateReceipt(duplicate)
+        return
+      }
 
-      if (error) throw error
+      const savedCount = await persistItems(
+        ocrResult.items.filter((_, index) => selectedItems.has(index)),
+        fingerprint
+      )
 
       // 成功後にリセット
       resetUpload()
       
-      alert(`${itemsToSave.length}個の食材を保存しました！`)
+      alert(`${savedCount}個の食材を保存しました！`)
       
     } catch (error: unknown) {
       setError(error instanceof Error ? error.message : 'エラーが発生しました')
     } finally {
       setLoading(false)
     }
-  }, [ocrResult, user, selectedItems, resetUpload])
+  }, [ocrResult, user, selectedItems, resetUpload, findDuplicateReceipt, persistItems])
+
+  // 重複と判定されたレシートの扱いを決定
+  const resolveDuplicate = useCallback(async (resolution: DuplicateResolution) => {
+    if (!ocrResult || !duplicateReceipt) return
+
+    if (resolution === 'skip') {
+      resetUpload()
+      return
+    }
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const fingerprint = ReceiptFingerprint.create(ocrResult)
+      let items = ocrResult.items.filter((_, index) => selectedItems.has(index))
+
+      if (resolution === 'merge') {
+        // 前回の取り込みにない商品のみ追加（同じ商品を複数買った場合は個数の差分を追加）
+        const remaining = ReceiptFingerprint.subtractItemKeys(
+          items.map(item => ReceiptFingerprint.itemKey(item.name, item.price)),
+          duplicateReceipt.items.map(item => ReceiptFingerprint.itemKey(item.name, item.price))
+        )
+        items = items.filter(item => {
+          const index = remaining.indexOf(ReceiptFingerprint.itemKey(item.name, item.price))
+          if (index === -1) return false
+          remaining.splice(index, 1)
+          return true
+        })
+      }
+
+      const savedCount = await persistItems(items, fingerprint, resolution === 'merge' ? duplicateReceipt : undefined)
+
+      resetUpload()
+
+      alert(savedCount > 0
+        ? `${savedCount}個の食材を保存しました！`
+        : '前回の取り込みにない食材はありませんでした')
+
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'エラーが発生しました')
+    } finally {
+      setLoading(false)
+    }
+  }, [ocrResult, duplicateReceipt, selectedItems, resetUpload, persistItems])
 
   return {
-    file,
-    preview,
+    files,
+    previews,
     loading,
     ocrResult,
     error,
     progress,
     selectedItems,
     showCamera,
+    duplicateReceipt,
     handleFileChange,
+    handleAddFileChange,
     processFile,
+    addFile,
+    removeFile,
+    moveFile,
     processOCR,
     saveSelectedItems,
+    resolveDuplicate,
     toggleItemSelection,
     setShowCamera,
     setError,
@@ -1,6 +1,7 @@
 // lib/jsonConfigParser.ts
 
 import { ParsedItem } from './receiptParser'
+import { QuantityPriceParser, QuantityPriceMatch } from './ocr/quantity-price-parser'
 
 export interface JsonStoreConfig {
   name: string
@@ -45,6 +46,7 @@ export interface JsonPatternExtraction {
   name: string
   price: string
   quantity: string | number
+  unitPrice?: string // 指定した場合は数量×単価＝価格を検算
 }
 
 export interface JsonPatternValidation {
@@ -124,6 +126,23 @@ export class JsonConfigReceiptParser {
                   quantity: 1
                 }
               }
+            },
+            {
+              name: "quantity_price_pattern",
+              description: "商品名 → 数量情報 → 価格の3行パターン",
+              lineCount: 3,
+              confidence: 0.8,
+              pattern: {
+                "line-1": "商品名",
+                line0: "数量単価",
+                line1: "^¥(\\d{1,5})$",
+                extraction: {
+                  name: "line-1",
+                  price: "line1_group1",
+                  quantity: "line0_quantity",
+                  unitPrice: "line0_unitPrice"
+                }
+              }
             }
           ]
         },
@@ -139,19 +158,20 @@ export class JsonConfigReceiptParser {
           multiLinePatterns: [
             {
               name: "five_line_pattern",
-              description: "商品名 → コード → 数量 → 単価 → 合計の5行パターン",
+              description: "商品名 → コード → 数量 → 単価 → 合計の5行パターン（数量×単価＝合計を検算）",
               lineCount: 5,
               confidence: 0.8,
               pattern: {
                 line0: "商品名",
                 line1: "^(\\d{5,7})$",
-                line2: "^(\\d+)[⚫°.]?$",
+                line2: "数量",
                 line3: "^([0-9,]+)$",
                 line4: "^([0-9,]+)\\s*([TER])$",
                 extraction: {
                   name: "line0",
                   price: "line4_group1",
-                  quantity: "line2_group1"
+                  quantity: "line2_quantity",
+                  unitPrice: "line3_group1"
                 },
                 validation: {
                   name_must_contain: "[あ-んア-ンa-zA-Zぁ-ゖ]"
@@ -273,11 +293,14 @@ export class JsonConfigReceiptParser {
           if (item && this.isValidItem(item, storeConfig)) {
             items.push(item)
             
-            // 使用した行をマーク
-            for (let j = i; j < i + pattern.lineCount; j++) {
+            // 使用した行をマーク（line-1 等の前の行を含む）
+            const firstLine = Math.min(i, ...Object.keys(pattern.pattern)
+              .filter(key => key.startsWith('line'))
+              .map(key => this.parseLineKey(key, i)))
+            for (let j = firstLine; j < firstLine + pattern.lineCount; j++) {
               usedLines.add(j)
             }
-            i += pattern.lineCount - 1
+            i = firstLine + pattern.lineCount - 1
             break
           }
         }
@@ -330,9 +353,11 @@ export class JsonConfigReceiptParser {
     if (startIndex + pattern.lineCount > lines.length) return null
     
     const matches: { [key: string]: RegExpMatchArray | null } = {}
+    const quantityPrices: { [key: string]: QuantityPriceMatch } = {}
     let extractedName = ''
     let extractedPrice = 0
     let extractedQuantity = this.config.globalSettings.defaultQuantity
+    let extractedUnitPrice: number | undefined
     
     // 各行のパターンマッチング
     for (const [lineKey, patternValue] of Object.entries(pattern.pattern)) {
@@ -352,6 +377,21 @@ export class JsonConfigReceiptParser {
         continue
       }
       
+      // 数量×単価の行（「数量単価」）・数量のみの行（「数量」）は共通の認識処理を使用
+      if (regexStr === '数量単価') {
+        const quantityPrice = QuantityPriceParser.parse(line)
+        if (!quantityPrice || quantityPrice.name || quantityPrice.unitPrice === undefined) return null
+        quantityPrices[lineKey] = quantityPrice
+        continue
+      }
+      
+      if (regexStr === '数量') {
+        const quantity = QuantityPriceParser.parseQuantity(line, true)
+        if (quantity === null) return null
+        quantityPrices[lineKey] = { quantity, check: 'unchecked', matchedText: line }
+        continue
+      }
+      
       const regex = new RegExp(regexStr)
       const match = line.match(regex)
       matches[lineKey] = match
@@ -376,24 +416,33 @@ export class JsonConfigReceiptParser {
       }
       
       // 価格の抽出
-      if (extraction.price.includes('_group')) {
-        const [lineKey, groupStr] = extraction.price.split('_')
-        const groupIndex = parseInt(groupStr.replace('group', ''))
-        if (matches[lineKey] && matches[lineKey]![groupIndex]) {
-          extractedPrice = parseInt(matches[lineKey]![groupIndex].replace(/[,\.]/g, ''))
-        }
-      }
+      extractedPrice = this.extractNumber(extraction.price, matches, quantityPrices) ?? extractedPrice
       
       // 数量の抽出
-      if (typeof extraction.quantity === 'string' && extraction.quantity.includes('_group')) {
-        const [lineKey, groupStr] = extraction.quantity.split('_')
-        const groupIndex = parseInt(groupStr.replace('group', ''))
-        if (matches[lineKey] && matches[lineKey]![groupIndex]) {
-          extractedQuantity = parseInt(matches[lineKey]![groupIndex])
-        }
+      if (typeof extraction.quantity === 'string') {
+        extractedQuantity = this.extractNumber(extraction.quantity, matches, quantityPrices) ?? extractedQuantity
       } else if (typeof extraction.quantity === 'number') {
         extractedQuantity = extraction.quantity
       }
+      
+      // 単価の抽出
+      if (extraction.unitPrice) {
+        extractedUnitPrice = this.extractNumber(extraction.unitPrice, matches, quantityPrices)
+      }
+    }
+    
+    // 数量×単価＝価格の検算（一致しない場合は行の対応がずれているとみなす）
+    if (extractedUnitPrice !== undefined) {
+      const checked = QuantityPriceParser.reconcile({
+        quantity: extractedQuantity,
+        unitPrice: extractedUnitPrice,
+        lineTotal: extractedPrice || undefined
+      })
+      if (checked.check === 'mismatch') return null
+      
+      extractedQuantity = checked.quantity
+      extractedUnitPrice = checked.unitPrice
+      extractedPrice = checked.lineTotal ?? extractedPrice
     }
     
     // バリデーション
@@ -413,11 +462,37 @@ export class JsonConfigReceiptParser {
       name: extractedName,
       price: extractedPrice,
       quantity: extractedQuantity,
+      unitPrice: extractedUnitPrice,
+      lineTotal: extractedUnitPrice !== undefined ? extractedPrice : undefined,
       category: this.categorizeItem(extractedName),
       confidence: pattern.confidence
     }
   }
   
+  /**
+   * 抽出ルールの数値を取得
+   * line1_group1: 正規表現のグループ / line0_quantity 等: 数量単価・数量の行の認識結果
+   */
+  private extractNumber(
+    reference: string,
+    matches: { [key: string]: RegExpMatchArray | null },
+    quantityPrices: { [key: string]: QuantityPriceMatch }
+  ): number | undefined {
+    const [lineKey, field] = reference.split('_')
+    
+    if (field?.startsWith('group')) {
+      const value = matches[lineKey]?.[parseInt(field.replace('group', ''))]
+      return value ? parseInt(value.replace(/[,\.]/g, '')) : undefined
+    }
+    
+    const quantityPrice = quantityPrices[lineKey]
+    if (quantityPrice && (field === 'quantity' || field === 'unitPrice' || field === 'lineTotal')) {
+      return quantityPrice[field]
+    }
+    
+    return undefined
+  }
+  
   private parseSingleLinePattern(
     pattern: JsonPattern, 
     lines: string[], 
@@ -0,0 +1,135 @@
+import { createHash } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import {
+  OCREngine,
+  OCREngineName,
+  OCREngineOptions,
+  OCREngineResult
+} from './ocr-engine'
+import { RecordReplayOCREngine, hashImageContent } from './record-replay-ocr-engine'
+
+export interface OCRCacheEntry {
+  key: string
+  engine: OCREngineName
+  cachedAt: string
+  mimeType: string
+  result: OCREngineResult // エンジンの生レスポンス（解析結果は保存しない）
+}
+
+const DEFAULT_TTL_DAYS = 30
+
+/**
+ * OCRエンジンの結果キャッシュ
+ * 同じ画像の再アップロード時にクラウドOCRを再度呼び出さない（課金の重複を防ぐ）
+ * 保存するのはエンジンの生レスポンスのみで、解析は毎回行うためパーサーの変更はすぐ反映される
+ */
+export class CachedOCREngine implements OCREngine {
+  readonly name: OCREngineName
+
+  constructor(
+    private inner: OCREngine,
+    private cacheDir: string = CachedOCREngine.getCacheDir(),
+    private ttlMs: number = CachedOCREngine.getTTLDays() * 24 * 60 * 60 * 1000
+  ) {
+    this.name = inner.name
+  }
+
+  /**
+   * キャッシュを使用するか（OCR_CACHE=off で無効。記録・再生モードでは使用しない）
+   */
+  static isEnabled(): boolean {
+    return process.env.OCR_CACHE !== 'off' && RecordReplayOCREngine.getMode() === 'off'
+  }
+
+  /**
+   * キャッシュ保存先ディレクトリ
+   */
+  static getCacheDir(): string {
+    return process.env.OCR_CACHE_DIR || path.join(process.cwd(), '.cache', 'ocr')
+  }
+
+  static getTTLDays(): number {
+    const days = Number(process.env.OCR_CACHE_TTL_DAYS)
+    return Number.isFinite(days) && days > 0 ? days : DEFAULT_TTL_DAYS
+  }
+
+  /**
+   * 正規化した画像のハッシュ（キャッシュのキー）
+   * デコード後の画素から計算するため、ファイル形式やメタデータの違いは無視される
+   * 知覚ハッシュは同じ店の別のレシートを同一視するおそれがあるため使用しない
+   */
+  static async hashNormalizedImage(image: Buffer): Promise<string> {
+    try {
+      const sharp = (await import('sharp')).default
+      const { data, info } = await sharp(image).rotate().removeAlpha().raw().toBuffer({ resolveWithObject: true })
+
+      return createHash('sha256')
+        .update(`${info.width}x${info.height}x${info.channels}`)
+        .update(data)
+        .digest('hex')
+    } catch {
+      // デコードできない形式はファイル内容のハッシュを使用
+      return hashImageContent(image)
+    }
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable()
+  }
+
+  async recognize(image: Buffer, mimeType: string, options: OCREngineOptions = {}): Promise<OCREngineResult> {
+    const imageHash = await CachedOCREngine.hashNormalizedImage(image)
+    // 認識言語が異なる場合は別のエントリとする
+    const key = options.languages?.length
+      ? createHash('sha256').update(`${imageHash}:${options.languages.join(',')}`).digest('hex')
+      : imageHash
+    const entryPath = path.join(this.cacheDir, `${key}.${this.name}.json`)
+
+    const cached = await this.read(entryPath)
+    if (cached) {
+      if (options.debugMode) {
+        console.log(`💾 OCRキャッシュを使用: ${path.basename(entryPath)}`)
+      }
+      return { ...cached.result, cache: { hits: 1, misses: 0 } }
+    }
+
+    const result = await this.inner.recognize(image, mimeType, options)
+
+    // テキストを検出できなかった結果は保存しない（再アップロード時にエンジンを再度呼び出す）
+    if (!result.text.trim() || result.confidence === 0) {
+      return { ...result, cache: { hits: 0, misses: 1 } }
+    }
+
+    const entry: OCRCacheEntry = {
+      key,
+      engine: this.name,
+      cachedAt: new Date().toISOString(),
+      mimeType,
+      result
+    }
+
+    try {
+      await mkdir(this.cacheDir, { recursive: true })
+      await writeFile(entryPath, JSON.stringify(entry), 'utf-8')
+    } catch (error) {
+      // キャッシュの保存に失敗してもOCR結果は返す
+      console.warn('⚠️ OCRキャッシュの保存に失敗しました:', error instanceof Error ? error.message : error)
+    }
+
+    return { ...result, cache: { hits: 0, misses: 1 } }
+  }
+
+  /**
+   * 有効期限内のキャッシュを読み込む
+   */
+  private async read(entryPath: string): Promise<OCRCacheEntry | null> {
+    try {
+      const entry = JSON.parse(await readFile(entryPath, 'utf-8')) as OCRCacheEntry
+      const age = Date.now() - new Date(entry.cachedAt).getTime()
+      return age <= this.ttlMs ? entry : null
+    } catch {
+      return null
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { ExtractedItem } from '@/types/ocr-patterns'
+import { ScriptDetector } from './script-detector'
 
 /**
  * OCRライブラリ共通ユーティリティ
@@ -78,11 +79,18 @@ export class OCRCommonUtils {
    * 統一されたテキスト前処理
    */
   static preprocessOCRText(text: string): string[] {
+    return this.splitLines(text).map(line => this.normalizeTextLine(line))
+  }
+
+  /**
+   * テキストを行に分割（前後の空白を除き、空行は除外）
+   * 商品の lineNumbers はこの行の並びでの番号（パーサー・合計の照合・ハイブリッド統合で共通）
+   */
+  static splitLines(text: string): string[] {
     return text
       .split('\n')
       .map(line => line.trim())
       .filter(line => line.length > 0)
-      .map(line => this.normalizeTextLine(line))
   }
 
   /**
@@ -267,11 +275,8 @@ export class OCRCommonUtils {
     if (/^\d+$/.test(text)) return false
     if (/^[¥\d\s\-*]+$/.test(text)) return false
     
-    // 日本語を含む、または英字を含む
-    const hasJapanese = /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/.test(text)
-    const hasAlpha = /[a-zA-Z]/.test(text)
-    
-    return hasJapanese || hasAlpha
+    // かな・漢字・ハングル、または英字を含む
+    return ScriptDetector.hasNameCharacters(text)
   }
 
   /**
@@ -284,8 +289,8 @@ export class OCRCommonUtils {
     if (name.length >= 2 && name.length <= 20) score += 3
     if (name.length >= 3 && name.length <= 15) score += 2
     
-    // 日本語が含まれる
-    if (/[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/.test(name)) score += 5
+    // 日本語・韓国語・中国語が含まれる
+    if (ScriptDetector.hasCJK(name)) score += 5
     
     // 英数字のみでない
     if (!/^[A-Za-z0-9\s]+$/.test(name)) score += 2
@@ -294,7 +299,7 @@ export class OCRCommonUtils {
     if (!/^\d+$/.test(name)) score += 3
     
     // 記号が少ない
-    const symbolCount = (name.match(/[^\w\s\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/g) || []).length
+    const symbolCount = ScriptDetector.countSymbols(name)
     if (symbolCount === 0) score += 2
     else if (symbolCount <= 1) score += 1
     
@@ -333,7 +338,10 @@ export class OCRCommonUtils {
       '対象額', '課税', '非課税', 'ポイント', 'カード番号',
       '営業時間', '住所', 'TEL', '電話', 'ありがとう', 'またお越し',
       'クレジット', 'VISA', 'Master', 'JCB', 'AMEX',
-      '領収書', 'レシート', '明細', '証明', '控え'
+      '領収書', 'レシート', '明細', '証明', '控え',
+      // 韓国語・中国語のレシート
+      '합계', '소계', '부가세', '면세', '현금', '거스름돈', '영수증', '감사합니다',
+      '合计', '小计', '总计', '税额', '找零', '现金', '收银', '发票', '谢谢'
     ]
     
     // キーワードマッチ
@@ -420,6 +428,27 @@ export class OCRCommonUtils {
     })[0]
   }
 
+  /**
+   * レーベンシュタイン距離を計算（商品名・行の類似度の判定に共通で使用）
+   */
+  static levenshteinDistance(a: string, b: string): number {
+    let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index)
+
+    for (let i = 1; i <= a.length; i++) {
+      const currentRow = [i]
+      for (let j = 1; j <= b.length; j++) {
+        currentRow[j] = Math.min(
+          currentRow[j - 1] + 1,
+          previousRow[j] + 1,
+          previousRow[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        )
+      }
+      previousRow = currentRow
+    }
+
+    return previousRow[b.length]
+  }
+
   // ========================================
   // 7. フォールバック処理
   // ========================================
@@ -309,7 +309,7 @@ export class OCRDebugAnalyzer {
   /**
    * 品質スコアの計算
    */
-  private static calculateQualityScore(items: ExtractedItem[], overallConfidence: number): number {
+  static calculateQualityScore(items: ExtractedItem[], overallConfidence: number): number {
     if (items.length === 0) return 0
 
     const priceValidityScore = items.filter(item => 
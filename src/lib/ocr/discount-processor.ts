@@ -0,0 +1,161 @@
+import { ExtractedItem } from '@/types/ocr-patterns'
+import { OCRCommonUtils } from './common-utils'
+
+export interface DiscountInfo {
+  label: string
+  amount?: number // 金額値引
+  percent?: number // 割合値引
+  consumedNextLine: boolean // 金額が次の行にある場合
+}
+
+// 値引・割引・クーポン行のキーワード
+const DISCOUNT_KEYWORDS = /(値引|値下|割引|クーポン|ｸｰﾎﾟﾝ|見切|半額|MULTI[-\s]?BUY\s*SAVINGS|MULTI[-\s]?BUY|INSTANT\s*SAVINGS|MEMBER\s*SAVINGS|SAVINGS|DISCOUNT|COUPON|TPD\/)/i
+
+// 値引行ではなく集計行として扱うキーワード
+const DISCOUNT_SUMMARY_KEYWORDS = /(合計|小計|対象|総額|TOTAL)/i
+
+// 負の金額（-50 / △50 / ▲50 / 5.00-）
+const NEGATIVE_AMOUNT = /(?:[-−△▲]\s*[¥￥$]?\s*(\d[\d,]*(?:\.\d{1,2})?))|(?:[¥￥$]?\s*(\d[\d,]*(?:\.\d{1,2})?)\s*[-−]\s*[A-Z]?$)/
+
+/**
+ * 値引・割引・クーポン行の処理
+ * 値引行を検出し、直前の商品に適用する
+ */
+export class DiscountProcessor {
+
+  /**
+   * 値引行かどうかを判定
+   */
+  static isDiscountLine(line: string): boolean {
+    if (this.parseDiscountLine(line) !== null) return true
+
+    // 金額が次の行に分かれた見出し行（「値引」のみ等）
+    return DISCOUNT_KEYWORDS.test(line) && !DISCOUNT_SUMMARY_KEYWORDS.test(line)
+  }
+
+  /**
+   * 値引行を解析（値引行でなければ null）
+   */
+  static parseDiscountLine(line: string, nextLine?: string): DiscountInfo | null {
+    const text = line.trim()
+    if (!text) return null
+
+    const hasKeyword = DISCOUNT_KEYWORDS.test(text)
+
+    // 金額のみの負数行（-50 / △50）
+    if (!hasKeyword) {
+      const standalone = text.match(/^[-−△▲]\s*[¥￥$]?\s*(\d[\d,]*(?:\.\d{1,2})?)$/)
+      return standalone
+        ? { label: '値引', amount: OCRCommonUtils.parsePrice(standalone[1]), consumedNextLine: false }
+        : null
+    }
+
+    if (DISCOUNT_SUMMARY_KEYWORDS.test(text)) return null
+
+    const label = text.match(DISCOUNT_KEYWORDS)?.[1] || '値引'
+
+    if (/半額/.test(text)) {
+      return { label, percent: 50, consumedNextLine: false }
+    }
+
+    // 金額と割合が両方あれば金額を優先
+    const amount = this.extractNegativeAmount(text)
+    if (amount !== null) {
+      return { label, amount, consumedNextLine: false }
+    }
+
+    const percentMatch = text.match(/(\d{1,2})\s*[%％]\s*(OFF|引)?/i)
+    if (percentMatch) {
+      return { label, percent: parseInt(percentMatch[1]), consumedNextLine: false }
+    }
+
+    // キーワード行の次の行に金額がある場合
+    const nextText = nextLine?.trim() || ''
+    const nextAmount = /^[-−△▲]?\s*[¥￥$]?\s*\d[\d,]*(\.\d{1,2})?\s*[-−]?$/.test(nextText)
+      ? OCRCommonUtils.parsePrice(nextText)
+      : 0
+    if (nextAmount > 0) {
+      return { label, amount: nextAmount, consumedNextLine: true }
+    }
+
+    return null
+  }
+
+  /**
+   * 商品に値引を適用
+   * price は値引後の支払額、originalPrice は値引前の価格になる
+   */
+  static applyDiscount(item: ExtractedItem, discount: DiscountInfo, lineNumbers: number[] = [], rawText?: string): ExtractedItem {
+    const originalPrice = item.originalPrice ?? item.price
+    if (!originalPrice) return item
+
+    const isDecimal = !Number.isInteger(originalPrice) || item.currency === 'USD' || item.currency === 'CAD'
+    const amount = discount.amount ?? (isDecimal
+      ? Math.round(originalPrice * (discount.percent || 0)) / 100
+      : Math.round(originalPrice * (discount.percent || 0) / 100))
+
+    const totalDiscount = Math.round(((item.discount || 0) + amount) * 100) / 100
+    const finalPrice = Math.max(0, Math.round((originalPrice - totalDiscount) * 100) / 100)
+
+    item.originalPrice = originalPrice
+    item.discount = totalDiscount
+    item.finalPrice = finalPrice
+    item.price = finalPrice
+    item.lineNumbers = [...(item.lineNumbers || []), ...lineNumbers]
+    if (rawText) {
+      item.rawText = `${item.rawText} | ${rawText}`
+    }
+    item.metadata = {
+      ...item.metadata,
+      discountLabel: discount.label,
+      discountPercent: discount.percent
+    }
+
+    console.log(`  🏷️ 値引適用: ${item.name} ${originalPrice} → ${finalPrice} (${discount.label})`)
+
+    return item
+  }
+
+  /**
+   * 行番号を持つアイテムに値引行を適用
+   * 値引行より前で最も近い行の商品に適用し、値引行から作られた誤検出アイテムは除去する
+   */
+  static applyDiscountLines(lines: string[], items: ExtractedItem[]): ExtractedItem[] {
+    const discountLines = new Set<number>()
+    const result = items.filter(item => !this.isDiscountLine(item.name))
+
+    for (let index = 0; index < lines.length; index++) {
+      const discount = this.parseDiscountLine(lines[index], lines[index + 1])
+      if (!discount) continue
+
+      const consumed = discount.consumedNextLine ? [index, index + 1] : [index]
+      consumed.forEach(lineNumber => discountLines.add(lineNumber))
+
+      const target = result
+        .filter(item => item.lineNumbers?.length && Math.max(...item.lineNumbers) < index)
+        .sort((a, b) => Math.max(...b.lineNumbers) - Math.max(...a.lineNumbers))[0]
+
+      if (target && !target.lineNumbers.includes(index)) {
+        this.applyDiscount(target, discount, consumed, consumed.map(lineNumber => lines[lineNumber]).join(' '))
+      }
+
+      if (discount.consumedNextLine) index++
+    }
+
+    // 値引行の金額だけを拾った誤検出アイテムを除去
+    return result.filter(item =>
+      !(item.lineNumbers?.length && item.lineNumbers.every(lineNumber => discountLines.has(lineNumber)))
+    )
+  }
+
+  /**
+   * 負の金額を抽出
+   */
+  private static extractNegativeAmount(text: string): number | null {
+    const match = text.match(NEGATIVE_AMOUNT)
+    if (!match) return null
+
+    const amount = OCRCommonUtils.parsePrice(match[1] || match[2])
+    return amount > 0 ? amount : null
+  }
+}
@@ -0,0 +1,138 @@
+import {
+  OCRBoundingBox,
+  OCREngine,
+  OCREngineOptions,
+  OCREngineResult,
+  OCRLine,
+  OCRWord,
+  boundingBoxFromVertices,
+  getGoogleCredentials,
+  hasGoogleCredentials
+} from './ocr-engine'
+
+export interface DocumentAIEngineOptions {
+  processorId?: string
+  location?: string
+}
+
+interface DocumentAILayout {
+  confidence?: number | null
+  textAnchor?: {
+    textSegments?: Array<{ startIndex?: number | string | null; endIndex?: number | string | null }> | null
+  } | null
+  boundingPoly?: {
+    vertices?: Array<{ x?: number | null; y?: number | null }> | null
+    normalizedVertices?: Array<{ x?: number | null; y?: number | null }> | null
+  } | null
+}
+
+/**
+ * Google Document AIによるOCRエンジン
+ * 生のドキュメント（エンティティ含む）は raw に格納される
+ */
+export class DocumentAIOCREngine implements OCREngine {
+  readonly name = 'document-ai' as const
+  private processorId: string
+  private location: string
+
+  constructor(options: DocumentAIEngineOptions = {}) {
+    this.processorId = options.processorId || process.env.DOCUMENT_AI_PROCESSOR_ID || ''
+    this.location = options.location || process.env.DOCUMENT_AI_LOCATION || 'us'
+  }
+
+  isAvailable(): boolean {
+    return hasGoogleCredentials() && !!this.processorId
+  }
+
+  async recognize(image: Buffer, mimeType: string, options: OCREngineOptions = {}): Promise<OCREngineResult> {
+    const startTime = Date.now()
+    const googleCredentials = getGoogleCredentials()
+
+    if (!googleCredentials.projectId || !this.processorId) {
+      throw new Error('Google Cloud Project IDとDocument AI Processor IDが必要です')
+    }
+
+    const { DocumentProcessorServiceClient } = await import('@google-cloud/documentai')
+    const client = new DocumentProcessorServiceClient(googleCredentials)
+    const name = client.processorPath(googleCredentials.projectId, this.location, this.processorId)
+
+    const [result] = await client.processDocument({
+      name,
+      rawDocument: {
+        content: image.toString('base64'),
+        mimeType,
+      },
+    })
+
+    const document = result.document
+    if (!document) {
+      throw new Error('Document AI処理が失敗しました: ドキュメントが返されませんでした')
+    }
+
+    const fullText = document.text || ''
+    const page = document.pages?.[0]
+    const width = page?.dimension?.width || 0
+    const height = page?.dimension?.height || 0
+
+    const toWord = (layout: DocumentAILayout | null | undefined): OCRWord => ({
+      text: this.extractText(layout, fullText).trim(),
+      confidence: layout?.confidence ?? 0.9,
+      bbox: this.toBoundingBox(layout, width, height)
+    })
+
+    const words: OCRWord[] = (page?.tokens || []).map(token => toWord(token.layout as DocumentAILayout))
+    const lines: OCRLine[] = (page?.lines || []).map(line => {
+      const lineWord = toWord(line.layout as DocumentAILayout)
+      return {
+        ...lineWord,
+        words: words.filter(word =>
+          word.bbox.y0 >= lineWord.bbox.y0 - 1 &&
+          word.bbox.y1 <= lineWord.bbox.y1 + 1 &&
+          word.bbox.x0 >= lineWord.bbox.x0 - 1 &&
+          word.bbox.x1 <= lineWord.bbox.x1 + 1
+        )
+      }
+    })
+
+    if (options.debugMode) {
+      console.log(`🤖 Document AI: ${lines.length}行 / ${words.length}語を検出`)
+    }
+
+    return {
+      engine: this.name,
+      text: fullText,
+      lines,
+      words,
+      confidence: lines.length > 0
+        ? lines.reduce((sum, line) => sum + line.confidence, 0) / lines.length
+        : 0,
+      processingTime: Date.now() - startTime,
+      imageSize: width && height ? { width, height } : undefined,
+      raw: document
+    }
+  }
+
+  /**
+   * TextAnchorからテキストを抽出
+   */
+  private extractText(layout: DocumentAILayout | null | undefined, fullText: string): string {
+    const segments = layout?.textAnchor?.textSegments || []
+    return segments
+      .map(segment => fullText.slice(Number(segment.startIndex || 0), Number(segment.endIndex || fullText.length)))
+      .join('')
+  }
+
+  /**
+   * 正規化座標をピクセル座標のバウンディングボックスに変換
+   */
+  private toBoundingBox(layout: DocumentAILayout | null | undefined, width: number, height: number): OCRBoundingBox {
+    const vertices = layout?.boundingPoly?.vertices?.length
+      ? layout.boundingPoly.vertices
+      : (layout?.boundingPoly?.normalizedVertices || []).map(vertex => ({
+          x: (vertex.x || 0) * width,
+          y: (vertex.y || 0) * height
+        }))
+
+    return boundingBoxFromVertices(vertices)
+  }
+}
@@ -1,11 +1,19 @@
+import type { protos } from '@google-cloud/documentai'
 import { ExtractedItem } from '@/types/ocr-patterns'
 import { ProductCategorizer } from './product-categorizer'
+import { TextNormalizer } from './text-normalizer'
+import { ProductAbbreviationDictionary } from './product-abbreviation-dictionary'
+import { DocumentAIOCREngine } from './document-ai-ocr-engine'
+import { OCRCacheUsage, OCREngineFactory, OCREngineName } from './ocr-engine'
+import { RecordReplayOCREngine } from './record-replay-ocr-engine'
 
 export interface DocumentAIOptions {
   processorId?: string
   location?: string
   enableFallback?: boolean
   debugMode?: boolean
+  // フォールバック時に使用するOCRエンジン
+  ocrEngine?: OCREngineName
 }
 
 export interface DocumentAIResult {
@@ -21,6 +29,7 @@ export interface DocumentAIResult {
     documentType?: string
     totalAmount?: number
     currency?: string
+    ocrCache?: OCRCacheUsage
   }
 }
 
@@ -38,6 +47,11 @@ export class DocumentAIService {
     this.location = options.location || 'us' // Document AI利用可能リージョン
     this.processorId = options.processorId || process.env.DOCUMENT_AI_PROCESSOR_ID || ''
 
+    // 再生モードでは認証情報なしでフィクスチャを使用できる
+    if (RecordReplayOCREngine.getMode() === 'replay') {
+      return
+    }
+
     if (!this.projectId || !this.processorId) {
       throw new Error('Google Cloud Project IDとDocument AI Processor IDが必要です')
     }
@@ -61,44 +75,22 @@ export class DocumentAIService {
           size: imageFile.size,
           type: imageFile.type
         })
-      }
-
-      // Document AI client初期化
-      const { DocumentProcessorServiceClient } = await import('@google-cloud/documentai')
-      
-      const client = new DocumentProcessorServiceClient({
-        projectId: this.projectId,
-        credentials: {
-          client_email: process.env.GOOGLE_CLOUD_CLIENT_EMAIL,
-          private_key: process.env.GOOGLE_CLOUD_PRIVATE_KEY?.replace(/\\n/g, '\n'),
-        },
-      })
-
-      // ファイルをBase64に変換
-      const imageBytes = await this.fileToBase64(imageFile)
-      
-      // Document AI Processor名を構築
-      const name = client.processorPath(this.projectId, this.location, this.processorId)
-
-      if (debugMode) {
         console.log('🔧 Document AI設定:', {
           projectId: this.projectId,
           location: this.location,
-          processorId: this.processorId,
-          processorPath: name
+          processorId: this.processorId
         })
       }
 
-      // Document AI API呼び出し
-      const [result] = await client.processDocument({
-        name,
-        rawDocument: {
-          content: imageBytes,
-          mimeType: imageFile.type,
-        },
-      })
+      // Document AIエンジンでOCR実行
+      const engine = await OCREngineFactory.wrap(new DocumentAIOCREngine({
+        processorId: this.processorId,
+        location: this.location
+      }))
+      const imageBuffer = Buffer.from(await imageFile.arrayBuffer())
+      const engineResult = await engine.recognize(imageBuffer, imageFile.type, { debugMode })
 
-      const document = result.document
+      const document = engineResult.raw as protos.google.cloud.documentai.v1.IDocument | undefined
       if (!document) {
         throw new Error('Document AI処理が失敗しました: ドキュメントが返されませんでした')
       }
@@ -111,8 +103,12 @@ export class DocumentAIService {
         })
       }
 
-      // レシートエンティティから商品情報を抽出
-      const extractedItems = this.extractItemsFromDocument(document, debugMode)
+      // レシートエンティティから商品情報を抽出し、POSの略称を読みやすい商品名に展開
+      const extractedItems = ProductAbbreviationDictionary.applyToItems(
+        this.extractItemsFromDocument(document, debugMode),
+        this.detectStoreType(document),
+        debugMode
+      )
       
       // メタデータ作成
       const metadata = {
@@ -123,7 +119,8 @@ export class DocumentAIService {
         fallbackUsed: false,
         documentType: this.detectDocumentType(document),
         totalAmount: this.extractTotalAmount(document),
-        currency: this.extractCurrency(document) || 'JPY'
+        currency: this.extractCurrency(document) || 'JPY',
+        ocrCache: engineResult.cache
       }
 
       if (debugMode) {
@@ -194,9 +191,11 @@ export class DocumentAIService {
         if (entity.type === 'line_item') {
           const item = this.parseLineItem(entity, document.text, debugMode)
           if (item) {
+            // 元テキストの行番号（ハイブリッド戦略で他エンジンの結果と行を対応付けるため）
+            const lineNumbers = this.lineNumbersFromTextAnchor(entity.textAnchor, document.text || '')
             items.push({
               ...item,
-              lineNumbers: [index],
+              lineNumbers: lineNumbers.length > 0 ? lineNumbers : [index],
               sourcePattern: 'document-ai-line-item'
             })
           }
@@ -230,6 +229,7 @@ export class DocumentAIService {
       let quantity = 1
       let confidence = entity.confidence || 0.5
       let priceText = '' // 価格テキストを保存
+      const fieldConfidence: Record<string, number | undefined> = {} // 項目ごとの信頼度
 
       // プロパティから情報を抽出
       properties.forEach((prop: any) => {
@@ -237,14 +237,17 @@ export class DocumentAIService {
         
         switch (prop.type) {
           case 'line_item/description':
-            name = text.trim()
+            name = TextNormalizer.normalize(text).trim()
+            fieldConfidence.nameConfidence = prop.confidence
             break
           case 'line_item/amount':
             priceText = text // 元の価格テキストを保存
             price = this.parsePrice(text)
+            fieldConfidence.priceConfidence = prop.confidence
             break
           case 'line_item/quantity':
             quantity = this.parseQuantity(text)
+            fieldConfidence.quantityConfidence = prop.confidence
             break
         }
       })
@@ -267,7 +270,8 @@ export class DocumentAIService {
         confidence,
         rawText: `${name} | ${price} | ${quantity}`,
         category: this.categorizeItem(name),
-        currency
+        currency,
+        metadata: fieldConfidence
       }
 
     } catch (error) {
@@ -294,6 +298,34 @@ export class DocumentAIService {
     return extractedText
   }
 
+  /**
+   * テキストアンカーが指す範囲の行番号（パーサーと同じく空行を除いた並びで数える）
+   */
+  private lineNumbersFromTextAnchor(
+    textAnchor: { textSegments?: Array<{ startIndex?: string | number; endIndex?: string | number }> } | undefined,
+    fullText: string
+  ): number[] {
+    if (!textAnchor?.textSegments || !fullText) return []
+
+    // 元の行番号 → 空行を除いた行番号（空行は -1）
+    let nonEmptyCount = 0
+    const lineIndex = fullText.split('\n').map(line => line.trim() ? nonEmptyCount++ : -1)
+
+    const lines = new Set<number>()
+    textAnchor.textSegments.forEach(segment => {
+      // APIは startIndex を文字列で返す場合がある
+      const startIndex = Number(segment.startIndex || 0)
+      const endIndex = Number(segment.endIndex || fullText.length)
+      const firstLine = fullText.slice(0, startIndex).split('\n').length - 1
+      const lastLine = fullText.slice(0, Math.max(startIndex, endIndex - 1)).split('\n').length - 1
+      for (let line = firstLine; line <= lastLine; line++) {
+        if (lineIndex[line] >= 0) lines.add(lineIndex[line])
+      }
+    })
+
+    return Array.from(lines).sort((a, b) => a - b)
+  }
+
   /**
    * 価格文字列をパース（日本円・ドル対応）
    */
@@ -430,15 +462,6 @@ export class DocumentAIService {
     return 'JPY' // デフォルトは日本円
   }
 
-  /**
-   * ファイルをBase64に変換
-   */
-  private async fileToBase64(file: File): Promise<string> {
-    const arrayBuffer = await file.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
-    return buffer.toString('base64')
-  }
-
   /**
    * Vision APIフォールバック処理
    */
@@ -453,7 +476,8 @@ export class DocumentAIService {
       
       const result = await visionService.processImage(imageFile, {
         debugMode: options.debugMode,
-        enableFallback: false // 無限ループ防止
+        enableFallback: false, // 無限ループ防止
+        ocrEngine: options.ocrEngine
       })
 
       return {
@@ -0,0 +1,326 @@
+import { ExtractedItem } from '@/types/ocr-patterns'
+import { OCRCommonUtils } from './common-utils'
+import { QuantityPriceParser } from './quantity-price-parser'
+import { CJK_CHARACTER_CLASS } from './script-detector'
+
+export interface ParsedEmail {
+  subject?: string
+  from?: string
+  date?: Date
+  dateHeader?: string // Date ヘッダーの原文（送信者のタイムゾーン）
+  html?: string
+  text?: string
+}
+
+interface MimeEntity {
+  headers: Record<string, string>
+  body: string // latin1（1文字 = 1バイト）
+}
+
+// 商品行ではなく集計・送料等の行
+const SUMMARY_KEYWORDS = /(合計|小計|総額|送料|配送料|手数料|消費税|税額|ポイント|割引|値引|クーポン|お支払|支払|請求|TOTAL|SUBTOTAL|SHIPPING|DELIVERY|\bTAX\b|\bFEE\b|\bTIP\b|DISCOUNT|SAVINGS|PAYMENT|BALANCE)/i
+
+// 金額のみのセル（¥1,280 / 1,280円 / $12.99 / ¥1,280（税込））
+const AMOUNT_CELL = /^(?:[¥￥$]\s*)?(\d[\d,]*(?:\.\d{1,2})?)\s*(?:円)?\s*(?:[(（]税込[)）])?$/
+
+// 数量のみのセル（2 / ×2 / 2点 / Qty: 2）
+const QUANTITY_CELL = /^(?:(?:数量|QTY)\s*[:：]?\s*)?[x×]?\s*(\d{1,3})\s*(?:点|個|コ|本|袋|PCS?)?$/i
+
+/**
+ * 注文確認メール（.eml）・HTMLレシートの解析
+ * HTMLの表から商品行を抽出し、OCR結果と同じ ExtractedItem[] に変換する
+ */
+export class EmailReceiptParser {
+
+  /**
+   * メールファイルかどうかを判定
+   */
+  static isEmail(data: Buffer, mimeType?: string, fileName?: string): boolean {
+    if (mimeType === 'message/rfc822' || /\.eml$/i.test(fileName || '')) return true
+
+    const head = data.subarray(0, 2048).toString('latin1')
+    return /^(Received|Return-Path|From|MIME-Version|Delivered-To):/im.test(head) && /^Subject:/im.test(head)
+  }
+
+  /**
+   * HTMLファイルかどうかを判定
+   */
+  static isHtml(data: Buffer, mimeType?: string, fileName?: string): boolean {
+    if (mimeType === 'text/html' || /\.html?$/i.test(fileName || '')) return true
+
+    return /^\s*(<!doctype html|<html)/i.test(data.subarray(0, 512).toString('utf-8'))
+  }
+
+  /**
+   * .eml を解析し、件名・差出人・日付と本文（HTML優先）を取得
+   */
+  static parseEml(data: Buffer): ParsedEmail {
+    const root = this.parseEntity(data.toString('latin1'))
+    const parts = this.flattenParts(root)
+
+    const htmlPart = parts.find(part => (part.headers['content-type'] || '').toLowerCase().startsWith('text/html'))
+    const textPart = parts.find(part => {
+      const contentType = (part.headers['content-type'] || 'text/plain').toLowerCase()
+      return contentType.startsWith('text/plain')
+    })
+
+    const date = root.headers['date'] ? new Date(root.headers['date']) : undefined
+
+    return {
+      subject: root.headers['subject'] && this.decodeHeader(root.headers['subject']),
+      from: root.headers['from'] && this.decodeHeader(root.headers['from']),
+      date: date && !isNaN(date.getTime()) ? date : undefined,
+      dateHeader: root.headers['date'],
+      html: htmlPart && this.decodeBody(htmlPart),
+      text: textPart && this.decodeBody(textPart)
+    }
+  }
+
+  /**
+   * メールをレシートテキストに変換
+   * 差出人（店舗名）と送信日時を先頭に付け、ヘッダー抽出で購入日として扱えるようにする
+   */
+  static emailToText(email: ParsedEmail): string {
+    const body = email.html ? this.htmlToText(email.html) : (email.text || '')
+    const lines: string[] = []
+
+    const senderName = email.from?.replace(/<[^>]*>/g, '').replace(/"/g, '').trim()
+    if (senderName) lines.push(senderName)
+
+    const purchasedAt = this.formatEmailDate(email)
+    if (purchasedAt) lines.push(purchasedAt)
+
+    if (email.subject) lines.push(email.subject)
+
+    return [...lines, body].join('\n').trim()
+  }
+
+  /**
+   * HTMLをテキスト行に変換（表の行は1行、セルは空白2つで区切る）
+   */
+  static htmlToText(html: string): string {
+    const text = html
+      .replace(/<(script|style|head|title)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<\/t[dh]>/gi, '  ')
+      .replace(/<(br|\/tr|\/p|\/div|\/li|\/h[1-6]|\/table)\b[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+
+    return this.decodeEntities(text)
+      .split('\n')
+      .map(line => line.replace(/[ \t ]+/g, ' ').trim())
+      .filter(line => line.length > 0)
+      .join('\n')
+  }
+
+  /**
+   * HTMLの表から商品行を抽出
+   * 商品名のセルと金額のセル（最後の金額を小計とみなす）がある行を商品とする
+   */
+  static extractItems(html: string, debugMode: boolean = false): ExtractedItem[] {
+    const items: ExtractedItem[] = []
+    // 入れ子の表（メールのレイアウト用）は最も内側の行のみを対象にする
+    const rowPattern = /<tr\b[^>]*>((?:(?!<tr\b)[\s\S])*?)<\/tr>/gi
+    let rowMatch: RegExpExecArray | null
+    let rowIndex = 0
+
+    while ((rowMatch = rowPattern.exec(html)) !== null) {
+      const cells = [...rowMatch[1].matchAll(/<t[dh]\b[^>]*>([\s\S]*?)<\/t[dh]>/gi)]
+        .map(cell => this.htmlToText(cell[1]).replace(/\n/g, ' ').trim())
+        .filter(cell => cell.length > 0)
+
+      const item = this.parseRow(cells, rowIndex)
+      if (item) items.push(item)
+      rowIndex++
+    }
+
+    if (debugMode) {
+      console.log(`📧 HTMLの表から${items.length}件の商品を抽出`)
+    }
+
+    return items
+  }
+
+  /**
+   * 表の1行を商品に変換
+   */
+  private static parseRow(cells: string[], rowIndex: number): ExtractedItem | null {
+    if (cells.length < 2) return null
+
+    const rawText = cells.join(' ')
+    if (SUMMARY_KEYWORDS.test(rawText)) return null
+
+    const amountIndexes = cells
+      .map((cell, index) => AMOUNT_CELL.test(cell) && /[¥￥$円.,]|\d{3,}/.test(cell) ? index : -1)
+      .filter(index => index >= 0)
+    if (amountIndexes.length === 0) return null
+
+    const name = cells.find((cell, index) =>
+      !amountIndexes.includes(index) &&
+      !QUANTITY_CELL.test(cell) &&
+      new RegExp(`[A-Za-z${CJK_CHARACTER_CLASS}]{2,}`).test(cell)
+    )
+    if (!name) return null
+
+    const priceCell = cells[amountIndexes[amountIndexes.length - 1]]
+    const price = OCRCommonUtils.parsePrice(priceCell.match(AMOUNT_CELL)?.[1] || '')
+    if (!price) return null
+
+    const quantityCell = cells.find((cell, index) => !amountIndexes.includes(index) && QUANTITY_CELL.test(cell))
+    const nameQuantity = name.match(/(?:数量|QTY)\s*[:：]?\s*(\d{1,3})/i)
+    const quantity = parseInt(quantityCell?.match(QUANTITY_CELL)?.[1] || nameQuantity?.[1] || '1')
+    const currency = /\$/.test(rawText) ? 'USD' : 'JPY'
+
+    const item: ExtractedItem = {
+      name: name.replace(/(?:数量|QTY)\s*[:：]?\s*\d{1,3}/i, '').trim(),
+      price,
+      quantity,
+      currency,
+      confidence: 0.9,
+      sourcePattern: 'html-table',
+      lineNumbers: [rowIndex],
+      rawText
+    }
+
+    // 単価の列があれば数量×単価＝金額を検算
+    const unitPrice = amountIndexes.length > 1
+      ? OCRCommonUtils.parsePrice(cells[amountIndexes[0]].match(AMOUNT_CELL)?.[1] || '')
+      : 0
+    return unitPrice
+      ? QuantityPriceParser.apply(item, QuantityPriceParser.reconcile({ quantity, unitPrice, lineTotal: price, currency }))
+      : item
+  }
+
+  /**
+   * 送信日時を YYYY/MM/DD HH:MM に整形
+   * サーバーのタイムゾーンではなく、Date ヘッダーに書かれた送信者の現地時刻を使う
+   */
+  private static formatEmailDate(email: ParsedEmail): string | null {
+    const months = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+    const pad = (value: number) => String(value).padStart(2, '0')
+
+    const match = email.dateHeader?.match(/(\d{1,2})\s+([A-Za-z]{3})\s+(\d{4})\s+(\d{1,2}):(\d{2})/)
+    const month = match ? months.indexOf(match[2].toLowerCase()) : -1
+    if (match && month >= 0) {
+      return `${match[3]}/${pad(month + 1)}/${pad(parseInt(match[1]))} ${pad(parseInt(match[4]))}:${match[5]}`
+    }
+
+    const { date } = email
+    return date
+      ? `${date.getFullYear()}/${pad(date.getMonth() + 1)}/${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`
+      : null
+  }
+
+  /**
+   * MIMEエンティティをヘッダーと本文に分割
+   */
+  private static parseEntity(raw: string): MimeEntity {
+    const separator = raw.search(/\r?\n\r?\n/)
+    const headerText = separator >= 0 ? raw.slice(0, separator) : raw
+    const body = separator >= 0 ? raw.slice(separator).replace(/^\r?\n\r?\n/, '') : ''
+
+    const headers: Record<string, string> = {}
+    // 折り返し行を結合
+    headerText.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+      const index = line.indexOf(':')
+      if (index > 0) {
+        headers[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim()
+      }
+    })
+
+    return { headers, body }
+  }
+
+  /**
+   * マルチパートを展開して末端のパートを列挙
+   */
+  private static flattenParts(entity: MimeEntity): MimeEntity[] {
+    const contentType = entity.headers['content-type'] || ''
+    const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1]
+
+    if (!/^multipart\//i.test(contentType) || !boundary) {
+      return [entity]
+    }
+
+    return entity.body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter(part => !part.startsWith('--'))
+      .flatMap(part => this.flattenParts(this.parseEntity(part.replace(/^\r?\n/, ''))))
+  }
+
+  /**
+   * 本文を転送エンコーディング・文字コードに従ってデコード
+   */
+  private static decodeBody(entity: MimeEntity): string {
+    const encoding = (entity.headers['content-transfer-encoding'] || '').toLowerCase()
+    const charset = entity.headers['content-type']?.match(/charset="?([^";\s]+)"?/i)?.[1] || 'utf-8'
+
+    let bytes: Buffer
+    if (encoding === 'base64') {
+      bytes = Buffer.from(entity.body.replace(/\s+/g, ''), 'base64')
+    } else if (encoding === 'quoted-printable') {
+      bytes = this.decodeQuotedPrintable(entity.body)
+    } else {
+      bytes = Buffer.from(entity.body, 'latin1')
+    }
+
+    return this.decodeCharset(bytes, charset)
+  }
+
+  /**
+   * ヘッダーのエンコード済み単語（=?UTF-8?B?...?=）をデコード
+   */
+  private static decodeHeader(value: string): string {
+    return value
+      .replace(/\?=\s+=\?/g, '?==?')
+      .replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_, charset: string, type: string, encoded: string) => {
+        const bytes = type.toUpperCase() === 'B'
+          ? Buffer.from(encoded, 'base64')
+          : this.decodeQuotedPrintable(encoded.replace(/_/g, ' '))
+        return this.decodeCharset(bytes, charset)
+      })
+  }
+
+  private static decodeQuotedPrintable(text: string): Buffer {
+    const normalized = text.replace(/=\r?\n/g, '')
+    const bytes: number[] = []
+
+    for (let i = 0; i < normalized.length; i++) {
+      const hex = normalized.slice(i + 1, i + 3)
+      if (normalized[i] === '=' && /^[0-9A-F]{2}$/i.test(hex)) {
+        bytes.push(parseInt(hex, 16))
+        i += 2
+      } else {
+        bytes.push(normalized.charCodeAt(i) & 0xff)
+      }
+    }
+
+    return Buffer.from(bytes)
+  }
+
+  /**
+   * 文字コード変換（ISO-2022-JP・Shift_JIS等の日本語メールに対応）
+   */
+  private static decodeCharset(bytes: Buffer, charset: string): string {
+    try {
+      return new TextDecoder(charset.toLowerCase()).decode(bytes)
+    } catch {
+      return bytes.toString('utf-8')
+    }
+  }
+
+  /**
+   * HTMLエンティティをデコード
+   */
+  private static decodeEntities(text: string): string {
+    const named: Record<string, string> = {
+      nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", yen: '¥', times: '×', minus: '−'
+    }
+
+    return text
+      .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+      .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 10)))
+      .replace(/&([a-z]+);/gi, (entity, name: string) => named[name.toLowerCase()] ?? entity)
+  }
+}
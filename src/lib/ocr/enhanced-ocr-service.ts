@@ -3,19 +3,34 @@ import { AdvancedPatternProcessor } from './pattern-processor'
 import { ImprovedPatternProcessor } from './improved-pattern-processor'
 import { PatternOptimizer } from './pattern-optimizer'
 import { OCRDebugAnalyzer, DebugAnalysis } from './debug-analyzer'
-import { OCRResultValidator } from './result-validator'
+import { OCRResultValidator, ReconciliationResult } from './result-validator'
 import { ReceiptSpecificFixes } from './receipt-specific-fixes'
-import { Receipt2SpecificPatterns } from './receipt2-specific-patterns'
-import { Receipt3Patterns } from './receipt3-patterns'
-import { LifePatterns } from './life-patterns'
-import { WarehousePatternsSimple } from './warehouse-patterns-simple'
 import { DocumentAIService } from './document-ai-service'
-import { OCRParseResult, ExtractedItem } from '@/types/ocr-patterns'
+import { OCRCacheUsage, OCREngine, OCREngineFactory, OCREngineName } from './ocr-engine'
+import { hashImageContent } from './record-replay-ocr-engine'
+import { LineReconstructor } from './line-reconstructor'
+import { ImagePreprocessor, PreprocessStep } from './image-preprocessor'
+import { TiledOCR } from './tiled-ocr'
+import { ReceiptStitcher } from './receipt-stitcher'
+import { PdfReceiptReader } from './pdf-receipt-reader'
+import { EmailReceiptParser } from './email-receipt-parser'
+import { StoreProfileRegistry } from './store-profile-registry'
+import { WeightPriceParser } from './weight-price-parser'
+import { TextNormalizer } from './text-normalizer'
+import { ProductAbbreviationDictionary } from './product-abbreviation-dictionary'
+import { ProductNameCorrector } from './product-name-corrector'
+import { ProductAliasDictionary } from './product-alias-dictionary'
+import { ScriptDetector } from './script-detector'
+import { ProcessingStageManager } from './processing-stages'
+import { DiscountProcessor } from './discount-processor'
+import { OCRCommonUtils } from './common-utils'
+import { OCRParseResult, ExtractedItem, ProcessingStageTrace, StoreProfileCandidate } from '@/types/ocr-patterns'
 
 export interface EnhancedOCROptions {
   enablePatternMatching: boolean
-  maxProcessingTime: number
+  maxProcessingTime: number // パターン処理の制限時間（段階ごとに配分）
   confidenceThreshold: number
+  confidenceTarget?: number // 到達したら以降の処理段階を省略（既定 0.8）
   enableFallback: boolean
   debugMode: boolean
   enableValidation: boolean
@@ -26,12 +41,60 @@ export interface EnhancedOCROptions {
   useReceipt3Parser: boolean
   useLifeParser: boolean
   useWarehouseParser: boolean
+  // OCRエンジン（未指定時はOCR_ENGINE環境変数または認証情報から決定）
+  ocrEngine?: OCREngineName
+  // 単語の座標から行を再構築（2列レイアウトの商品名と価格を同じ行にまとめる）
+  useGeometryLines: boolean
+  // 画像の前処理ステップ（未指定時はエンジンごとの既定値）
+  preprocessSteps?: PreprocessStep[]
+  // ユーザー辞書（解析直後にレシート上の表記で照合し、組み込みの正規化・略称展開・誤読修正より優先）
+  productAliases?: ProductAliasDictionary
   // Document AI オプション
   useDocumentAI: boolean
   documentAIProcessorId?: string
   documentAILocation?: string
 }
 
+export interface EnhancedOCRResult {
+  success: boolean
+  extractedText: string
+  items: ExtractedItem[]
+  metadata?: {
+    processingTime: number
+    storeType?: string
+    patternUsed?: string
+    confidence: number
+    fallbackUsed?: boolean
+    ocrEngine?: OCREngineName
+    photoCount?: number
+    // OCR結果キャッシュの利用状況（画像・タイル単位）
+    ocrCache?: OCRCacheUsage
+    qualityScore?: number
+    // 解析の各段階の記録（所要時間・商品の増減・試行パターン）
+    stageTrace?: ProcessingStageTrace[]
+    // 店舗プロファイルの採点結果（スコアの高い順）
+    storeCandidates?: StoreProfileCandidate[]
+    // 画像以外の入力（PDFのテキストレイヤー・HTMLメール等）
+    sourceType?: 'image' | 'pdf' | 'html' | 'email'
+    reconciliation?: {
+      printedTotal?: number
+      itemsTotal: number
+      difference: number
+      matched: boolean
+    }
+  }
+}
+
+// 個別に無効化できる既存の専用パーサー（店舗プロファイルID → オプション）
+const STORE_PROFILE_OPTIONS: Record<string, keyof EnhancedOCROptions> = {
+  warehouse: 'useWarehouseParser',
+  life: 'useLifeParser',
+  receipt2: 'useReceipt2Parser',
+  receipt3: 'useReceipt3Parser'
+}
+
+type ParseSourceMetadata = Pick<NonNullable<EnhancedOCRResult['metadata']>, 'ocrEngine' | 'photoCount' | 'sourceType' | 'ocrCache'>
+
 export class EnhancedOCRService {
   private patternManager: OCRPatternManager
   private processor: AdvancedPatternProcessor
@@ -45,47 +108,22 @@ export class EnhancedOCRService {
     this.validator = new OCRResultValidator()
   }
 
+  /**
+   * レシート画像を解析
+   * 複数枚に分けて撮影した場合は撮影順の配列を渡す
+   */
   async processImage(
-    imageFile: File, 
+    imageFile: File | File[], 
     options: Partial<EnhancedOCROptions> = {}
-  ): Promise<{
-    success: boolean
-    extractedText: string
-    items: ExtractedItem[]
-    metadata?: {
-      processingTime: number
-      storeType?: string
-      patternUsed?: string
-      confidence: number
-      fallbackUsed?: boolean
-    }
-  }> {
-    const defaultOptions: EnhancedOCROptions = {
-      enablePatternMatching: true,
-      maxProcessingTime: 10000,
-      confidenceThreshold: 0.3,
-      enableFallback: true,
-      debugMode: false,
-      enableValidation: true,
-      enableAutoCorrection: true,
-      useImprovedProcessor: true,
-      useReceiptSpecificFixes: true,
-      useReceipt2Parser: true,
-      useReceipt3Parser: true,
-      useLifeParser: true,
-      useWarehouseParser: true,
-      // Document AI デフォルト設定
-      useDocumentAI: false,
-      documentAIProcessorId: undefined,
-      documentAILocation: 'us'
-    }
-
-    const mergedOptions = { ...defaultOptions, ...options }
+  ): Promise<EnhancedOCRResult> {
+    const mergedOptions = this.mergeOptions(options)
     const startTime = Date.now()
+    const ocrEngine = OCREngineFactory.resolveEngineName(mergedOptions.ocrEngine)
+    const imageFiles = Array.isArray(imageFile) ? imageFile : [imageFile]
 
     try {
-      // Document AI優先処理
-      if (mergedOptions.useDocumentAI) {
+      // Document AI優先処理（Receipt Processorは1枚の画像のみ対応）
+      if (mergedOptions.useDocumentAI && imageFiles.length === 1) {
         if (mergedOptions.debugMode) {
           console.log('🤖 Document AI Receipt Processorを使用')
         }
@@ -98,9 +136,10 @@ export class EnhancedOCRService {
             debugMode: mergedOptions.debugMode
           })
 
-          const documentAIResult = await documentAI.processReceipt(imageFile, {
+          const documentAIResult = await documentAI.processReceipt(imageFiles[0], {
             debugMode: mergedOptions.debugMode,
-            enableFallback: mergedOptions.enableFallback
+            enableFallback: mergedOptions.enableFallback,
+            ocrEngine: mergedOptions.ocrEngine
           })
 
           if (documentAIResult.success) {
@@ -121,7 +160,9 @@ export class EnhancedOCRService {
                 storeType: documentAIResult.metadata.storeType,
                 patternUsed: documentAIResult.metadata.patternUsed,
                 confidence: documentAIResult.metadata.confidence,
-                fallbackUsed: documentAIResult.metadata.fallbackUsed
+                fallbackUsed: documentAIResult.metadata.fallbackUsed,
+                ocrEngine: 'document-ai',
+                ocrCache: documentAIResult.metadata.ocrCache
               }
             }
           } else if (mergedOptions.enableFallback) {
@@ -142,265 +183,504 @@ export class EnhancedOCRService {
         }
       }
 
-      // 1. OCR処理でテキスト抽出（従来のVision API）
-      const ocrText = await this.performOCR(imageFile)
+      // 1. OCRエンジンでテキスト抽出
+      const { text: ocrText, cache: ocrCache } = await this.performOCR(imageFiles, ocrEngine, mergedOptions)
       
       if (mergedOptions.debugMode) {
+        console.log(`🔤 OCRエンジン: ${ocrEngine}`)
         console.log('抽出されたOCRテキスト:', ocrText)
       }
 
-      // 2. パターンマッチングによる解析
-      let parseResult: OCRParseResult
+      return await this.parseText(ocrText, mergedOptions, startTime, {
+        ocrEngine,
+        photoCount: imageFiles.length,
+        sourceType: 'image',
+        ocrCache
+      })
+
+    } catch (error) {
+      console.error('拡張OCR処理が失敗しました:', error)
       
-      // 専用パーサーの優先順位で使用
-      if (mergedOptions.useWarehouseParser && this.isWarehouseLike(ocrText)) {
-        if (mergedOptions.debugMode) {
-          console.log('🎯 大型店舗専用パーサーを使用')
-          console.log('📄 OCRテキスト（先頭10行）:')
-          ocrText.split('\n').slice(0, 10).forEach((line, i) => {
-            console.log(`  ${i.toString().padStart(2)}: ${line}`)
-          })
-        }
+      // エラー時のフォールバック
+      try {
+        const { text: ocrText, cache: ocrCache } = await this.performOCR(imageFiles, ocrEngine, mergedOptions)
+        const fallbackResult = await this.fallbackParsing(TextNormalizer.normalize(ocrText))
         
-        const warehouseItems = WarehousePatternsSimple.parseWarehouseText(ocrText)
-        parseResult = {
-          patternId: 'warehouse-specific',
-          confidence: warehouseItems.length > 0 ? 0.9 : 0.3,
-          items: warehouseItems,
+        return {
+          success: true,
+          extractedText: ocrText,
+          items: fallbackResult.items.map(this.convertToExtractedItem),
           metadata: {
             processingTime: Date.now() - startTime,
-            patternsAttempted: ['warehouse-specific'],
-            fallbackUsed: false
+            fallbackUsed: true,
+            confidence: 0.2,
+            ocrEngine,
+            ocrCache
           }
         }
-      } else if (mergedOptions.useLifeParser && this.isLifeLike(ocrText)) {
-        if (mergedOptions.debugMode) {
-          console.log('🎯 店舗固有専用パーサーを使用')
-        }
-        
-        const lifeItems = LifePatterns.parseLifeText(ocrText)
-        parseResult = {
-          patternId: 'life-specific',
-          confidence: lifeItems.length > 0 ? 0.9 : 0.3,
-          items: lifeItems,
-          metadata: {
-            processingTime: Date.now() - startTime,
-            patternsAttempted: ['life-specific'],
-            fallbackUsed: false
-          }
+      } catch {
+        return {
+          success: false,
+          extractedText: '',
+          items: []
         }
-      } else if (mergedOptions.useReceipt2Parser && this.isReceipt2Like(ocrText)) {
-        if (mergedOptions.debugMode) {
-          console.log('🎯 Receipt2専用パーサーを使用')
+      }
+    }
+  }
+
+  /**
+   * OCR済み・デジタルのレシートテキストを解析（PDFのテキストレイヤーやHTMLメール）
+   */
+  async processText(
+    text: string,
+    options: Partial<EnhancedOCROptions> = {},
+    sourceType: ParseSourceMetadata['sourceType'] = 'pdf'
+  ): Promise<EnhancedOCRResult> {
+    const mergedOptions = this.mergeOptions(options)
+    const startTime = Date.now()
+
+    try {
+      return await this.parseText(text, mergedOptions, startTime, { sourceType })
+    } catch (error) {
+      console.error('テキスト解析が失敗しました:', error)
+
+      const fallbackResult = await this.fallbackParsing(TextNormalizer.normalize(text))
+      return {
+        success: fallbackResult.items.length > 0,
+        extractedText: text,
+        items: fallbackResult.items.map(this.convertToExtractedItem),
+        metadata: {
+          processingTime: Date.now() - startTime,
+          fallbackUsed: true,
+          confidence: 0.2,
+          sourceType
         }
-        
-        const receipt2Items = Receipt2SpecificPatterns.parseReceipt2Text(ocrText)
-        parseResult = {
-          patternId: 'receipt2-specific',
-          confidence: receipt2Items.length > 0 ? 0.8 : 0.3,
-          items: receipt2Items,
+      }
+    }
+  }
+
+  /**
+   * 画像・PDF・HTML・メール（.eml）を形式に応じて解析
+   * テキストレイヤー付きPDFとデジタルレシートはOCRを行わない
+   */
+  async processDocument(
+    files: File[],
+    options: Partial<EnhancedOCROptions> = {}
+  ): Promise<EnhancedOCRResult> {
+    const [file] = files
+    const data = Buffer.from(await file.arrayBuffer())
+    const debugMode = options.debugMode || false
+    const startTime = Date.now()
+    const isPdf = PdfReceiptReader.isPdf(data, file.type, file.name)
+    const isEmail = EmailReceiptParser.isEmail(data, file.type, file.name)
+    const isHtml = EmailReceiptParser.isHtml(data, file.type, file.name)
+
+    // 複数枚の結合は画像のみ（PDF・HTML・メールは1件ずつ）
+    if (files.length > 1 && (isPdf || isEmail || isHtml || files.some(entry => !entry.type.startsWith('image/')))) {
+      throw new Error('PDF・HTML・メールは1件ずつ処理してください')
+    }
+
+    if (isPdf) {
+      const content = await PdfReceiptReader.extractText(data, debugMode)
+      if (content.hasTextLayer) {
+        return this.processText(content.text, options, 'pdf')
+      }
+
+      // スキャンPDFはページを画像に変換し、複数枚の写真と同様に結合
+      const pages = await PdfReceiptReader.rasterize(data)
+      const pageFiles = pages.map((page, index) =>
+        new File([new Uint8Array(page)], `${file.name}-page${index + 1}.png`, { type: 'image/png' })
+      )
+      const result = await this.processImage(pageFiles, options)
+      return result.metadata ? { ...result, metadata: { ...result.metadata, sourceType: 'pdf' } } : result
+    }
+
+    if (isEmail || isHtml) {
+      const email = isEmail ? EmailReceiptParser.parseEml(data) : { html: data.toString('utf-8') }
+      const text = EmailReceiptParser.emailToText(email)
+      const sourceType = isEmail ? 'email' : 'html'
+
+      // 表形式の注文明細はそのまま商品に変換し、それ以外はテキストとして解析
+      const items = email.html ? EmailReceiptParser.extractItems(email.html, debugMode) : []
+      if (items.length > 0) {
+        return {
+          success: true,
+          extractedText: text,
+          items: items.map(this.convertToExtractedItem),
           metadata: {
             processingTime: Date.now() - startTime,
-            patternsAttempted: ['receipt2-specific'],
-            fallbackUsed: false
+            patternUsed: 'html-table',
+            confidence: 0.9,
+            fallbackUsed: false,
+            sourceType
           }
         }
-      } else if (mergedOptions.useReceipt3Parser && this.isReceipt3Like(ocrText)) {
-        if (mergedOptions.debugMode) {
-          console.log('🎯 Receipt3専用パーサーを使用')
-        }
-        
-        const receipt3Items = Receipt3Patterns.parseReceipt3Text(ocrText)
-        parseResult = {
-          patternId: 'receipt3-specific',
-          confidence: receipt3Items.length > 0 ? 0.8 : 0.3,
-          items: receipt3Items,
-          metadata: {
-            processingTime: Date.now() - startTime,
-            patternsAttempted: ['receipt3-specific'],
-            fallbackUsed: false
-          }
+      }
+
+      return this.processText(text, options, sourceType)
+    }
+
+    return this.processImage(files, options)
+  }
+
+  private mergeOptions(options: Partial<EnhancedOCROptions>): EnhancedOCROptions {
+    const defaultOptions: EnhancedOCROptions = {
+      enablePatternMatching: true,
+      maxProcessingTime: 10000,
+      confidenceThreshold: 0.3,
+      enableFallback: true,
+      debugMode: false,
+      enableValidation: true,
+      enableAutoCorrection: true,
+      useImprovedProcessor: true,
+      useReceiptSpecificFixes: true,
+      useReceipt2Parser: true,
+      useReceipt3Parser: true,
+      useLifeParser: true,
+      useWarehouseParser: true,
+      ocrEngine: undefined,
+      useGeometryLines: true,
+      preprocessSteps: undefined,
+      // Document AI デフォルト設定
+      useDocumentAI: false,
+      documentAIProcessorId: undefined,
+      documentAILocation: 'us'
+    }
+
+    return { ...defaultOptions, ...options }
+  }
+
+  /**
+   * 抽出済みテキストのパターン解析・照合・検証
+   */
+  private async parseText(
+    extractedText: string,
+    mergedOptions: EnhancedOCROptions,
+    startTime: number,
+    source: ParseSourceMetadata
+  ): Promise<EnhancedOCRResult> {
+    // 半角カナ・全角英数・長音記号の揺れを統一してから解析（表示用の元テキストは extractedText のまま返す）
+    const ocrText = TextNormalizer.normalize(extractedText)
+
+    // 2. パターンマッチングによる解析（各段階の所要時間・商品の増減を記録）
+    let parseResult: OCRParseResult
+    const parseStart = Date.now()
+    const stageTrace: ProcessingStageTrace[] = []
+    
+    // 店舗プロファイルで採点し、条件を満たす最上位のプロファイルの専用パーサーを使用
+    const storeCandidates = StoreProfileRegistry.rank(ocrText, this.enabledStoreProfiles(mergedOptions))
+    const storeProfile = storeCandidates[0]?.matched ? StoreProfileRegistry.getProfile(storeCandidates[0].profileId) : undefined
+
+    if (mergedOptions.debugMode) {
+      storeCandidates.forEach(candidate => {
+        console.log(`🏪 店舗候補: ${candidate.name} スコア${candidate.score}${candidate.excludedBy ? ` (除外: ${candidate.excludedBy})` : ''}`)
+      })
+    }
+
+    if (storeProfile) {
+      if (mergedOptions.debugMode) {
+        console.log(`🎯 ${storeProfile.name}専用パーサーを使用`)
+        console.log('📄 OCRテキスト（先頭10行）:')
+        ocrText.split('\n').slice(0, 10).forEach((line, i) => {
+          console.log(`  ${i.toString().padStart(2)}: ${line}`)
+        })
+      }
+
+      const parsedItems = storeProfile.parse(ocrText, mergedOptions.productAliases)
+      stageTrace.push(ProcessingStageManager.traceStep(`${storeProfile.id}-specific`, [], parsedItems, parseStart, [`${storeProfile.id}-specific`]))
+      const profileItems = this.applyProductAliases(parsedItems, mergedOptions, stageTrace)
+      parseResult = {
+        patternId: `${storeProfile.id}-specific`,
+        confidence: profileItems.length > 0 ? storeProfile.confidence : 0.3,
+        items: profileItems,
+        metadata: {
+          storeType: storeProfile.id,
+          processingTime: Date.now() - startTime,
+          patternsAttempted: [`${storeProfile.id}-specific`],
+          fallbackUsed: false
         }
-      } else if (mergedOptions.enablePatternMatching) {
-        // プロセッサーの選択
-        const activeProcessor = mergedOptions.useImprovedProcessor ? 
-          new ImprovedPatternProcessor(mergedOptions.debugMode) : 
-          this.processor
-
-        // 店舗タイプ検出
-        const storeType = await activeProcessor.detectStoreType(ocrText)
-        
-        // 最適なパターンを取得
-        const patterns = await this.patternManager.getOptimalPatterns(storeType || undefined)
-        
+      }
+    } else if (mergedOptions.enablePatternMatching) {
+      // プロセッサーの選択
+      const activeProcessor = mergedOptions.useImprovedProcessor ? 
+        new ImprovedPatternProcessor(mergedOptions.debugMode) : 
+        this.processor
+
+      // 店舗タイプ検出
+      const storeType = await activeProcessor.detectStoreType(ocrText)
+      
+      // 最適なパターンを取得
+      const patterns = await this.patternManager.getOptimalPatterns(storeType || undefined)
+      
+      if (mergedOptions.debugMode) {
+        console.log(`🏪 検出店舗タイプ: ${storeType}`)
+        console.log(`📋 利用可能パターン数: ${patterns.length}`)
+        console.log(`⚙️ プロセッサー: ${mergedOptions.useImprovedProcessor ? 'Improved' : 'Standard'}`)
+      }
+
+      // パターン処理実行（改良版は段階ごとの持ち時間で制限時間内に収める）
+      parseResult = activeProcessor instanceof ImprovedPatternProcessor
+        ? await activeProcessor.processText(ocrText, patterns, {
+            maxProcessingTime: Math.max(0, mergedOptions.maxProcessingTime - (Date.now() - parseStart)),
+            confidenceThreshold: mergedOptions.confidenceThreshold,
+            confidenceTarget: mergedOptions.confidenceTarget
+          })
+        : await activeProcessor.processText(ocrText, patterns)
+      stageTrace.push(...(parseResult.metadata.stageTrace || []))
+      parseResult.items = this.applyProductAliases(parseResult.items, mergedOptions, stageTrace)
+      
+      // 結果の最適化
+      const optimizeStart = Date.now()
+      const itemsBeforeOptimize = parseResult.items
+      parseResult = PatternOptimizer.optimizeResults(parseResult)
+      stageTrace.push(ProcessingStageManager.traceStep('pattern-optimization', itemsBeforeOptimize, parseResult.items, optimizeStart))
+
+      // 検証と自動修正
+      if (mergedOptions.enableValidation) {
+        const validationResult = this.validator.validateItems(
+          parseResult.items, 
+          ocrText, 
+          storeType || undefined
+        )
+
         if (mergedOptions.debugMode) {
-          console.log(`🏪 検出店舗タイプ: ${storeType}`)
-          console.log(`📋 利用可能パターン数: ${patterns.length}`)
-          console.log(`⚙️ プロセッサー: ${mergedOptions.useImprovedProcessor ? 'Improved' : 'Standard'}`)
+          console.log(`✅ 検証完了: ${validationResult.globalIssues.length}件の問題`)
+          console.log(`💡 提案: ${validationResult.globalSuggestions.length}件`)
         }
 
-        // パターン処理実行
-        parseResult = await activeProcessor.processText(ocrText, patterns)
-        
-        // 結果の最適化
-        parseResult = PatternOptimizer.optimizeResults(parseResult)
-
-        // 検証と自動修正
-        if (mergedOptions.enableValidation) {
-          const validationResult = this.validator.validateItems(
+        // 自動修正の適用
+        if (mergedOptions.enableAutoCorrection) {
+          const correctionStart = Date.now()
+          const correctionResult = this.validator.autoCorrectItems(
             parseResult.items, 
             ocrText, 
             storeType || undefined
           )
+          stageTrace.push(ProcessingStageManager.traceStep('auto-correction', parseResult.items, correctionResult.correctedItems, correctionStart))
+          parseResult.items = correctionResult.correctedItems
 
-          if (mergedOptions.debugMode) {
-            console.log(`✅ 検証完了: ${validationResult.globalIssues.length}件の問題`)
-            console.log(`💡 提案: ${validationResult.globalSuggestions.length}件`)
+          if (mergedOptions.debugMode && correctionResult.corrections.length > 0) {
+            console.log(`🔧 自動修正: ${correctionResult.corrections.length}件`)
           }
+        }
+      }
+    } else {
+      // パターンマッチング無効時はフォールバック処理のみ
+      parseResult = await this.fallbackParsing(ocrText)
+      stageTrace.push(ProcessingStageManager.traceStep('fallback-parsing', [], parseResult.items, parseStart, ['fallback']))
+      parseResult.items = this.applyProductAliases(parseResult.items, mergedOptions, stageTrace)
+    }
 
-          // 自動修正の適用
-          if (mergedOptions.enableAutoCorrection) {
-            const correctionResult = this.validator.autoCorrectItems(
-              parseResult.items, 
-              ocrText, 
-              storeType || undefined
-            )
-            parseResult.items = correctionResult.correctedItems
-
-            if (mergedOptions.debugMode && correctionResult.corrections.length > 0) {
-              console.log(`🔧 自動修正: ${correctionResult.corrections.length}件`)
-            }
-          }
+    // 専用パーサー使用時は後処理をスキップ（専用パーサーで既に処理済み）
+    if (!storeProfile) {
+
+      // レシート固有の修正適用
+      if (mergedOptions.useReceiptSpecificFixes) {
+        const beforeSpecificFix = parseResult.items.length
+        const originalItems = [...parseResult.items]
+        const specificFixStart = Date.now()
+        parseResult.items = ReceiptSpecificFixes.applyReceipt2SpecificFixes(parseResult.items)
+        stageTrace.push(ProcessingStageManager.traceStep('receipt-specific-fixes', originalItems, parseResult.items, specificFixStart))
+        
+        if (mergedOptions.debugMode) {
+          const specificStats = ReceiptSpecificFixes.generateFixStatistics(originalItems, parseResult.items)
+          console.log(`🎯 Receipt固有修正統計:`, specificStats)
+          console.log(`📊 修正前→後: ${beforeSpecificFix}件 → ${parseResult.items.length}件`)
         }
-      } else {
-        // パターンマッチング無効時はフォールバック処理のみ
-        parseResult = await this.fallbackParsing(ocrText)
       }
+    } else if (mergedOptions.debugMode) {
+      console.log(`✅ ${storeProfile.name}専用パーサー使用: 後処理スキップ`)
+    }
+
+    // 解析結果の検証（失敗時はフォールバック解析に切り替え、以降の後処理は採用した結果に1回だけ適用）
+    const isValid = this.processor.validateResults(parseResult)
+
+    if (!isValid && mergedOptions.enableFallback) {
+      const fallbackStart = Date.now()
+      const itemsBeforeFallback = parseResult.items
+      parseResult = await this.fallbackParsing(ocrText)
+      parseResult.metadata.fallbackUsed = true
+      stageTrace.push(ProcessingStageManager.traceStep('validation-fallback', itemsBeforeFallback, parseResult.items, fallbackStart, ['fallback']))
+      parseResult.items = this.applyProductAliases(parseResult.items, mergedOptions, stageTrace)
+    }
+
+    // 値引・クーポン行を直前の商品に適用（専用パーサーは各パーサー内で適用済み）
+    if (!storeProfile && parseResult.items.length > 0) {
+      const discountStart = Date.now()
+      const discountedItems = DiscountProcessor.applyDiscountLines(OCRCommonUtils.splitLines(ocrText), parseResult.items)
+      stageTrace.push(ProcessingStageManager.traceStep('discount-lines', parseResult.items, discountedItems, discountStart))
+      parseResult.items = discountedItems
+    }
+
+    // 量り売り（重さ・容量×単価）の商品の数量・単位（専用パーサー使用時も適用）
+    if (parseResult.items.length > 0) {
+      const weightStart = Date.now()
+      const weighedItems = WeightPriceParser.applyToItems(parseResult.items, ocrText, mergedOptions.debugMode)
+      stageTrace.push(ProcessingStageManager.traceStep('weight-pricing', parseResult.items, weighedItems, weightStart))
+      parseResult.items = weighedItems
+
+      // 既知の商品名の語彙でOCRの誤読を修正
+      const correctionStart = Date.now()
+      const correctedItems = new ProductNameCorrector().applyToItems(parseResult.items, mergedOptions.debugMode)
+      stageTrace.push(ProcessingStageManager.traceStep('spelling-correction', parseResult.items, correctedItems, correctionStart))
+      parseResult.items = correctedItems
+
+      // POSの略称を読みやすい商品名に展開（店舗ごとの略称は判定した店舗で絞り込む）
+      const expansionStart = Date.now()
+      const expandedItems = ProductAbbreviationDictionary.applyToItems(parseResult.items, parseResult.metadata.storeType, mergedOptions.debugMode)
+      stageTrace.push(ProcessingStageManager.traceStep('abbreviation-expansion', parseResult.items, expandedItems, expansionStart))
+      parseResult.items = expandedItems
+
+      // 韓国語・中国語の商品名に言語を記録
+      parseResult.items = ScriptDetector.applyToItems(parseResult.items, mergedOptions.debugMode)
+    }
+
+    // 印字合計との照合（取りこぼし・重複の検出）
+    let reconciliation: ReconciliationResult | undefined
+    if (mergedOptions.enableValidation && parseResult.items.length > 0) {
+      reconciliation = this.validator.reconcileTotals(parseResult.items, ocrText)
 
-      // 専用パーサー使用時は後処理をスキップ（専用パーサーで既に処理済み）
-      const skipPostProcessing = (mergedOptions.useWarehouseParser && this.isWarehouseLike(ocrText)) ||
-                                  (mergedOptions.useLifeParser && this.isLifeLike(ocrText)) ||
-                                  (mergedOptions.useReceipt2Parser && this.isReceipt2Like(ocrText)) ||
-                                  (mergedOptions.useReceipt3Parser && this.isReceipt3Like(ocrText))
+      if (mergedOptions.debugMode) {
+        console.log(`🧮 合計照合: 商品合計=${reconciliation.itemsTotal} 印字=${reconciliation.expectedTotal ?? '不明'} 差額=${reconciliation.difference}`)
+        reconciliation.issues.forEach(issue => console.log(`⚠️ ${issue.message}`))
+      }
 
-      if (!skipPostProcessing) {
+      if (mergedOptions.enableAutoCorrection && !reconciliation.matched) {
+        const reconcileStart = Date.now()
+        const reconciledItems = this.validator.applyReconciliation(parseResult.items, reconciliation)
+        if (reconciledItems !== parseResult.items) {
+          stageTrace.push(ProcessingStageManager.traceStep('total-reconciliation', parseResult.items, reconciledItems, reconcileStart))
+          parseResult.items = reconciledItems
+          reconciliation = this.validator.reconcileTotals(parseResult.items, ocrText)
 
-        // レシート固有の修正適用
-        if (mergedOptions.useReceiptSpecificFixes) {
-          const beforeSpecificFix = parseResult.items.length
-          const originalItems = [...parseResult.items]
-          parseResult.items = ReceiptSpecificFixes.applyReceipt2SpecificFixes(parseResult.items)
-          
           if (mergedOptions.debugMode) {
-            const specificStats = ReceiptSpecificFixes.generateFixStatistics(originalItems, parseResult.items)
-            console.log(`🎯 Receipt固有修正統計:`, specificStats)
-            console.log(`📊 修正前→後: ${beforeSpecificFix}件 → ${parseResult.items.length}件`)
+            console.log(`🔧 合計照合による修正後: 差額=${reconciliation.difference}`)
           }
         }
-      } else if (mergedOptions.debugMode) {
-        if (mergedOptions.useWarehouseParser && this.isWarehouseLike(ocrText)) {
-          console.log(`✅ 大型店舗専用パーサー使用: 後処理スキップ`)
-        } else if (mergedOptions.useLifeParser && this.isLifeLike(ocrText)) {
-          console.log(`✅ 店舗固有専用パーサー使用: 後処理スキップ`)
-        } else if (mergedOptions.useReceipt2Parser && this.isReceipt2Like(ocrText)) {
-          console.log(`✅ Receipt2専用パーサー使用: 後処理スキップ`)
-        } else if (mergedOptions.useReceipt3Parser && this.isReceipt3Like(ocrText)) {
-          console.log(`✅ Receipt3専用パーサー使用: 後処理スキップ`)
-        }
       }
+    }
 
-      const processingTime = Date.now() - startTime
-
-      // 3. 結果の検証と整形
-      const isValid = this.processor.validateResults(parseResult)
-      
-      if (!isValid && mergedOptions.enableFallback) {
-        // 検証失敗時のフォールバック
-        parseResult = await this.fallbackParsing(ocrText)
-        parseResult.metadata.fallbackUsed = true
-      }
+    const processingTime = Date.now() - startTime
 
-      return {
-        success: true,
-        extractedText: ocrText,
-        items: parseResult.items.map(this.convertToExtractedItem),
-        metadata: {
-          processingTime,
-          storeType: parseResult.metadata.storeType,
-          patternUsed: parseResult.patternId,
-          confidence: parseResult.confidence,
-          fallbackUsed: parseResult.metadata.fallbackUsed
+    // 3. 結果の整形
+    return {
+      success: true,
+      extractedText,
+      items: parseResult.items.map(this.convertToExtractedItem),
+      metadata: {
+        processingTime,
+        storeType: parseResult.metadata.storeType,
+        patternUsed: parseResult.patternId,
+        confidence: parseResult.confidence,
+        fallbackUsed: parseResult.metadata.fallbackUsed,
+        qualityScore: OCRDebugAnalyzer.calculateQualityScore(parseResult.items, parseResult.confidence),
+        stageTrace,
+        storeCandidates,
+        ...source,
+        reconciliation: reconciliation && {
+          printedTotal: reconciliation.expectedTotal,
+          itemsTotal: reconciliation.itemsTotal,
+          difference: reconciliation.difference,
+          matched: reconciliation.matched
         }
       }
+    }
+  }
 
-    } catch (error) {
-      console.error('拡張OCR処理が失敗しました:', error)
-      
-      // エラー時のフォールバック
-      try {
-        const ocrText = await this.performOCR(imageFile)
-        const fallbackResult = await this.fallbackParsing(ocrText)
-        
-        return {
-          success: true,
-          extractedText: ocrText,
-          items: fallbackResult.items.map(this.convertToExtractedItem),
-          metadata: {
-            processingTime: Date.now() - startTime,
-            fallbackUsed: true,
-            confidence: 0.2
-          }
-        }
-      } catch {
-        return {
-          success: false,
-          extractedText: '',
-          items: []
+  /**
+   * ユーザー辞書を適用（パーサーの出力直後、レシート上の表記で照合する）
+   */
+  private applyProductAliases(
+    items: ExtractedItem[],
+    options: EnhancedOCROptions,
+    stageTrace: ProcessingStageTrace[]
+  ): ExtractedItem[] {
+    const aliases = options.productAliases
+    if (!aliases || aliases.size === 0 || items.length === 0) return items
+
+    const aliasStart = Date.now()
+    const aliasedItems = aliases.applyToItems(items, options.debugMode)
+    stageTrace.push(ProcessingStageManager.traceStep('product-aliases', items, aliasedItems, aliasStart))
+    return aliasedItems
+  }
+
+  /**
+   * 有効な店舗プロファイル（オプションで無効化されたものを除く）
+   */
+  private enabledStoreProfiles(options: EnhancedOCROptions): string[] {
+    return StoreProfileRegistry.getProfiles()
+      .map(profile => profile.id)
+      .filter(id => !STORE_PROFILE_OPTIONS[id] || options[STORE_PROFILE_OPTIONS[id]] !== false)
+  }
+
+  private async performOCR(
+    imageFiles: File[],
+    engineName: OCREngineName,
+    options: Pick<EnhancedOCROptions, 'debugMode' | 'useGeometryLines' | 'preprocessSteps'>
+  ): Promise<{ text: string, cache?: OCRCacheUsage }> {
+    const engine = await OCREngineFactory.create(engineName)
+
+    const texts: string[] = []
+    let cache: OCRCacheUsage | undefined
+    for (const imageFile of imageFiles) {
+      const recognized = await this.recognizeImage(imageFile, engine, options)
+      texts.push(recognized.text)
+      if (recognized.cache) {
+        cache = {
+          hits: (cache?.hits || 0) + recognized.cache.hits,
+          misses: (cache?.misses || 0) + recognized.cache.misses
         }
       }
     }
+
+    if (texts.length === 1) {
+      return { text: texts[0], cache }
+    }
+
+    // 複数枚の写真は重なった行を除いて1つの行の並びに結合
+    const stitched = ReceiptStitcher.stitch(texts, { debugMode: options.debugMode })
+    return { text: stitched.lines.join('\n'), cache }
   }
 
-  private async performOCR(imageFile: File): Promise<string> {
-    // Google Cloud Vision APIを直接呼び出し
-    const { ImageAnnotatorClient } = await import('@google-cloud/vision')
-    const sharp = await import('sharp')
-    
-    const visionClient = new ImageAnnotatorClient({
-      projectId: process.env.GOOGLE_CLOUD_PROJECT_ID,
-      credentials: {
-        client_email: process.env.GOOGLE_CLOUD_CLIENT_EMAIL,
-        private_key: process.env.GOOGLE_CLOUD_PRIVATE_KEY?.replace(/\\n/g, '\n'),
-      },
-    })
+  private async recognizeImage(
+    imageFile: File,
+    engine: OCREngine,
+    options: Pick<EnhancedOCROptions, 'debugMode' | 'useGeometryLines' | 'preprocessSteps'>
+  ): Promise<{ text: string, cache?: OCRCacheUsage }> {
+    const { debugMode, useGeometryLines } = options
 
     // ファイルをBufferに変換
     const bytes = await imageFile.arrayBuffer()
     const buffer = Buffer.from(bytes)
 
-    // 画像を最適化（サイズ縮小・品質向上）
-    const optimizedBuffer = await sharp.default(buffer)
-      .resize(1200, 1200, { 
-        fit: 'inside',
-        withoutEnlargement: true 
-      })
-      .jpeg({ quality: 85 })
-      .sharpen()
-      .toBuffer()
+    // 画像の前処理（回転・切り出し・傾き補正・縮小・二値化）
+    const preprocessed = await ImagePreprocessor.process(buffer, {
+      steps: options.preprocessSteps || ImagePreprocessor.defaultSteps(engine.name),
+      debugMode
+    })
 
-    // Google Cloud Vision APIでOCR実行
-    const [result] = await visionClient.textDetection({
-      image: { content: optimizedBuffer }
+    // 選択されたエンジンでOCR実行（長尺レシートはタイル分割、記録・再生のキーは元画像のハッシュ）
+    const result = await TiledOCR.recognize(engine, preprocessed.buffer, preprocessed.mimeType, {
+      debugMode,
+      sourceHash: hashImageContent(buffer)
     })
+    let extractedText = result.text
+
+    // 単語の座標がある場合は行を再構築
+    if (useGeometryLines && result.words.length > 0) {
+      const lines = LineReconstructor.reconstruct(result.words)
+      extractedText = LineReconstructor.toText(lines)
 
-    const detections = result.textAnnotations
-    const extractedText = detections?.[0]?.description || ''
+      if (debugMode) {
+        console.log(`📐 座標から行を再構築: ${result.text.split('\n').length}行 → ${lines.length}行`)
+      }
+    }
 
     if (!extractedText) {
       throw new Error('テキストを検出できませんでした')
     }
 
-    return extractedText
+    return { text: extractedText, cache: result.cache }
   }
 
   private async fallbackParsing(text: string): Promise<OCRParseResult> {
@@ -680,158 +960,4 @@ export class EnhancedOCRService {
       successRate: successCount / iterations
     }
   }
-
-  /**
-   * Receipt2.jpgのようなレシートかどうかを判定
-   */
-  private isReceipt2Like(text: string): boolean {
-    const receipt2Indicators = [
-      '領収証明細',
-      'スキャンレジ',
-      'フレッシュパック',
-      'くらこん塩こんぶ',
-      '純正ごま油',
-      '無添加コーン',
-      '豚ばらうす切り',
-      'ひらいし',
-      '2022年01月25日',
-      'スNo 00643015',
-      'レジ0605',
-      '白菜',
-      'シーチキンM4缶',
-      '伊藤ロースハム',
-      'やわらか厚あげ'
-    ]
-    
-    const matchCount = receipt2Indicators.filter(indicator => 
-      text.includes(indicator)
-    ).length
-    
-    // 店舗情報の検出も強化
-    const storePatterns = [
-      /領収証明細/,
-      /\d{4}年\d{1,2}月\d{1,2}日.*レジ\d{4}/,
-      /スNo\s+\d{8}/,
-      /ひらいし$/m
-    ]
-    
-    const storeMatches = storePatterns.filter(pattern => pattern.test(text)).length
-    
-    return matchCount >= 2 || storeMatches >= 2  // 条件を緩和してより多くを検出
-  }
-
-  /**
-   * 大型店舗のようなレシートかどうかを判定
-   */
-  private isWarehouseLike(text: string): boolean {
-    // 大型店舗識別キーワード
-    const warehouseIndicators = [
-      'WHOLESALE',
-      'BIZ/GOLD',
-      'BIZ\/GOLD',
-      '会員',
-      'ムートンシューズ',
-      'UGG',
-      '生ハム',
-      'PROSCIUTTO',
-      'トイレットペーパー',
-      'BATH TISSUE',
-      'グレープフルーツ',
-      'エビカクテル',
-      'シュリンプ',
-      '個',
-      ' T$',
-      ' E$'
-    ]
-    
-    const matchCount = warehouseIndicators.filter(indicator => 
-      text.includes(indicator)
-    ).length
-    
-    // 大型店舗特有のパターン
-    const warehousePatterns = [
-      /WHOLESALE/i,            // ヘッダー
-      /BIZ\/GOLD会員/,         // 会員情報
-      /売上/,                  // 売上表示
-      /\d{5,7}\s*\n\s*\d+個\s*\n\s*[\d,]+\s*\n\s*[\d,]+\s+[TE]/m,  // 5行パターン
-      /.+\s*\n\s*\d{5,7}\s*\n\s*\d+個\s*\n\s*[\d,]+\s*\n\s*[\d,]+\s+[TE]/m,  // 完全5行パターン
-      /※.+\s*\n\s*\d{5,7}/m,   // ※付き商品
-      /[\d,]+\s+[TE]$/m        // 価格+税区分
-    ]
-    
-    const patternMatches = warehousePatterns.filter(pattern => pattern.test(text)).length
-    
-    console.log(`🏪 大型店舗判定: キーワード${matchCount}個, パターン${patternMatches}個`)
-    
-    return matchCount >= 1 || patternMatches >= 2  // 閾値を下げて検出率向上
-  }
-
-  /**
-   * 特定店舗のようなレシートかどうかを判定
-   */
-  private isLifeLike(text: string): boolean {
-    const storeIndicators = [
-      'レタス',
-      '※レタス',
-      '*やさしさあじわい',
-      '*からすがれい',
-      '*米国豚ロース',
-      '*ふなしめじ',
-      '*雪印バター',
-      'A 金オフ',
-      'コX単'
-    ]
-    
-    const matchCount = storeIndicators.filter(indicator => 
-      text.includes(indicator)
-    ).length
-    
-    // 店舗固有のパターン
-    const storePatterns = [
-      /\*[^*]+\s*\n\s*¥\d+/,  // *商品名 改行 ¥価格
-      /[A-Z]\s+.+\s*\n\s*\d+コX単\d+/,  // 税区分付き商品 改行 数量パターン
-      /\d+コX単\d+/  // 数量パターン
-    ]
-    
-    const patternMatches = storePatterns.filter(pattern => pattern.test(text)).length
-    
-    return matchCount >= 2 || patternMatches >= 2
-  }
-
-  /**
-   * Receipt3のようなレシートかどうかを判定
-   */
-  private isReceipt3Like(text: string): boolean {
-    const receipt3Indicators = [
-      'Receipt3',
-      'ピーコックストア',
-      'イオンマーケット株式会社',
-      '領収証',
-      'バイオレジ袋',
-      '森永乳業',
-      'パルムチョコ',
-      'タカキ',
-      'TVB P若鶏',
-      '金麦糖質オフ',
-      '男前豆腐店'
-    ]
-    
-    const matchCount = receipt3Indicators.filter(indicator => 
-      text.includes(indicator)
-    ).length
-    
-    // Receipt3固有のパターン
-    const receipt3Patterns = [
-      /Receipt3/i,
-      /ピーコックストア/,
-      /イオンマーケット株式会社/,
-      /レジ\s*\d{4}/,
-      /\d+※$/m,  // 軽減税率マーク
-      /割引!\s*\d+%/
-    ]
-    
-    const patternMatches = receipt3Patterns.filter(pattern => pattern.test(text)).length
-    
-    return matchCount >= 2 || patternMatches >= 2
-  }
 }
\ No newline at end of file
@@ -0,0 +1,398 @@
+import { readFile, readdir } from 'fs/promises'
+import path from 'path'
+import { JsonConfigReceiptParser } from '../jsonConfigParser'
+import { OCRCommonUtils } from './common-utils'
+import { EnhancedOCRService, EnhancedOCROptions } from './enhanced-ocr-service'
+import { LineReconstructor } from './line-reconstructor'
+import { OCRFixture, RecordReplayOCREngine } from './record-replay-ocr-engine'
+import { STORE_PROFILES } from './store-profiles'
+import { TextNormalizer } from './text-normalizer'
+
+export interface CorpusExpectedItem {
+  name: string
+  price: number
+  quantity?: number
+}
+
+// 正解データ1件（OCRテキストまたは記録済みOCRフィクスチャ＋期待する商品）
+export interface GoldenCorpusCase {
+  id: string
+  description?: string
+  text?: string
+  fixture?: string // OCRフィクスチャのファイル名（`${hash}.${engine}.json`）
+  expectedItems: CorpusExpectedItem[]
+  exactNames?: boolean // 商品名の完全一致のみ対応付ける（商品名の修正・展開の誤りを検出するレシート）
+}
+
+interface ParsedCorpusItem {
+  name: string
+  price?: number
+  quantity?: number
+}
+
+export interface CorpusItemScore {
+  expected: number
+  actual: number
+  matched: number
+  correctPrices: number
+  precision: number
+  recall: number
+  f1: number
+  priceAccuracy: number // 一致した商品のうち価格も一致した割合
+}
+
+export interface CorpusCaseResult extends CorpusItemScore {
+  caseId: string
+  parser: string
+  runtimeMs: number
+  missing: string[] // 検出できなかった商品
+  unexpected: string[] // 正解にない商品
+  wrongPrices: Array<{ name: string, expected: number, actual?: number }>
+  error?: string
+}
+
+export interface CorpusAggregate extends CorpusItemScore {
+  parser: string
+  cases: number
+  errors: number
+  runtimeMs: number
+  averageRuntimeMs: number
+}
+
+export interface GoldenCorpusReport {
+  generatedAt: string
+  corpusDir: string
+  caseCount: number
+  parsers: string[]
+  results: CorpusCaseResult[]
+  aggregates: CorpusAggregate[]
+}
+
+export interface CorpusComparison {
+  parser: string
+  precision: number // 基準レポートとの差分
+  recall: number
+  f1: number
+  priceAccuracy: number
+  averageRuntimeMs: number
+  regressions: Array<{ caseId: string, before: number, after: number }> // F1が下がったレシート
+  improvements: Array<{ caseId: string, before: number, after: number }>
+}
+
+// 記録済みの基準値（レシートID → パーサー → F1・価格の正解率）
+export interface CorpusBaseline {
+  cases: Record<string, Record<string, Pick<CorpusItemScore, 'f1' | 'priceAccuracy'>>>
+}
+
+export interface CorpusBaselineRegression {
+  caseId: string
+  parser: string
+  metric: 'f1' | 'priceAccuracy'
+  expected: number // 基準値
+  actual: number
+}
+
+// 同じ商品とみなす商品名の類似度
+const NAME_SIMILARITY_THRESHOLD = 0.6
+
+// フォールバック解析のみを実行する設定（パターン処理・専用パーサー・後処理なし）
+const FALLBACK_ONLY_OPTIONS: Partial<EnhancedOCROptions> = {
+  enablePatternMatching: false,
+  enableFallback: false,
+  enableValidation: false,
+  useReceiptSpecificFixes: false,
+  useWarehouseParser: false,
+  useLifeParser: false,
+  useReceipt2Parser: false,
+  useReceipt3Parser: false
+}
+
+/**
+ * パーサーの回帰テスト用正解データ（ゴールデンコーパス）
+ * 全パーサーを各レシートで実行し、商品の適合率・再現率・価格の正解率・処理時間を集計する
+ */
+export class GoldenCorpus {
+
+  /**
+   * 正解データの保存先ディレクトリ
+   */
+  static getCorpusDir(): string {
+    return process.env.OCR_CORPUS_DIR || path.join(process.cwd(), 'fixtures', 'corpus')
+  }
+
+  /**
+   * レシートごとの基準値の保存先
+   */
+  static getBaselinePath(): string {
+    return process.env.OCR_CORPUS_BASELINE || path.join(process.cwd(), 'fixtures', 'corpus-baseline.json')
+  }
+
+  /**
+   * 評価対象のパーサー（店舗プロファイルの専用パーサー・JSON設定パーサー・フォールバック・パイプライン全体）
+   */
+  static getParserNames(): string[] {
+    return [...STORE_PROFILES.map(profile => profile.id), 'json-config', 'fallback', 'enhanced']
+  }
+
+  /**
+   * ディレクトリ内の正解データ（*.json）を読み込む
+   */
+  static async load(corpusDir: string = this.getCorpusDir()): Promise<GoldenCorpusCase[]> {
+    const files = (await readdir(corpusDir)).filter(file => file.endsWith('.json')).sort()
+
+    const cases: GoldenCorpusCase[] = []
+    for (const file of files) {
+      const corpusCase = JSON.parse(await readFile(path.join(corpusDir, file), 'utf-8')) as GoldenCorpusCase
+      if (!corpusCase.text && !corpusCase.fixture) {
+        throw new Error(`正解データにtextまたはfixtureがありません: ${file}`)
+      }
+      cases.push({ ...corpusCase, id: corpusCase.id || file.replace(/\.json$/, '') })
+    }
+
+    return cases
+  }
+
+  /**
+   * 全レシート×全パーサーを実行してレポートを作成
+   */
+  static async run(
+    cases: GoldenCorpusCase[],
+    options: { parsers?: string[], corpusDir?: string } = {}
+  ): Promise<GoldenCorpusReport> {
+    const parsers = options.parsers || this.getParserNames()
+    const unknownParsers = parsers.filter(parser => !this.getParserNames().includes(parser))
+    if (unknownParsers.length > 0) {
+      throw new Error(`未対応のパーサーです: ${unknownParsers.join(', ')}`)
+    }
+
+    const results: CorpusCaseResult[] = []
+    for (const corpusCase of cases) {
+      const text = await this.resolveText(corpusCase)
+
+      for (const parser of parsers) {
+        const startTime = performance.now()
+        let items: ParsedCorpusItem[] = []
+        let error: string | undefined
+        try {
+          items = await this.runParser(parser, text)
+        } catch (parserError) {
+          error = parserError instanceof Error ? parserError.message : String(parserError)
+        }
+        const runtimeMs = Math.round((performance.now() - startTime) * 100) / 100
+
+        results.push({
+          caseId: corpusCase.id,
+          parser,
+          runtimeMs,
+          ...this.scoreItems(corpusCase.expectedItems, items, corpusCase.exactNames),
+          ...(error ? { error } : {})
+        })
+      }
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      corpusDir: options.corpusDir || this.getCorpusDir(),
+      caseCount: cases.length,
+      parsers,
+      results,
+      aggregates: parsers.map(parser => this.aggregate(parser, results.filter(result => result.parser === parser)))
+    }
+  }
+
+  /**
+   * 期待する商品と抽出結果を商品名の類似度で対応付けて採点（exactNames は商品名が一致するもののみ）
+   */
+  static scoreItems(
+    expectedItems: CorpusExpectedItem[],
+    actualItems: ParsedCorpusItem[],
+    exactNames: boolean = false
+  ): Omit<CorpusCaseResult, 'caseId' | 'parser' | 'runtimeMs' | 'error'> {
+    const threshold = exactNames ? 1 : NAME_SIMILARITY_THRESHOLD
+
+    // 類似度の高い組から順に1対1で対応付け
+    const pairs: Array<{ expectedIndex: number, actualIndex: number, similarity: number }> = []
+    expectedItems.forEach((expected, expectedIndex) => {
+      actualItems.forEach((actual, actualIndex) => {
+        const similarity = this.nameSimilarity(expected.name, actual.name)
+        if (similarity >= threshold) {
+          pairs.push({ expectedIndex, actualIndex, similarity })
+        }
+      })
+    })
+    pairs.sort((a, b) => b.similarity - a.similarity)
+
+    const matchedExpected = new Map<number, number>()
+    const matchedActual = new Set<number>()
+    for (const pair of pairs) {
+      if (matchedExpected.has(pair.expectedIndex) || matchedActual.has(pair.actualIndex)) continue
+      matchedExpected.set(pair.expectedIndex, pair.actualIndex)
+      matchedActual.add(pair.actualIndex)
+    }
+
+    const wrongPrices: CorpusCaseResult['wrongPrices'] = []
+    matchedExpected.forEach((actualIndex, expectedIndex) => {
+      const expected = expectedItems[expectedIndex]
+      const actual = actualItems[actualIndex]
+      if (actual.price !== expected.price) {
+        wrongPrices.push({ name: expected.name, expected: expected.price, actual: actual.price })
+      }
+    })
+
+    return {
+      ...this.calculateScore(expectedItems.length, actualItems.length, matchedExpected.size, matchedExpected.size - wrongPrices.length),
+      missing: expectedItems.filter((_, index) => !matchedExpected.has(index)).map(item => item.name),
+      unexpected: actualItems.filter((_, index) => !matchedActual.has(index)).map(item => item.name),
+      wrongPrices
+    }
+  }
+
+  /**
+   * 基準レポートとの比較（パーサーごとの指標の差分と、F1が変化したレシート）
+   */
+  static compare(report: GoldenCorpusReport, baseline: GoldenCorpusReport): CorpusComparison[] {
+    return report.aggregates.map(aggregate => {
+      const before = baseline.aggregates.find(baselineAggregate => baselineAggregate.parser === aggregate.parser)
+      const changes = report.results
+        .filter(result => result.parser === aggregate.parser)
+        .map(result => {
+          const baselineResult = baseline.results.find(previous =>
+            previous.parser === result.parser && previous.caseId === result.caseId
+          )
+          return { caseId: result.caseId, before: baselineResult?.f1, after: result.f1 }
+        })
+        .filter((change): change is { caseId: string, before: number, after: number } =>
+          change.before !== undefined && change.before !== change.after
+        )
+
+      return {
+        parser: aggregate.parser,
+        precision: this.round(aggregate.precision - (before?.precision || 0)),
+        recall: this.round(aggregate.recall - (before?.recall || 0)),
+        f1: this.round(aggregate.f1 - (before?.f1 || 0)),
+        priceAccuracy: this.round(aggregate.priceAccuracy - (before?.priceAccuracy || 0)),
+        averageRuntimeMs: this.round(aggregate.averageRuntimeMs - (before?.averageRuntimeMs || 0)),
+        regressions: changes.filter(change => change.after < change.before),
+        improvements: changes.filter(change => change.after > change.before)
+      }
+    })
+  }
+
+  /**
+   * レポートから基準値を作成（既存の基準値があれば、レポートに含まれるレシート・パーサーのみ置き換える）
+   */
+  static createBaseline(report: GoldenCorpusReport, previous?: CorpusBaseline): CorpusBaseline {
+    const cases: CorpusBaseline['cases'] = { ...previous?.cases }
+    report.results.forEach(result => {
+      cases[result.caseId] = {
+        ...cases[result.caseId],
+        [result.parser]: { f1: result.f1, priceAccuracy: result.priceAccuracy }
+      }
+    })
+
+    return { cases }
+  }
+
+  /**
+   * 基準値を下回ったレシート・パーサー（基準値のない組は対象外）
+   */
+  static checkBaseline(report: GoldenCorpusReport, baseline: CorpusBaseline): CorpusBaselineRegression[] {
+    return report.results.flatMap(result => {
+      const expected = baseline.cases[result.caseId]?.[result.parser]
+      if (!expected) return []
+
+      return (['f1', 'priceAccuracy'] as const)
+        .filter(metric => result[metric] < expected[metric])
+        .map(metric => ({ caseId: result.caseId, parser: result.parser, metric, expected: expected[metric], actual: result[metric] }))
+    })
+  }
+
+  /**
+   * 正解データのOCRテキスト（フィクスチャは単語の座標から行を再構築）
+   */
+  private static async resolveText(corpusCase: GoldenCorpusCase): Promise<string> {
+    if (corpusCase.text) return corpusCase.text
+
+    const fixturePath = path.join(RecordReplayOCREngine.getFixturesDir(), corpusCase.fixture!)
+    const fixture = JSON.parse(await readFile(fixturePath, 'utf-8')) as OCRFixture
+
+    return fixture.result.words.length > 0
+      ? LineReconstructor.toText(LineReconstructor.reconstruct(fixture.result.words))
+      : fixture.result.text
+  }
+
+  private static async runParser(parser: string, text: string): Promise<ParsedCorpusItem[]> {
+    const profile = STORE_PROFILES.find(storeProfile => storeProfile.id === parser)
+    // 専用パーサーにも EnhancedOCRService と同じく正規化したテキストを渡す
+    if (profile) {
+      return profile.parse(TextNormalizer.normalize(text))
+    }
+
+    switch (parser) {
+      case 'json-config':
+        return new JsonConfigReceiptParser().parse(TextNormalizer.normalize(text))
+      case 'fallback':
+        return (await new EnhancedOCRService().processText(text, FALLBACK_ONLY_OPTIONS, 'image')).items
+      case 'enhanced':
+        return (await new EnhancedOCRService().processText(text, {}, 'image')).items
+      default:
+        throw new Error(`未対応のパーサーです: ${parser}`)
+    }
+  }
+
+  /**
+   * パーサーごとの集計（全レシートの商品数を合算して算出）
+   */
+  private static aggregate(parser: string, results: CorpusCaseResult[]): CorpusAggregate {
+    const sum = (key: 'expected' | 'actual' | 'matched' | 'correctPrices' | 'runtimeMs') =>
+      results.reduce((total, result) => total + result[key], 0)
+    const runtimeMs = this.round(sum('runtimeMs'))
+
+    return {
+      parser,
+      cases: results.length,
+      errors: results.filter(result => result.error).length,
+      runtimeMs,
+      averageRuntimeMs: results.length > 0 ? this.round(runtimeMs / results.length) : 0,
+      ...this.calculateScore(sum('expected'), sum('actual'), sum('matched'), sum('correctPrices'))
+    }
+  }
+
+  private static calculateScore(expected: number, actual: number, matched: number, correctPrices: number): CorpusItemScore {
+    const precision = actual > 0 ? matched / actual : 1
+    const recall = expected > 0 ? matched / expected : 1
+    const f1 = precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0
+
+    return {
+      expected,
+      actual,
+      matched,
+      correctPrices,
+      precision: this.round(precision),
+      recall: this.round(recall),
+      f1: this.round(f1),
+      priceAccuracy: this.round(matched > 0 ? correctPrices / matched : 0)
+    }
+  }
+
+  /**
+   * 商品名の類似度（記号・空白・全角半角の違いを無視）
+   */
+  private static nameSimilarity(a: string, b: string): number {
+    const normalizedA = this.normalizeName(a)
+    const normalizedB = this.normalizeName(b)
+
+    const maxLength = Math.max(normalizedA.length, normalizedB.length)
+    if (maxLength === 0) return 0
+
+    return (maxLength - OCRCommonUtils.levenshteinDistance(normalizedA, normalizedB)) / maxLength
+  }
+
+  private static normalizeName(name: string): string {
+    return name.normalize('NFKC').toLowerCase().replace(/[\s*※◎・]/g, '')
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 1000) / 1000
+  }
+}
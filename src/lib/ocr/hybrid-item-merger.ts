@@ -0,0 +1,360 @@
+import { ExtractedItem, ItemFieldSource, ItemProvenance } from '@/types/ocr-patterns'
+import { OCRCommonUtils } from './common-utils'
+
+export type HybridMergeStrategy = 'best-of-both' | 'document-ai-first' | 'pattern-match-first'
+
+// エンジンごとの結果（行番号は text の行）
+export interface HybridMergeInput {
+  items: ExtractedItem[]
+  text: string
+}
+
+export interface HybridMergeStats {
+  aligned: number // 両方のエンジンで対応付けた商品数
+  conflicts: number // 値が異なり、信頼度で選んだ項目数
+  documentAIOnly: number
+  patternMatchOnly: number
+}
+
+interface SourcedItem {
+  item: ExtractedItem
+  source: ItemFieldSource
+  span: string // 商品の元の行（正規化済み）
+  position: number | null // テキスト内の相対位置（0〜1）
+}
+
+type MergedField = 'name' | 'price' | 'quantity'
+
+// 対応付けの重み（元の行の一致・価格の一致・位置の近さ）
+const ALIGNMENT_WEIGHTS = { text: 0.6, price: 0.25, position: 0.15 }
+const MIN_ALIGNMENT_SCORE = 0.5
+// 片方の商品名が不完全な場合（「2コX単」等）の信頼度の減点
+const SUSPICIOUS_NAME_PENALTY = 0.3
+// 優先側の値を他方が上回るのに必要な信頼度の差
+const PREFERRED_MARGIN = 0.2
+
+/**
+ * Document AI とパターンマッチの商品の統合
+ * 元の行・テキスト範囲で商品を対応付け、商品名・価格・数量の食い違いは項目ごとに信頼度で解決する
+ * 各項目には出力したエンジンを provenance として記録する
+ */
+export class HybridItemMerger {
+
+  /**
+   * 2つのエンジンの商品を統合
+   * best-of-both: 項目ごとに信頼度の高い方を採用し、対応付けできなかった商品は両方から追加
+   * document-ai-first・pattern-match-first: 優先側の値と商品を採用し、他方からは欠けた値・明らかに信頼度の高い値・高品質な商品のみ補完
+   */
+  static merge(
+    documentAI: HybridMergeInput,
+    patternMatch: HybridMergeInput,
+    strategy: HybridMergeStrategy = 'best-of-both',
+    debugMode: boolean = false
+  ): { items: ExtractedItem[]; stats: HybridMergeStats } {
+    const documentAIItems = this.toSourced(documentAI, 'document-ai')
+    const patternMatchItems = this.toSourced(patternMatch, 'pattern-match')
+    const preferred = this.preferredSource(strategy)
+
+    const pairs = this.align(documentAIItems, patternMatchItems)
+    const alignedDocumentAI = new Set(pairs.map(([documentAIIndex]) => documentAIIndex))
+    const alignedPatternMatch = new Set(pairs.map(([, patternMatchIndex]) => patternMatchIndex))
+
+    const stats: HybridMergeStats = { aligned: pairs.length, conflicts: 0, documentAIOnly: 0, patternMatchOnly: 0 }
+    const merged: Array<{ item: ExtractedItem; position: number | null }> = []
+
+    pairs.forEach(([documentAIIndex, patternMatchIndex]) => {
+      const { item, conflicts } = this.mergePair(documentAIItems[documentAIIndex], patternMatchItems[patternMatchIndex], preferred)
+      stats.conflicts += conflicts
+      merged.push({ item, position: documentAIItems[documentAIIndex].position ?? patternMatchItems[patternMatchIndex].position })
+
+      if (debugMode && conflicts > 0) {
+        console.log(`🔀 項目の食い違いを解決: ${item.name}`, item.provenance)
+      }
+    })
+
+    // 対応付けできなかった商品（優先側はすべて、他方は高品質なもののみ）
+    const addUnaligned = (sourced: SourcedItem[], aligned: Set<number>) => {
+      sourced.forEach((entry, index) => {
+        if (aligned.has(index) || !entry.item.price || entry.item.price <= 0) return
+        if (preferred && entry.source !== preferred && !this.isHighQualityItem(entry.item)) return
+
+        merged.push({ item: this.withSingleSource(entry), position: entry.position })
+        if (entry.source === 'document-ai') stats.documentAIOnly++
+        else stats.patternMatchOnly++
+      })
+    }
+    addUnaligned(documentAIItems, alignedDocumentAI)
+    addUnaligned(patternMatchItems, alignedPatternMatch)
+
+    // レシート上の順序に並べる（位置が不明な商品は末尾）
+    const items = merged
+      .map((entry, order) => ({ ...entry, order }))
+      .sort((a, b) => (a.position ?? 1 + a.order) - (b.position ?? 1 + b.order) || a.order - b.order)
+      .map(entry => entry.item)
+
+    if (debugMode) {
+      console.log('🔀 マージ詳細:', { strategy, ...stats, finalItemCount: items.length })
+    }
+
+    return { items, stats }
+  }
+
+  /**
+   * 商品アイテムの品質判定
+   */
+  static isHighQualityItem(item: ExtractedItem): boolean {
+    return item.confidence > 0.7 &&
+           item.name.length >= 2 &&
+           (item.price ?? 0) > 0 &&
+           !item.name.includes('X単') &&
+           !/^[A-Z0-9\s]+$/.test(item.name)
+  }
+
+  /**
+   * 商品の対応付け（スコアの高い組から順に1対1で確定）
+   */
+  private static align(documentAIItems: SourcedItem[], patternMatchItems: SourcedItem[]): Array<[number, number]> {
+    const candidates: Array<{ documentAIIndex: number; patternMatchIndex: number; score: number }> = []
+    documentAIItems.forEach((documentAIItem, documentAIIndex) => {
+      patternMatchItems.forEach((patternMatchItem, patternMatchIndex) => {
+        const score = this.alignmentScore(documentAIItem, patternMatchItem)
+        if (score >= MIN_ALIGNMENT_SCORE) {
+          candidates.push({ documentAIIndex, patternMatchIndex, score })
+        }
+      })
+    })
+
+    const usedDocumentAI = new Set<number>()
+    const usedPatternMatch = new Set<number>()
+    const pairs: Array<[number, number]> = []
+
+    candidates
+      .sort((a, b) => b.score - a.score)
+      .forEach(({ documentAIIndex, patternMatchIndex }) => {
+        if (usedDocumentAI.has(documentAIIndex) || usedPatternMatch.has(patternMatchIndex)) return
+        usedDocumentAI.add(documentAIIndex)
+        usedPatternMatch.add(patternMatchIndex)
+        pairs.push([documentAIIndex, patternMatchIndex])
+      })
+
+    return pairs.sort((a, b) => a[0] - b[0])
+  }
+
+  /**
+   * 対応付けた2つの商品を項目ごとに統合
+   */
+  private static mergePair(
+    documentAI: SourcedItem,
+    patternMatch: SourcedItem,
+    preferred: ItemFieldSource | null
+  ): { item: ExtractedItem; conflicts: number } {
+    const provenance: ItemProvenance = { name: 'document-ai' }
+    const values: Partial<Pick<ExtractedItem, MergedField>> = {}
+    let conflicts = 0
+
+    const fields: MergedField[] = ['name', 'price', 'quantity']
+    fields.forEach(field => {
+      const resolved = this.resolveField(field, documentAI, patternMatch, preferred)
+      if (!resolved) return
+      if (resolved.conflict) conflicts++
+      provenance[field] = resolved.source
+      Object.assign(values, { [field]: resolved.value })
+    })
+
+    // 統合した値以外（カテゴリ・税率等）は商品名を採用した側の商品を基にする
+    const base = provenance.name === 'document-ai' ? documentAI.item : patternMatch.item
+    const other = base === documentAI.item ? patternMatch.item : documentAI.item
+
+    return {
+      item: {
+        ...other,
+        ...base,
+        ...values,
+        name: values.name ?? base.name,
+        // 両方のエンジンで一致した場合は信頼度を高める
+        confidence: conflicts === 0
+          ? Math.max(documentAI.item.confidence, patternMatch.item.confidence)
+          : base.confidence,
+        sourcePattern: `${base.sourcePattern}-merged`,
+        provenance,
+        metadata: {
+          ...other.metadata,
+          ...base.metadata,
+          mergedFrom: `${documentAI.item.sourcePattern}+${patternMatch.item.sourcePattern}`
+        }
+      },
+      conflicts
+    }
+  }
+
+  /**
+   * 1つの項目の値を選択
+   * 片方にしかない値はその値、それ以外は信頼度の高い側（優先側がある場合は、他方が明らかに高い場合のみ他方）
+   */
+  private static resolveField(
+    field: MergedField,
+    documentAI: SourcedItem,
+    patternMatch: SourcedItem,
+    preferred: ItemFieldSource | null
+  ): { value: string | number; source: ItemFieldSource; conflict: boolean } | null {
+    const documentAIValue = this.fieldValue(documentAI.item, field)
+    const patternMatchValue = this.fieldValue(patternMatch.item, field)
+
+    if (documentAIValue === undefined && patternMatchValue === undefined) return null
+    if (patternMatchValue === undefined) return { value: documentAIValue!, source: 'document-ai', conflict: false }
+    if (documentAIValue === undefined) return { value: patternMatchValue, source: 'pattern-match', conflict: false }
+
+    const documentAIConfidence = this.fieldConfidence(documentAI.item, field)
+    const patternMatchConfidence = this.fieldConfidence(patternMatch.item, field)
+    const conflict = !this.sameValue(field, documentAIValue, patternMatchValue)
+
+    let source: ItemFieldSource = patternMatchConfidence > documentAIConfidence ? 'pattern-match' : 'document-ai'
+    if (preferred) {
+      const preferredConfidence = preferred === 'document-ai' ? documentAIConfidence : patternMatchConfidence
+      const otherConfidence = preferred === 'document-ai' ? patternMatchConfidence : documentAIConfidence
+      source = otherConfidence - preferredConfidence > PREFERRED_MARGIN
+        ? (preferred === 'document-ai' ? 'pattern-match' : 'document-ai')
+        : preferred
+    }
+
+    return {
+      value: source === 'document-ai' ? documentAIValue : patternMatchValue,
+      source,
+      conflict
+    }
+  }
+
+  /**
+   * 統合に使える値（価格0・空の商品名は値なしとする）
+   */
+  private static fieldValue(item: ExtractedItem, field: MergedField): string | number | undefined {
+    switch (field) {
+      case 'name':
+        return item.name.trim() || undefined
+      case 'price':
+        return item.price && item.price > 0 ? item.price : undefined
+      case 'quantity':
+        return item.quantity && item.quantity > 0 ? item.quantity : undefined
+    }
+  }
+
+  /**
+   * 項目ごとの信頼度（Document AI は項目ごとの値、なければ商品の信頼度）
+   */
+  private static fieldConfidence(item: ExtractedItem, field: MergedField): number {
+    const fieldValue = item.metadata?.[`${field}Confidence`]
+    const confidence = typeof fieldValue === 'number' ? fieldValue : item.confidence
+
+    if (field === 'name' && !this.isCompleteName(item.name)) {
+      return confidence - SUSPICIOUS_NAME_PENALTY
+    }
+    return confidence
+  }
+
+  private static sameValue(field: MergedField, a: string | number, b: string | number): boolean {
+    if (field === 'name') return this.normalize(String(a)) === this.normalize(String(b))
+    return Math.abs(Number(a) - Number(b)) < 0.005
+  }
+
+  /**
+   * 2つの商品の対応付けスコア（0〜1）
+   */
+  private static alignmentScore(a: SourcedItem, b: SourcedItem): number {
+    const textSimilarity = Math.max(
+      this.diceCoefficient(a.span, b.span),
+      this.diceCoefficient(this.normalize(a.item.name), this.normalize(b.item.name))
+    )
+    const samePrice = a.item.price !== undefined && b.item.price !== undefined &&
+      Math.abs(a.item.price - b.item.price) < 0.005 ? 1 : 0
+    // 位置が不明な場合は中間値
+    const proximity = a.position !== null && b.position !== null
+      ? Math.max(0, 1 - Math.abs(a.position - b.position) * 5)
+      : 0.5
+
+    return ALIGNMENT_WEIGHTS.text * textSimilarity +
+      ALIGNMENT_WEIGHTS.price * samePrice +
+      ALIGNMENT_WEIGHTS.position * proximity
+  }
+
+  /**
+   * 商品に元の行と相対位置を付与
+   */
+  private static toSourced(input: HybridMergeInput, source: ItemFieldSource): SourcedItem[] {
+    const lines = OCRCommonUtils.splitLines(input.text)
+
+    return input.items.map(item => {
+      const lineNumbers = (item.lineNumbers || []).filter(line => line >= 0 && line < lines.length)
+      const span = lineNumbers.length > 0
+        ? lineNumbers.map(line => lines[line]).join(' ')
+        : item.name
+
+      return {
+        item,
+        source,
+        span: this.normalize(span),
+        position: lineNumbers.length > 0 && lines.length > 1 ? Math.min(...lineNumbers) / (lines.length - 1) : null
+      }
+    })
+  }
+
+  /**
+   * 対応付けできなかった商品（全項目が片方のエンジンの値）
+   */
+  private static withSingleSource(entry: SourcedItem): ExtractedItem {
+    return {
+      ...entry.item,
+      sourcePattern: `${entry.item.sourcePattern}-${entry.source}`,
+      provenance: {
+        name: entry.source,
+        price: entry.item.price !== undefined ? entry.source : undefined,
+        quantity: entry.item.quantity !== undefined ? entry.source : undefined
+      }
+    }
+  }
+
+  private static preferredSource(strategy: HybridMergeStrategy): ItemFieldSource | null {
+    switch (strategy) {
+      case 'document-ai-first':
+        return 'document-ai'
+      case 'pattern-match-first':
+        return 'pattern-match'
+      default:
+        return null
+    }
+  }
+
+  private static isCompleteName(name: string): boolean {
+    return name.length >= 3 && !name.includes('X') && !name.includes('単') && !/^[A-Z0-9\s]+$/.test(name)
+  }
+
+  private static normalize(text: string): string {
+    return text.normalize('NFKC').toLowerCase().replace(/[\s*※¥$,]/g, '')
+  }
+
+  /**
+   * 文字バイグラムのDice係数
+   */
+  private static diceCoefficient(a: string, b: string): number {
+    if (!a || !b) return 0
+    if (a === b) return 1
+
+    const bigrams = (text: string) => {
+      const result = new Map<string, number>()
+      for (let i = 0; i < text.length - 1; i++) {
+        const bigram = text.slice(i, i + 2)
+        result.set(bigram, (result.get(bigram) || 0) + 1)
+      }
+      return result
+    }
+
+    const aBigrams = bigrams(a)
+    const bBigrams = bigrams(b)
+    let common = 0
+    aBigrams.forEach((count, bigram) => {
+      common += Math.min(count, bBigrams.get(bigram) || 0)
+    })
+
+    const total = Math.max(a.length - 1, 0) + Math.max(b.length - 1, 0)
+    return total > 0 ? (2 * common) / total : 0
+  }
+}
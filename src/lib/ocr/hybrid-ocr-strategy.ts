@@ -1,13 +1,16 @@
 import { ExtractedItem } from '@/types/ocr-patterns'
 import { DocumentAIService, DocumentAIResult } from './document-ai-service'
+import { OCREngineName } from './ocr-engine'
+import { HybridItemMerger, HybridMergeStats, HybridMergeStrategy } from './hybrid-item-merger'
 
 export interface HybridOCROptions {
   debugMode?: boolean
   enableQualityAssessment?: boolean
   fallbackThreshold?: number
-  mergeStrategy?: 'best-of-both' | 'document-ai-first' | 'pattern-match-first'
+  mergeStrategy?: HybridMergeStrategy
   confidenceThreshold?: number
   itemCountThreshold?: number
+  ocrEngine?: OCREngineName
 }
 
 export interface QualityMetrics {
@@ -30,6 +33,7 @@ export interface HybridResult {
     qualityScore: number
     methodsUsed: string[]
     confidence: number
+    mergeStats?: HybridMergeStats // 両方の結果を統合した場合の内訳
   }
 }
 
@@ -41,8 +45,8 @@ export class HybridOCRStrategy {
   private documentAI: DocumentAIService | null = null
 
   constructor(private options: HybridOCROptions = {}) {
-    // Document AI が利用可能な場合のみ初期化
-    if (process.env.USE_DOCUMENT_AI === 'true' && process.env.DOCUMENT_AI_PROCESSOR_ID) {
+    // Document AI が利用可能な場合のみ初期化（オフラインエンジン指定時は使用しない）
+    if (process.env.USE_DOCUMENT_AI === 'true' && process.env.DOCUMENT_AI_PROCESSOR_ID && options.ocrEngine !== 'tesseract') {
       try {
         this.documentAI = new DocumentAIService({
           processorId: process.env.DOCUMENT_AI_PROCESSOR_ID,
@@ -90,8 +94,8 @@ export class HybridOCRStrategy {
               console.log('📊 Document AI品質評価:', qualityMetrics)
             }
 
-            // Step 3: 品質が十分高い場合はDocument AI結果を採用
-            if (!qualityMetrics.recommendsFallback) {
+            // Step 3: 品質が十分高い場合はDocument AI結果を採用（パターンマッチ優先の場合は常に両方を実行）
+            if (!qualityMetrics.recommendsFallback && this.options.mergeStrategy !== 'pattern-match-first') {
               primaryMethod = 'document-ai'
               
               if (debugMode) {
@@ -140,6 +144,16 @@ export class HybridOCRStrategy {
           Date.now() - startTime,
           true
         )
+      } else if (documentAIResult?.success) {
+        // Document AIのみ成功（パターンマッチ優先でもパターンマッチが失敗した場合）
+        return this.buildHybridResult(
+          documentAIResult,
+          null,
+          'document-ai',
+          documentAIResult.metadata.confidence,
+          Date.now() - startTime,
+          true
+        )
       } else {
         // 両方失敗
         throw new Error('Both Document AI and pattern matching failed')
@@ -304,7 +318,8 @@ export class HybridOCRStrategy {
         useImprovedProcessor: true,
         applyEmergencyFixes: true,
         useReceiptSpecificFixes: true,
-        confidenceThreshold: 0.3
+        confidenceThreshold: 0.3,
+        ocrEngine: this.options.ocrEngine
       })
 
     } catch (error) {
@@ -335,23 +350,19 @@ export class HybridOCRStrategy {
     }
 
     const mergeStrategy = this.options.mergeStrategy || 'best-of-both'
-    let mergedItems: ExtractedItem[] = []
-    let primaryMethod: 'document-ai' | 'pattern-match' | 'merged' = 'merged'
+    const { items: mergedItems, stats: mergeStats } = HybridItemMerger.merge(
+      { items: documentAIResult.items, text: documentAIResult.extractedText },
+      { items: patternMatchResult.items, text: patternMatchResult.extractedText || '' },
+      mergeStrategy,
+      debugMode
+    )
 
-    switch (mergeStrategy) {
-      case 'best-of-both':
-        mergedItems = this.mergeBestOfBoth(documentAIResult.items, patternMatchResult.items, debugMode)
-        break
-      
-      case 'document-ai-first':
-        mergedItems = documentAIResult.items.length > 0 ? documentAIResult.items : patternMatchResult.items
-        primaryMethod = documentAIResult.items.length > 0 ? 'document-ai' : 'pattern-match'
-        break
-      
-      case 'pattern-match-first':
-        mergedItems = patternMatchResult.items.length > 0 ? patternMatchResult.items : documentAIResult.items
-        primaryMethod = patternMatchResult.items.length > 0 ? 'pattern-match' : 'document-ai'
-        break
+    // 優先側に商品がない場合は他方が主な結果
+    let primaryMethod: 'document-ai' | 'pattern-match' | 'merged' = 'merged'
+    if (mergeStrategy === 'document-ai-first') {
+      primaryMethod = documentAIResult.items.length > 0 ? 'document-ai' : 'pattern-match'
+    } else if (mergeStrategy === 'pattern-match-first') {
+      primaryMethod = patternMatchResult.items.length > 0 ? 'pattern-match' : 'document-ai'
     }
 
     // 品質スコア計算
@@ -365,9 +376,13 @@ export class HybridOCRStrategy {
       })
     }
 
+    const extractedText = primaryMethod === 'pattern-match'
+      ? patternMatchResult.extractedText || documentAIResult.extractedText
+      : documentAIResult.extractedText || patternMatchResult.extractedText
+
     return {
       success: true,
-      extractedText: documentAIResult.extractedText || patternMatchResult.extractedText,
+      extractedText,
       items: mergedItems,
       metadata: {
         processingTime: totalProcessingTime,
@@ -375,76 +390,10 @@ export class HybridOCRStrategy {
         fallbackUsed: true,
         qualityScore,
         methodsUsed: ['document-ai', 'pattern-match', 'merge'],
-        confidence: qualityScore
-      }
-    }
-  }
-
-  /**
-   * 両方の結果から最良の商品を選択してマージ
-   */
-  private mergeBestOfBoth(
-    documentAIItems: ExtractedItem[],
-    patternMatchItems: ExtractedItem[],
-    debugMode: boolean = false
-  ): ExtractedItem[] {
-    const merged: ExtractedItem[] = []
-    const usedPrices = new Set<number>()
-
-    // Document AI結果から高品質な商品を選択
-    documentAIItems.forEach(item => {
-      if (this.isHighQualityItem(item) && !usedPrices.has(item.price)) {
-        merged.push({
-          ...item,
-          sourcePattern: item.sourcePattern + '-document-ai'
-        })
-        usedPrices.add(item.price)
-      }
-    })
-
-    // パターンマッチ結果から補完
-    patternMatchItems.forEach(item => {
-      if (this.isHighQualityItem(item) && !usedPrices.has(item.price)) {
-        merged.push({
-          ...item,
-          sourcePattern: item.sourcePattern + '-pattern-match'
-        })
-        usedPrices.add(item.price)
-      }
-    })
-
-    // 残りの商品も追加（重複チェック付き）
-    const allItems = [...documentAIItems, ...patternMatchItems]
-    allItems.forEach(item => {
-      if (!usedPrices.has(item.price) && item.price > 0) {
-        merged.push({
-          ...item,
-          sourcePattern: item.sourcePattern + '-fallback'
-        })
-        usedPrices.add(item.price)
+        confidence: qualityScore,
+        mergeStats
       }
-    })
-
-    if (debugMode) {
-      console.log('🔀 マージ詳細:', {
-        documentAIContribution: merged.filter(i => i.sourcePattern?.includes('document-ai')).length,
-        patternMatchContribution: merged.filter(i => i.sourcePattern?.includes('pattern-match')).length,
-        fallbackContribution: merged.filter(i => i.sourcePattern?.includes('fallback')).length
-      })
     }
-
-    return merged
-  }
-
-  /**
-   * 商品アイテムの品質判定
-   */
-  private isHighQualityItem(item: ExtractedItem): boolean {
-    return item.confidence > 0.7 &&
-           item.name.length >= 2 &&
-           item.price > 0 &&
-           !item.name.includes('X単') &&
-           !/^[A-Z0-9\s]+$/.test(item.name)
   }
 
   /**
@@ -458,7 +407,7 @@ export class HybridOCRStrategy {
     const documentAIScore = documentAIResult.metadata.confidence * 0.4
     const patternMatchScore = (patternMatchResult.metadata?.confidence || 0.5) * 0.3
     const mergeBonus = mergedItems.length > Math.max(documentAIResult.items.length, patternMatchResult.items.length) ? 0.2 : 0.1
-    const qualityBonus = mergedItems.filter(item => this.isHighQualityItem(item)).length / Math.max(mergedItems.length, 1) * 0.1
+    const qualityBonus = mergedItems.filter(item => HybridItemMerger.isHighQualityItem(item)).length / Math.max(mergedItems.length, 1) * 0.1
 
     return Math.min(1, documentAIScore + patternMatchScore + mergeBonus + qualityBonus)
   }
@@ -0,0 +1,557 @@
+import type { Sharp } from 'sharp'
+import { IMAGE_CONFIG } from '@/constants/appConstants'
+import { OCREngineName } from './ocr-engine'
+import { TiledOCR } from './tiled-ocr'
+
+export type PreprocessStep = 'rotate' | 'crop' | 'perspective' | 'deskew' | 'resize' | 'normalize' | 'threshold'
+
+export const PREPROCESS_STEPS: readonly PreprocessStep[] = [
+  'rotate', 'crop', 'perspective', 'deskew', 'resize', 'normalize', 'threshold'
+]
+
+export interface PreprocessOptions {
+  steps?: PreprocessStep[]
+  maxSize?: number // resize ステップの長辺上限（縦長画像は幅の上限）
+  keepIntermediates?: boolean // 各ステップの中間画像を保持（デバッグ用）
+  debugMode?: boolean
+}
+
+export interface PreprocessStepResult {
+  step: PreprocessStep
+  applied: boolean
+  width: number
+  height: number
+  processingTime: number
+  details?: Record<string, number | string | boolean>
+  image?: Buffer // keepIntermediates 指定時のみ（PNG）
+}
+
+export interface PreprocessResult {
+  buffer: Buffer
+  mimeType: 'image/jpeg' | 'image/png'
+  width: number
+  height: number
+  steps: PreprocessStepResult[]
+}
+
+interface GrayImage {
+  data: Uint8Array
+  width: number
+  height: number
+}
+
+interface Point {
+  x: number
+  y: number
+}
+
+// 解析用の縮小画像サイズと作業画像の上限
+const ANALYSIS_SIZE = 400
+const WORKING_MAX_SIZE = 2400
+
+/**
+ * sharpによるOCR前処理パイプライン
+ * EXIF回転 → レシート領域の切り出し → 透視補正 → 傾き補正 → 縮小 → コントラスト正規化 → 適応的二値化
+ */
+export class ImagePreprocessor {
+
+  /**
+   * エンジンごとの既定ステップ
+   * クラウドOCRは自然画像の方が精度が高いため二値化はTesseractのみ
+   */
+  static defaultSteps(engine?: OCREngineName): PreprocessStep[] {
+    const configured = process.env.OCR_PREPROCESS_STEPS
+    if (configured) {
+      return this.parseSteps(configured)
+    }
+
+    return engine === 'tesseract'
+      ? ['rotate', 'crop', 'perspective', 'deskew', 'resize', 'normalize', 'threshold']
+      : ['rotate', 'crop', 'perspective', 'deskew', 'resize']
+  }
+
+  /**
+   * カンマ区切りのステップ指定を解析
+   */
+  static parseSteps(value: string): PreprocessStep[] {
+    return value
+      .split(',')
+      .map(step => step.trim())
+      .filter((step): step is PreprocessStep => (PREPROCESS_STEPS as readonly string[]).includes(step))
+  }
+
+  /**
+   * 前処理を実行
+   */
+  static async process(input: Buffer, options: PreprocessOptions = {}): Promise<PreprocessResult> {
+    const sharp = (await import('sharp')).default
+    const steps = options.steps || this.defaultSteps()
+    const maxSize = options.maxSize || 1200
+    const results: PreprocessStepResult[] = []
+
+    let current = input
+    let binarized = false
+
+    // パイプライン順に実行（指定順序に関わらず）
+    for (const step of PREPROCESS_STEPS) {
+      if (!steps.includes(step)) continue
+
+      const startTime = Date.now()
+      let applied = true
+      let details: PreprocessStepResult['details']
+
+      switch (step) {
+        case 'rotate': {
+          // EXIF回転を適用し、巨大な画像は作業サイズに縮小
+          current = await this.limitSize(await this.encode(sharp(current).rotate()), WORKING_MAX_SIZE)
+          break
+        }
+        case 'crop': {
+          const box = await this.detectReceiptBounds(current)
+          if (box) {
+            current = await this.encode(sharp(current).extract(box))
+            details = { ...box }
+          } else {
+            applied = false
+          }
+          break
+        }
+        case 'perspective': {
+          const warped = await this.correctPerspective(current)
+          if (warped) {
+            current = warped.buffer
+            details = warped.details
+          } else {
+            applied = false
+          }
+          break
+        }
+        case 'deskew': {
+          const angle = await this.detectSkewAngle(current)
+          if (Math.abs(angle) >= 0.5) {
+            current = await this.encode(sharp(current).rotate(-angle, { background: '#ffffff' }))
+            details = { angle }
+          } else {
+            applied = false
+            details = { angle }
+          }
+          break
+        }
+        case 'resize': {
+          current = await this.limitSize(current, maxSize)
+          break
+        }
+        case 'normalize': {
+          const metadata = await sharp(current).metadata()
+          const region = Math.max(8, Math.round(Math.min(metadata.width || 0, metadata.height || 0) / 8))
+          current = await this.encode(sharp(current)
+            .greyscale()
+            .normalise()
+            .clahe({ width: region, height: region, maxSlope: 3 }))
+          break
+        }
+        case 'threshold': {
+          current = await this.adaptiveThreshold(current)
+          binarized = true
+          break
+        }
+      }
+
+      const metadata = await sharp(current).metadata()
+      results.push({
+        step,
+        applied,
+        width: metadata.width || 0,
+        height: metadata.height || 0,
+        processingTime: Date.now() - startTime,
+        details,
+        image: options.keepIntermediates ? current : undefined
+      })
+
+      if (options.debugMode) {
+        console.log(`🖼️ 前処理 ${step}: ${applied ? '適用' : 'スキップ'} ${metadata.width}x${metadata.height}`, details || '')
+      }
+    }
+
+    // 二値化画像はPNG、それ以外は従来通りJPEGで出力
+    const output = binarized
+      ? await sharp(current).png().toBuffer({ resolveWithObject: true })
+      : await sharp(current).jpeg({ quality: 85 }).sharpen().toBuffer({ resolveWithObject: true })
+
+    return {
+      buffer: output.data,
+      mimeType: binarized ? 'image/png' : 'image/jpeg',
+      width: output.info.width,
+      height: output.info.height,
+      steps: results
+    }
+  }
+
+  /**
+   * レシート（明るい紙）の領域を検出
+   * 縮小画像を大津の二値化で分け、明るい画素が多い行・列の最長区間を採用する
+   */
+  private static async detectReceiptBounds(image: Buffer): Promise<{ left: number; top: number; width: number; height: number } | null> {
+    const { gray, scale, fullWidth, fullHeight } = await this.loadAnalysisImage(image)
+    const threshold = this.otsuThreshold(gray.data)
+
+    const columnRatios = new Array(gray.width).fill(0)
+    for (let y = 0; y < gray.height; y++) {
+      for (let x = 0; x < gray.width; x++) {
+        if (gray.data[y * gray.width + x] > threshold) columnRatios[x]++
+      }
+    }
+    const columns = this.longestRun(columnRatios.map(count => count / gray.height), 0.35, Math.round(gray.width * 0.03))
+    if (!columns) return null
+
+    const rowRatios = new Array(gray.height).fill(0)
+    for (let y = 0; y < gray.height; y++) {
+      for (let x = columns.start; x <= columns.end; x++) {
+        if (gray.data[y * gray.width + x] > threshold) rowRatios[y]++
+      }
+    }
+    const columnWidth = columns.end - columns.start + 1
+    const rows = this.longestRun(rowRatios.map(count => count / columnWidth), 0.35, Math.round(gray.height * 0.05))
+    if (!rows) return null
+
+    // 余白を付けて元画像の座標に変換
+    const marginX = Math.round(columnWidth * 0.02)
+    const marginY = Math.round((rows.end - rows.start + 1) * 0.02)
+    const left = Math.max(0, Math.floor((columns.start - marginX) / scale))
+    const top = Math.max(0, Math.floor((rows.start - marginY) / scale))
+    const right = Math.min(fullWidth, Math.ceil((columns.end + 1 + marginX) / scale))
+    const bottom = Math.min(fullHeight, Math.ceil((rows.end + 1 + marginY) / scale))
+
+    const areaRatio = ((right - left) * (bottom - top)) / (fullWidth * fullHeight)
+    // ほぼ全面（既に切り抜き済み）または小さすぎる領域は切り出さない
+    if (areaRatio > 0.95 || areaRatio < 0.15) return null
+
+    return { left, top, width: right - left, height: bottom - top }
+  }
+
+  /**
+   * 紙の四隅を検出し、台形に写ったレシートを長方形に補正
+   */
+  private static async correctPerspective(image: Buffer): Promise<{ buffer: Buffer; details: Record<string, number> } | null> {
+    const { gray, scale } = await this.loadAnalysisImage(image)
+    const threshold = this.otsuThreshold(gray.data)
+
+    // 四隅: x+y 最小（左上）、x-y 最大（右上）、x+y 最大（右下）、x-y 最小（左下）
+    let topLeft: Point | null = null
+    let topRight: Point | null = null
+    let bottomRight: Point | null = null
+    let bottomLeft: Point | null = null
+
+    for (let y = 0; y < gray.height; y++) {
+      for (let x = 0; x < gray.width; x++) {
+        if (gray.data[y * gray.width + x] <= threshold) continue
+        if (!topLeft || x + y < topLeft.x + topLeft.y) topLeft = { x, y }
+        if (!topRight || x - y > topRight.x - topRight.y) topRight = { x, y }
+        if (!bottomRight || x + y > bottomRight.x + bottomRight.y) bottomRight = { x, y }
+        if (!bottomLeft || x - y < bottomLeft.x - bottomLeft.y) bottomLeft = { x, y }
+      }
+    }
+
+    if (!topLeft || !topRight || !bottomRight || !bottomLeft) return null
+
+    const corners = [topLeft, topRight, bottomRight, bottomLeft].map(point => ({
+      x: point.x / scale,
+      y: point.y / scale
+    }))
+
+    const targetWidth = Math.round(Math.max(this.distance(corners[0], corners[1]), this.distance(corners[3], corners[2])))
+    const targetHeight = Math.round(Math.max(this.distance(corners[0], corners[3]), this.distance(corners[1], corners[2])))
+    if (targetWidth < 50 || targetHeight < 50) return null
+
+    // 外接矩形とのずれが小さければ補正不要
+    const minX = Math.min(...corners.map(corner => corner.x))
+    const maxX = Math.max(...corners.map(corner => corner.x))
+    const minY = Math.min(...corners.map(corner => corner.y))
+    const maxY = Math.max(...corners.map(corner => corner.y))
+    const rectangle = [
+      { x: minX, y: minY }, { x: maxX, y: minY }, { x: maxX, y: maxY }, { x: minX, y: maxY }
+    ]
+    const diagonal = Math.hypot(maxX - minX, maxY - minY)
+    const deviation = Math.max(...corners.map((corner, index) => this.distance(corner, rectangle[index]))) / diagonal
+    if (deviation < 0.03) return null
+
+    const source = await this.loadGray(image)
+    const destination = [
+      { x: 0, y: 0 }, { x: targetWidth - 1, y: 0 },
+      { x: targetWidth - 1, y: targetHeight - 1 }, { x: 0, y: targetHeight - 1 }
+    ]
+    const homography = this.solveHomography(destination, corners)
+    if (!homography) return null
+
+    // 出力画素ごとに元画像の座標を逆算して双線形補間
+    const output = new Uint8Array(targetWidth * targetHeight)
+    for (let y = 0; y < targetHeight; y++) {
+      for (let x = 0; x < targetWidth; x++) {
+        const w = homography[6] * x + homography[7] * y + 1
+        const sx = (homography[0] * x + homography[1] * y + homography[2]) / w
+        const sy = (homography[3] * x + homography[4] * y + homography[5]) / w
+        output[y * targetWidth + x] = this.sampleBilinear(source, sx, sy)
+      }
+    }
+
+    const sharp = (await import('sharp')).default
+    const buffer = await sharp(Buffer.from(output), {
+      raw: { width: targetWidth, height: targetHeight, channels: 1 }
+    }).png().toBuffer()
+
+    return { buffer, details: { deviation: Math.round(deviation * 1000) / 1000, width: targetWidth, height: targetHeight } }
+  }
+
+  /**
+   * 文字行の傾き角度（度）を射影プロファイルで推定
+   * 各角度で文字画素を縦方向に射影し、ヒストグラムの分散が最大になる角度を採用する
+   */
+  private static async detectSkewAngle(image: Buffer): Promise<number> {
+    const { gray } = await this.loadAnalysisImage(image, 600)
+    const threshold = this.otsuThreshold(gray.data)
+
+    const points: Point[] = []
+    for (let y = 0; y < gray.height; y++) {
+      for (let x = 0; x < gray.width; x++) {
+        if (gray.data[y * gray.width + x] < threshold) points.push({ x, y })
+      }
+    }
+    if (points.length < 100) return 0
+
+    let bestAngle = 0
+    let bestScore = -1
+    const binCount = gray.height * 2
+
+    for (let angle = -15; angle <= 15; angle += 0.5) {
+      const tan = Math.tan(angle * Math.PI / 180)
+      const bins = new Array(binCount).fill(0)
+
+      for (const point of points) {
+        const projected = Math.round(point.y - point.x * tan) + gray.height / 2
+        if (projected >= 0 && projected < binCount) bins[Math.floor(projected)]++
+      }
+
+      const score = bins.reduce((sum, count) => sum + count * count, 0)
+      if (score > bestScore) {
+        bestScore = score
+        bestAngle = angle
+      }
+    }
+
+    return bestAngle
+  }
+
+  /**
+   * 積分画像による適応的二値化（Bradley法）
+   * 照明ムラやしわの影がある写真でも文字を残す
+   */
+  private static async adaptiveThreshold(image: Buffer): Promise<Buffer> {
+    const gray = await this.loadGray(image)
+    const { width, height, data } = gray
+    const integral = new Float64Array((width + 1) * (height + 1))
+
+    for (let y = 0; y < height; y++) {
+      let rowSum = 0
+      for (let x = 0; x < width; x++) {
+        rowSum += data[y * width + x]
+        integral[(y + 1) * (width + 1) + (x + 1)] = integral[y * (width + 1) + (x + 1)] + rowSum
+      }
+    }
+
+    const half = Math.max(7, Math.round(Math.max(width, height) / 48))
+    const sensitivity = 0.15
+    const output = new Uint8Array(width * height)
+
+    for (let y = 0; y < height; y++) {
+      const y0 = Math.max(0, y - half)
+      const y1 = Math.min(height - 1, y + half)
+      for (let x = 0; x < width; x++) {
+        const x0 = Math.max(0, x - half)
+        const x1 = Math.min(width - 1, x + half)
+        const count = (x1 - x0 + 1) * (y1 - y0 + 1)
+        const sum = integral[(y1 + 1) * (width + 1) + (x1 + 1)]
+          - integral[y0 * (width + 1) + (x1 + 1)]
+          - integral[(y1 + 1) * (width + 1) + x0]
+          + integral[y0 * (width + 1) + x0]
+
+        output[y * width + x] = data[y * width + x] * count <= sum * (1 - sensitivity) ? 0 : 255
+      }
+    }
+
+    const sharp = (await import('sharp')).default
+    return sharp(Buffer.from(output), { raw: { width, height, channels: 1 } }).png().toBuffer()
+  }
+
+  /**
+   * 解析用にグレースケールの縮小画像を読み込む
+   */
+  private static async loadAnalysisImage(image: Buffer, size: number = ANALYSIS_SIZE): Promise<{
+    gray: GrayImage
+    scale: number
+    fullWidth: number
+    fullHeight: number
+  }> {
+    const sharp = (await import('sharp')).default
+    const metadata = await sharp(image).metadata()
+    const fullWidth = metadata.width || 0
+    const fullHeight = metadata.height || 0
+
+    const gray = await this.loadGray(image, size)
+    return { gray, scale: gray.width / fullWidth, fullWidth, fullHeight }
+  }
+
+  /**
+   * グレースケール1チャンネルの画素配列を取得
+   */
+  private static async loadGray(image: Buffer, maxSize?: number): Promise<GrayImage> {
+    const sharp = (await import('sharp')).default
+    let pipeline: Sharp = sharp(image).greyscale()
+    if (maxSize) {
+      pipeline = pipeline.resize(maxSize, maxSize, { fit: 'inside', withoutEnlargement: true })
+    }
+
+    const { data, info } = await pipeline.raw().toBuffer({ resolveWithObject: true })
+    if (info.channels === 1) {
+      return { data: new Uint8Array(data), width: info.width, height: info.height }
+    }
+
+    // アルファ付き等で複数チャンネルの場合は先頭チャンネルを使用
+    const single = new Uint8Array(info.width * info.height)
+    for (let i = 0; i < single.length; i++) {
+      single[i] = data[i * info.channels]
+    }
+    return { data: single, width: info.width, height: info.height }
+  }
+
+  /**
+   * 画像サイズを制限
+   * 縦長画像は文字が潰れないよう幅のみを制限し、高さはタイル分割OCRに任せる
+   */
+  private static async limitSize(image: Buffer, maxSize: number): Promise<Buffer> {
+    const sharp = (await import('sharp')).default
+    const metadata = await sharp(image).metadata()
+    const isTall = TiledOCR.isTall(metadata.width || 0, metadata.height || 0)
+
+    return this.encode(sharp(image).resize(maxSize, isTall ? IMAGE_CONFIG.MAX_TALL_HEIGHT : maxSize, {
+      fit: 'inside',
+      withoutEnlargement: true
+    }))
+  }
+
+  /**
+   * 中間画像をPNGでエンコード（劣化なしで次のステップへ渡す）
+   */
+  private static async encode(pipeline: Sharp): Promise<Buffer> {
+    return pipeline.png().toBuffer()
+  }
+
+  /**
+   * 大津の方法による二値化しきい値
+   */
+  private static otsuThreshold(data: Uint8Array): number {
+    const histogram = new Array(256).fill(0)
+    data.forEach(value => histogram[value]++)
+
+    const total = data.length
+    const sumAll = histogram.reduce((sum, count, value) => sum + count * value, 0)
+    let sumBackground = 0
+    let weightBackground = 0
+    let bestThreshold = 127
+    let bestVariance = 0
+
+    for (let threshold = 0; threshold < 256; threshold++) {
+      weightBackground += histogram[threshold]
+      if (weightBackground === 0) continue
+      const weightForeground = total - weightBackground
+      if (weightForeground === 0) break
+
+      sumBackground += threshold * histogram[threshold]
+      const meanBackground = sumBackground / weightBackground
+      const meanForeground = (sumAll - sumBackground) / weightForeground
+      const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2
+
+      if (variance > bestVariance) {
+        bestVariance = variance
+        bestThreshold = threshold
+      }
+    }
+
+    return bestThreshold
+  }
+
+  /**
+   * しきい値を超える最長の区間（文字行などによる短い途切れは許容する）
+   */
+  private static longestRun(values: number[], threshold: number, maxGap: number = 0): { start: number; end: number } | null {
+    let best: { start: number; end: number } | null = null
+    let start = -1
+    let lastHit = -1
+
+    values.forEach((value, index) => {
+      if (value < threshold) return
+
+      if (start < 0 || index - lastHit - 1 > maxGap) start = index
+      lastHit = index
+      if (!best || index - start > best.end - best.start) {
+        best = { start, end: index }
+      }
+    })
+
+    return best
+  }
+
+  /**
+   * 4点対応から射影変換行列を求める（dst → src）
+   */
+  private static solveHomography(from: Point[], to: Point[]): number[] | null {
+    const matrix: number[][] = []
+    for (let i = 0; i < 4; i++) {
+      const { x, y } = from[i]
+      const { x: u, y: v } = to[i]
+      matrix.push([x, y, 1, 0, 0, 0, -x * u, -y * u, u])
+      matrix.push([0, 0, 0, x, y, 1, -x * v, -y * v, v])
+    }
+
+    // ガウスの消去法（部分ピボット選択）
+    for (let column = 0; column < 8; column++) {
+      let pivot = column
+      for (let row = column + 1; row < 8; row++) {
+        if (Math.abs(matrix[row][column]) > Math.abs(matrix[pivot][column])) pivot = row
+      }
+      if (Math.abs(matrix[pivot][column]) < 1e-10) return null
+      ;[matrix[column], matrix[pivot]] = [matrix[pivot], matrix[column]]
+
+      for (let row = 0; row < 8; row++) {
+        if (row === column) continue
+        const factor = matrix[row][column] / matrix[column][column]
+        for (let k = column; k < 9; k++) {
+          matrix[row][k] -= factor * matrix[column][k]
+        }
+      }
+    }
+
+    return matrix.map((row, index) => row[8] / row[index])
+  }
+
+  /**
+   * 双線形補間で画素値を取得（範囲外は白）
+   */
+  private static sampleBilinear(image: GrayImage, x: number, y: number): number {
+    if (x < 0 || y < 0 || x > image.width - 1 || y > image.height - 1) return 255
+
+    const x0 = Math.floor(x)
+    const y0 = Math.floor(y)
+    const x1 = Math.min(x0 + 1, image.width - 1)
+    const y1 = Math.min(y0 + 1, image.height - 1)
+    const dx = x - x0
+    const dy = y - y0
+
+    const top = image.data[y0 * image.width + x0] * (1 - dx) + image.data[y0 * image.width + x1] * dx
+    const bottom = image.data[y1 * image.width + x0] * (1 - dx) + image.data[y1 * image.width + x1] * dx
+    return Math.round(top * (1 - dy) + bottom * dy)
+  }
+
+  private static distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.y - b.y)
+  }
+}
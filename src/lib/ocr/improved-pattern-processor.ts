@@ -8,7 +8,8 @@ import {
 import { OCRDebugAnalyzer } from './debug-analyzer'
 import { ProductCategorizer } from './product-categorizer'
 import { ProcessingStageManager } from './processing-stages'
-import { StoreDetector } from './store-detector'
+import { StoreProfileRegistry } from './store-profile-registry'
+import { ScriptDetector } from './script-detector'
 
 export class ImprovedPatternProcessor implements PatternProcessor {
   private debugMode: boolean = false
@@ -22,7 +23,11 @@ export class ImprovedPatternProcessor implements PatternProcessor {
   /**
    * メイン処理 - 段階的パターンマッチング
    */
-  async processText(text: string, patterns: OCRPatternConfig[]): Promise<OCRParseResult> {
+  async processText(
+    text: string,
+    patterns: OCRPatternConfig[],
+    processingOptions: Partial<ReceiptAnalysisContext['processingOptions']> = {}
+  ): Promise<OCRParseResult> {
     const startTime = Date.now()
     const context: ReceiptAnalysisContext = {
       originalText: text,
@@ -30,7 +35,8 @@ export class ImprovedPatternProcessor implements PatternProcessor {
       processingOptions: {
         enableFallback: true,
         maxProcessingTime: 10000,
-        confidenceThreshold: 0.3
+        confidenceThreshold: 0.3,
+        ...processingOptions
       }
     }
 
@@ -57,47 +63,23 @@ export class ImprovedPatternProcessor implements PatternProcessor {
     // パターンの前処理とフィルタリング
     const optimizedPatterns = this.optimizePatterns(patterns, detectedStore)
 
-    let bestResult: OCRParseResult | null = null
-    
-    // 段階的処理実行
-    for (const stage of this.stageManager.getStages()) {
-      if (Date.now() - startTime > context.processingOptions.maxProcessingTime) {
-        if (this.debugMode) console.log(`⏰ タイムアウト: ${stage.name}をスキップ`)
-        break
-      }
-
-      if (this.debugMode) {
-        console.log(`🔄 処理段階: ${stage.name}`)
-      }
-
-      try {
-        const stageResult = await stage.execute(context, optimizedPatterns)
-        
-        if (stageResult.confidence >= context.processingOptions.confidenceThreshold) {
-          if (!bestResult || stageResult.confidence > bestResult.confidence) {
-            bestResult = stageResult
-            bestResult.metadata.primaryStage = stage.name
-          }
+    // 段階的処理実行（段階ごとの持ち時間・信頼度目標での早期終了）
+    const { result: stageResult, trace } = await this.stageManager.run(context, optimizedPatterns)
+    let bestResult = stageResult
 
-          // 高信頼度の結果が得られた場合は早期終了
-          if (stageResult.confidence >= 0.8) {
-            if (this.debugMode) console.log(`✅ 高信頼度結果取得: ${stage.name}`)
-            break
-          }
-        }
-      } catch (error) {
-        if (this.debugMode) console.warn(`❌ 段階 ${stage.name} でエラー:`, error)
-        continue
-      }
+    if (this.debugMode) {
+      trace.forEach(stage => {
+        console.log(`🔄 処理段階: ${stage.name} ${stage.status} ${stage.durationMs}ms / ${stage.budgetMs}ms 商品${stage.itemsFound}件${stage.adopted ? ' (採用)' : ''}${stage.reason ? ` - ${stage.reason}` : ''}`)
+      })
     }
 
     // フォールバック処理
     if (!bestResult && context.processingOptions.enableFallback) {
       if (this.debugMode) console.log('🆘 フォールバック処理実行')
+      const fallbackStart = Date.now()
       bestResult = await this.basicFallbackParsing(text)
-      if (bestResult) {
-        bestResult.metadata.fallbackUsed = true
-      }
+      bestResult.metadata.fallbackUsed = true
+      trace.push(ProcessingStageManager.traceStep('basic-fallback', [], bestResult.items, fallbackStart, ['fallback']))
     }
 
     const finalResult = bestResult || {
@@ -112,8 +94,13 @@ export class ImprovedPatternProcessor implements PatternProcessor {
     }
 
     // 後処理
+    const postProcessStart = Date.now()
+    const itemsBeforePostProcess = finalResult.items
     finalResult.items = this.postProcessItems(finalResult.items)
+    trace.push(ProcessingStageManager.traceStep('post-processing', itemsBeforePostProcess, finalResult.items, postProcessStart))
+
     finalResult.metadata.processingTime = Date.now() - startTime
+    finalResult.metadata.stageTrace = trace
 
     // デバッグ分析
     if (this.debugMode) {
@@ -146,11 +133,7 @@ export class ImprovedPatternProcessor implements PatternProcessor {
    * 店舗タイプの検出
    */
   async detectStoreType(text: string): Promise<string | null> {
-    if (StoreDetector.isWarehouseLike(text)) return 'warehouse'
-    if (StoreDetector.isLifeLike(text)) return 'life'
-    if (StoreDetector.isReceipt2Like(text)) return 'receipt2'
-    if (StoreDetector.isReceipt3Like(text)) return 'receipt3'
-    return null
+    return StoreProfileRegistry.detect(text)?.id || null
   }
 
   /**
@@ -290,7 +273,7 @@ export class ImprovedPatternProcessor implements PatternProcessor {
     
     // 明らかに無効なパターンを除外
     if (/^\d+$/.test(item.name)) return false
-    if (/^[^a-zA-Z\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]+$/.test(item.name)) return false
+    if (!ScriptDetector.hasNameCharacters(item.name)) return false
     
     return true
   }
@@ -1,4 +1,7 @@
 import { ExtractedItem } from '@/types/ocr-patterns'
+import { DiscountProcessor } from './discount-processor'
+import { QuantityPriceParser } from './quantity-price-parser'
+import { WeightPriceParser } from './weight-price-parser'
 
 /**
  * 店舗固有のOCRパターンマッチング
@@ -35,6 +38,9 @@ export class LifePatterns {
     // 空行
     if (!line || line.length === 0) return true
     
+    // 値引行は商品に適用するため残す
+    if (DiscountProcessor.isDiscountLine(line)) return false
+    
     // 店舗情報
     if (/^(ライフ|LIFE|領収証)/.test(line)) return true
     if (/^(No\d+|登録機|レジ\d+)/.test(line)) return true
@@ -73,6 +79,18 @@ export class LifePatterns {
       const line = lines[i].trim()
       console.log(`🔍 店舗固有パターン解析: 行${i}: "${line}"`)
       
+      // 値引・割引行は直前の商品に適用
+      const discount = DiscountProcessor.parseDiscountLine(line, lines[i + 1])
+      if (discount || DiscountProcessor.isDiscountLine(line)) {
+        const lastItem = items[items.length - 1]
+        if (discount && lastItem) {
+          const consumed = discount.consumedNextLine ? [i, i + 1] : [i]
+          DiscountProcessor.applyDiscount(lastItem, discount, consumed, consumed.map(index => lines[index]).join(' '))
+        }
+        if (discount?.consumedNextLine) i++
+        continue
+      }
+      
       // パターン1: インライン形式（*商品名 ¥価格）
       const inlineMatch = line.match(/^\*(.+?)\s+¥(\d{1,5})$/)
       if (inlineMatch) {
@@ -191,35 +209,66 @@ export class LifePatterns {
       
       // パターン3: 数量パターン（前の行が商品名、現在行が数量情報）
       if (i > 0) {
-        const quantityMatch = line.match(/^(\d+)コX単(\d+)$/)
-        if (quantityMatch) {
+        const notation = QuantityPriceParser.parse(line)
+        if (notation && !notation.name && notation.unitPrice !== undefined) {
           const previousLine = lines[i - 1].trim()
-          const quantity = parseInt(quantityMatch[1])
-          const unitPrice = parseInt(quantityMatch[2])
-          const totalPrice = quantity * unitPrice
+          // 次の行の金額と一致すれば検算済みとする
+          const nextPrice = lines[i + 1]?.trim().match(/^¥?([\d,]+)$/)
+          const checked = nextPrice && notation.check === 'derived'
+            ? QuantityPriceParser.reconcile({ ...notation, lineTotal: parseInt(nextPrice[1].replace(/,/g, '')) })
+            : notation
+          const quantityPrice = checked.check === 'verified' ? checked : notation
+          const totalPrice = quantityPrice.lineTotal ?? 0
           
           // 前の行が商品名として適切かチェック
           if (this.isValidProductName(previousLine) && this.isValidPrice(totalPrice)) {
-            console.log(`  ✅ 数量パターン成功: ${previousLine} - ${quantity}コ × ¥${unitPrice} = ¥${totalPrice}`)
-            items.push({
+            console.log(`  ✅ 数量パターン成功: ${previousLine} - ${quantityPrice.quantity}コ × ¥${quantityPrice.unitPrice} = ¥${totalPrice} (${quantityPrice.check})`)
+            items.push(QuantityPriceParser.apply({
               name: previousLine,
               price: totalPrice,
-              quantity: quantity,
               confidence: 0.85,
               sourcePattern: 'store-quantity-pattern',
-              lineNumbers: [i - 1, i],
+              lineNumbers: checked.check === 'verified' ? [i - 1, i, i + 1] : [i - 1, i],
               rawText: `${previousLine} | ${line}`,
               category: this.categorizeProduct(previousLine),
               metadata: {
-                unitPrice: unitPrice,
-                calculatedTotal: true
+                calculatedTotal: quantityPrice.check === 'derived'
               }
-            })
+            }, quantityPrice))
             continue
           }
         }
       }
       
+      // パターン3b: 量り売りパターン（前の行が商品名、現在行が「245g 100g当り198円」）
+      if (i > 0) {
+        const weight = WeightPriceParser.parse(line)
+        if (weight && !weight.name) {
+          const previousLine = lines[i - 1].trim()
+          const productName = previousLine.replace(/^\*/, '').trim()
+          // 次の行の金額を支払額として検算
+          const nextPrice = lines[i + 1]?.trim().match(/^¥?([\d,]+)$/)
+          const weighed = nextPrice && weight.check === 'derived'
+            ? WeightPriceParser.reconcile({ ...weight, lineTotal: parseInt(nextPrice[1].replace(/,/g, '')) })
+            : weight
+          const totalPrice = weighed.lineTotal ?? 0
+
+          if (this.isValidProductName(previousLine) && this.isValidPrice(totalPrice)) {
+            console.log(`  ✅ 量り売りパターン成功: ${productName} - ${weighed.quantity}${weighed.unit} = ¥${totalPrice} (${weighed.check})`)
+            items.push(WeightPriceParser.apply({
+              name: productName,
+              price: totalPrice,
+              confidence: 0.85,
+              sourcePattern: 'store-weight-pattern',
+              lineNumbers: nextPrice ? [i - 1, i, i + 1] : [i - 1, i],
+              rawText: `${previousLine} | ${line}`,
+              category: this.categorizeProduct(productName)
+            }, weighed))
+            continue
+          }
+        }
+      }
+
       // パターン4: シンプルな価格パターン（商品名 価格）
       const simpleMatch = line.match(/^(.+?)\s+(\d{2,5})$/)
       if (simpleMatch) {
@@ -275,7 +324,7 @@ export class LifePatterns {
     }
     
     // 明らかなメタデータでない
-    if (/^(小計|合計|税|レジ|責|取|現金|No\d+|外\d+%|期間限定|月\s+\d+日|LC\s|入会金|「く」|0120|レシートNo|店No|\d+コX単\d+)/.test(text)) {
+    if (/^(小計|合計|税|レジ|責|取|現金|No\d+|外\d+%|期間限定|月\s+\d+日|LC\s|入会金|「く」|0120|レシートNo|店No)/.test(text) || QuantityPriceParser.isNotationLine(text) || WeightPriceParser.isNotationLine(text)) {
       console.log(`    ❌ メタデータキーワード`)
       return false
     }
@@ -0,0 +1,143 @@
+import { OCRBoundingBox, OCRLine, OCRWord, mergeBoundingBoxes } from './ocr-engine'
+
+export interface LineReconstructionOptions {
+  // 同じ行とみなす縦方向の重なり率（単語の高さに対する割合）
+  minVerticalOverlap?: number
+  // 列の区切りとみなす横方向の間隔（行の高さに対する倍率）
+  columnGapRatio?: number
+  // 空白なしで連結する間隔（行の高さに対する倍率、日本語の文字単位の単語用）
+  joinGapRatio?: number
+}
+
+interface RowBuilder {
+  words: OCRWord[]
+  lastBox: OCRBoundingBox
+}
+
+const DEFAULT_OPTIONS: Required<LineReconstructionOptions> = {
+  minVerticalOverlap: 0.5,
+  columnGapRatio: 1.5,
+  joinGapRatio: 0.3
+}
+
+/**
+ * 単語のバウンディングボックスから論理行を再構築
+ * 左に商品名・右に価格がある2列レイアウトでも同じ行にまとめる
+ */
+export class LineReconstructor {
+
+  /**
+   * 単語を縦方向の重なりで行にまとめ、各行をx座標順に並べる
+   * 行の傾きに追従するため、直前に追加した単語の位置と比較する
+   */
+  static reconstruct(words: OCRWord[], options: LineReconstructionOptions = {}): OCRLine[] {
+    const config = { ...DEFAULT_OPTIONS, ...options }
+    const validWords = words.filter(word => word.text.trim() && this.height(word.bbox) > 0)
+    const rows: RowBuilder[] = []
+
+    // 左から順に処理し、最も近い行に追加
+    const sortedWords = [...validWords].sort((a, b) => a.bbox.x0 - b.bbox.x0)
+
+    for (const word of sortedWords) {
+      let bestRow: RowBuilder | null = null
+      let bestOverlap = 0
+
+      for (const row of rows) {
+        // 同じ行で既に右側にある単語とは重ならない
+        if (row.lastBox.x1 > word.bbox.x1) continue
+
+        const overlap = this.verticalOverlap(row.lastBox, word.bbox)
+        if (overlap >= config.minVerticalOverlap && overlap > bestOverlap) {
+          bestRow = row
+          bestOverlap = overlap
+        }
+      }
+
+      if (bestRow) {
+        bestRow.words.push(word)
+        bestRow.lastBox = word.bbox
+      } else {
+        rows.push({ words: [word], lastBox: word.bbox })
+      }
+    }
+
+    return rows
+      .map(row => this.buildLine(row.words, config))
+      .sort((a, b) => this.centerY(a.bbox) - this.centerY(b.bbox))
+  }
+
+  /**
+   * 再構築した行をテキストに変換
+   */
+  static toText(lines: OCRLine[]): string {
+    return lines.map(line => line.text).join('\n')
+  }
+
+  /**
+   * 行内の単語を連結し、大きな間隔を列の区切りとして扱う
+   */
+  private static buildLine(words: OCRWord[], config: Required<LineReconstructionOptions>): OCRLine {
+    const lineHeight = this.median(words.map(word => this.height(word.bbox)))
+    const columns: string[] = []
+    let current = ''
+
+    words.forEach((word, index) => {
+      if (index === 0) {
+        current = word.text
+        return
+      }
+
+      const gap = word.bbox.x0 - words[index - 1].bbox.x1
+
+      if (gap > lineHeight * config.columnGapRatio) {
+        columns.push(current)
+        current = word.text
+      } else if (gap < lineHeight * config.joinGapRatio && this.isJoinable(words[index - 1].text, word.text)) {
+        current += word.text
+      } else {
+        current += ' ' + word.text
+      }
+    })
+    columns.push(current)
+
+    return {
+      text: columns.join(' '),
+      confidence: words.reduce((sum, word) => sum + word.confidence, 0) / words.length,
+      bbox: mergeBoundingBoxes(words.map(word => word.bbox)),
+      words,
+      columns
+    }
+  }
+
+  /**
+   * 空白なしで連結する単語の組み合わせ（日本語同士・記号）
+   */
+  private static isJoinable(previous: string, next: string): boolean {
+    const japanese = /[぀-ヿ一-龯ｦ-ﾟ]/
+    return (japanese.test(previous.slice(-1)) && japanese.test(next.charAt(0))) ||
+      /[¥￥$(（]$/.test(previous) ||
+      /^[.,:%)）]/.test(next)
+  }
+
+  /**
+   * 縦方向の重なり率（低い方の高さに対する割合）
+   */
+  private static verticalOverlap(a: OCRBoundingBox, b: OCRBoundingBox): number {
+    const overlap = Math.min(a.y1, b.y1) - Math.max(a.y0, b.y0)
+    const minHeight = Math.min(this.height(a), this.height(b))
+    return minHeight > 0 ? Math.max(0, overlap) / minHeight : 0
+  }
+
+  private static height(box: OCRBoundingBox): number {
+    return box.y1 - box.y0
+  }
+
+  private static centerY(box: OCRBoundingBox): number {
+    return (box.y0 + box.y1) / 2
+  }
+
+  private static median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b)
+    return sorted[Math.floor(sorted.length / 2)] || 0
+  }
+}
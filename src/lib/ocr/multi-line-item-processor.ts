@@ -1,4 +1,6 @@
 import { ExtractedItem } from '@/types/ocr-patterns'
+import { QuantityPriceParser } from './quantity-price-parser'
+import { ScriptDetector } from './script-detector'
 
 export interface MultiLineProcessingResult {
   processedItems: ExtractedItem[]
@@ -84,13 +86,16 @@ export class MultiLineItemProcessor {
   ): ExtractedItem {
     const currentName = item.name.trim()
     
-    // 数量・単価パターンを検出
-    const quantityUnitPricePattern = /^(\d+)コ[X×]*単(\d+)$/
-    const match = currentName.match(quantityUnitPricePattern)
+    // 数量・単価パターンを検出（商品名を含まない表記のみの行）
+    const notation = QuantityPriceParser.parse(currentName)
     
-    if (match) {
-      const quantity = parseInt(match[1])
-      const unitPrice = parseInt(match[2])
+    if (notation && !notation.name && notation.unitPrice !== undefined) {
+      // 抽出済みの価格と一致すれば検算済みとし、一致しなければ表記から計算した金額を使用
+      const checked = notation.check === 'derived' && item.price
+        ? QuantityPriceParser.reconcile({ ...notation, lineTotal: item.price })
+        : notation
+      const match = checked.check === 'verified' ? checked : notation
+      const { quantity, unitPrice } = match
       
       if (debugMode) {
         console.log(`🔍 数量・単価パターン検出: "${currentName}" (数量:${quantity}, 単価:${unitPrice})`)
@@ -105,7 +110,7 @@ export class MultiLineItemProcessor {
         
         // 現在の数量・単価行を発見
         if (line.includes(currentName) || 
-            (line.includes(quantity.toString()) && line.includes(unitPrice.toString()))) {
+            (line.includes(notation.quantity.toString()) && line.includes(notation.unitPrice.toString()))) {
           
           // 1行上（商品名行）を確認
           if (i > 0) {
@@ -131,22 +136,20 @@ export class MultiLineItemProcessor {
         const cleanProductName = realProductName.replace(/^[*＊]+/, '').trim()
         
         if (debugMode) {
-          console.log(`✅ 商品名復元成功: "${currentName}" → "${cleanProductName}" (${quantity}個 x ¥${unitPrice})`)
+          console.log(`✅ 商品名復元成功: "${currentName}" → "${cleanProductName}" (${quantity}個 x ¥${unitPrice}, 検算: ${match.check})`)
         }
         
         improvements.multiLineFixed++
         improvements.incompleteNamesImproved++
         
+        const fixedItem = QuantityPriceParser.apply(item, match)
         return {
-          ...item,
+          ...fixedItem,
           name: cleanProductName,
-          quantity: quantity,
-          price: quantity * unitPrice, // 総額で設定
           sourcePattern: item.sourcePattern + '-quantity-unit-fixed',
-          rawText: `${cleanProductName} | ${quantity}個 x ¥${unitPrice} = ¥${quantity * unitPrice}`,
+          rawText: `${cleanProductName} | ${quantity}個 x ¥${unitPrice} = ¥${fixedItem.price}`,
           metadata: {
-            ...item.metadata,
-            unitPrice: unitPrice,
+            ...fixedItem.metadata,
             originalQuantityLine: currentName
           }
         }
@@ -287,7 +290,7 @@ export class MultiLineItemProcessor {
     
     // アスタリスク付きでも実際の商品名が含まれている場合は有効とする
     const nameWithoutAsterisk = trimmedName.replace(/^[*＊]+/, '').trim()
-    if (nameWithoutAsterisk.length >= 4 && /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/.test(nameWithoutAsterisk)) {
+    if (nameWithoutAsterisk.length >= 4 && ScriptDetector.hasCJK(nameWithoutAsterisk)) {
       return false // 有効な商品名
     }
     
@@ -334,8 +337,8 @@ export class MultiLineItemProcessor {
     // 現在の名前の一部を含む、または商品名らしい文字列
     return trimmedLine.length >= 2 && (
       trimmedLine.includes(currentName) ||
-      (/[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/.test(trimmedLine) && 
-       !this.isSystemInformation(trimmedLine)) || // 日本語かつシステム情報でない
+      (ScriptDetector.hasCJK(trimmedLine) && 
+       !this.isSystemInformation(trimmedLine)) || // 日本語・韓国語・中国語かつシステム情報でない
       /[a-zA-Z]{3,}/.test(trimmedLine) // 3文字以上の英語
     )
   }
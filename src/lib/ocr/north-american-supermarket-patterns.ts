@@ -0,0 +1,246 @@
+import { ExtractedItem } from '@/types/ocr-patterns'
+import { OCRCommonUtils } from './common-utils'
+import { DiscountProcessor, DiscountInfo } from './discount-processor'
+import { ProductCategorizer } from './product-categorizer'
+import { QuantityPriceParser } from './quantity-price-parser'
+import { WeightPriceParser } from './weight-price-parser'
+
+// 税区分フラグ（H: HST課税、MRJ・D 等は店舗の区分記号）
+const TAX_FLAGS = /^[HMRJDGPTKX]{1,4}$/
+// PLU（4〜5桁）・UPC（10〜14桁）の商品コード
+const ITEM_CODE = /^(\d{4,5}|\d{10,14})$/
+// 商品行: 商品名（前後に商品コード）＋税区分＋金額
+const PRICE_AT_END = /^(.*\S)\s+\$?(\d{1,4}\.\d{2})$/
+// 金額の後ろの税区分（4.99 HMRJ）
+const FLAGS_AFTER_PRICE = /^(.*\d\.\d{2})\s+([A-Z]{1,4})$/
+// 容器デポジット・環境手数料の行（直前の商品に加算）
+const FEE_LINE = /\b(BTL\s*DEP(?:OSIT)?|BOTTLE\s*DEP(?:OSIT)?|CONTAINER\s*DEP(?:OSIT)?|DEPOSIT|DEPOT|ECO\s*-?\s*FEE|ENVIRO(?:NMENTAL)?\s*(?:FEE|HANDLING)|EHF)\b/i
+// まとめ買いの価格表記: 2 @ 2/$5.00 5.00
+const MULTI_PRICE = /^(\d{1,2})\s*@\s*(\d{1,2})\s*\/\s*\$?(\d+\.\d{2})(?:\s+\$?(\d+\.\d{2}))?$/
+// 集計・支払・店舗情報の行
+const SUMMARY_LINE = /\b(SUB\s*-?\s*TOTAL|TOTAL|HST|GST|PST|QST|TAX|BALANCE|CHANGE|CASH|DEBIT|CREDIT|VISA|MASTERCARD|AMEX|INTERAC|TEND(?:ER)?|APPROVED|AUTH|TERMINAL|CASHIER|OPTIMUM|POINTS|THANK|ITEMS?\s+SOLD)\b/i
+// 売場の見出し（21-GROCERY）
+const DEPARTMENT_HEADER = /^\d{1,2}\s*-\s*[A-Z][A-Z &]+$/
+
+interface ParsedItemLine {
+  name: string
+  price?: number
+  code?: string
+  flags?: string
+}
+
+/**
+ * 北米のスーパー（Loblaws・Metro・No Frills・Walmart）のレシート解析
+ * PLU・UPCの商品コード、末尾の税区分フラグ、重さ×単価の行、
+ * 容器デポジット・環境手数料の行、MULTI-BUYの割引に対応し、金額はカナダドルで出力する
+ */
+export class NorthAmericanSupermarketPatterns {
+
+  /**
+   * レシート本文を解析
+   */
+  static parseText(ocrText: string): ExtractedItem[] {
+    const lines = OCRCommonUtils.splitLines(ocrText)
+    const items: ExtractedItem[] = []
+
+    console.log(`📝 北米スーパー解析開始: ${lines.length}行`)
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]
+      if (!line || /^[-=*_\s]+$/.test(line) || DEPARTMENT_HEADER.test(line)) continue
+
+      const lastItem = items[items.length - 1]
+
+      // 割引（MULTI-BUY SAVINGS 0.98-）は直前の商品に適用
+      const discount = this.parseSavings(line, lines[i + 1])
+      if (discount) {
+        const consumed = discount.consumedNextLine ? [i, i + 1] : [i]
+        if (lastItem) {
+          DiscountProcessor.applyDiscount(lastItem, discount, consumed, consumed.map(index => lines[index]).join(' '))
+        }
+        if (discount.consumedNextLine) i++
+        continue
+      }
+
+      if (SUMMARY_LINE.test(line)) continue
+
+      // 容器デポジット・環境手数料は直前の商品に加算
+      if (FEE_LINE.test(line)) {
+        if (lastItem) this.attachFee(lastItem, line, i)
+        continue
+      }
+
+      // 商品名のない重さ・数量の行は直前の商品の明細
+      const notation = this.parseNotation(line)
+      if (notation) {
+        if (lastItem && Math.max(...lastItem.lineNumbers) === i - 1) {
+          items[items.length - 1] = notation(lastItem, line, i)
+        }
+        continue
+      }
+
+      // 同じ行の重さ×単価（BANANAS 000000004011 1.52 lb @ $0.77/lb 1.17）は表記の前を商品行として解析
+      const { text, flags } = this.splitTrailingFlags(line)
+      const weight = WeightPriceParser.parse(text)
+      const parsed = weight?.name ? this.parseItemLine(weight.name) : this.parseItemLine(line)
+      if (!parsed) continue
+      if (weight?.name) parsed.flags = parsed.flags || flags
+
+      const item = this.createItem(parsed, line, i)
+
+      // 金額のない商品行（4011 BANANAS MRJ）は次の行の重さ・数量の明細で金額が決まる
+      if (parsed.price === undefined && !weight?.name) {
+        const nextNotation = lines[i + 1] ? this.parseNotation(lines[i + 1]) : null
+        if (!nextNotation || (!parsed.code && !parsed.flags)) continue
+
+        const completed = nextNotation(item, lines[i + 1], i + 1)
+        if (completed.price) {
+          items.push(completed)
+          console.log(`⚖️ 明細行付き商品: ${completed.name} ${completed.quantity}${completed.unit || ''} = ${completed.price}`)
+        }
+        i++
+        continue
+      }
+
+      items.push(weight?.name ? WeightPriceParser.apply(item, weight) : item)
+      console.log(`✅ 商品: ${item.name} ${items[items.length - 1].price} ${parsed.flags || ''}`)
+    }
+
+    console.log(`✨ 最終結果: ${items.length}件`)
+    return items
+  }
+
+  /**
+   * 商品行を商品名・商品コード・税区分・金額に分解（商品行でなければ null）
+   */
+  static parseItemLine(line: string): ParsedItemLine | null {
+    const trailing = this.splitTrailingFlags(line.replace(/\s+/g, ' '))
+    let text = trailing.text
+    let flags = trailing.flags
+    let price: number | undefined
+
+    const priceMatch = text.match(PRICE_AT_END)
+    if (priceMatch) {
+      text = priceMatch[1]
+      price = parseFloat(priceMatch[2])
+    }
+
+    // 商品名と金額の間の税区分（COKE 2L HMRJ 2.99）
+    const words = text.split(' ')
+    if (!flags && words.length > 1 && TAX_FLAGS.test(words[words.length - 1])) {
+      flags = words.pop()
+    }
+
+    // 商品コードは商品名の前（Loblaws）または後ろ（Walmart）
+    let code: string | undefined
+    if (words.length > 1 && ITEM_CODE.test(words[0])) {
+      code = words.shift()
+    } else if (words.length > 1 && ITEM_CODE.test(words[words.length - 1])) {
+      code = words.pop()
+    }
+
+    const name = words.join(' ').trim()
+    if (!/[A-Za-z]{2}/.test(name) || (price !== undefined && price <= 0)) return null
+
+    return { name, price, code, flags }
+  }
+
+  /**
+   * 割引行を解析（金額に符号のない SAVINGS 0.98 も割引として扱う）
+   */
+  private static parseSavings(line: string, nextLine?: string): DiscountInfo | null {
+    const discount = DiscountProcessor.parseDiscountLine(line, nextLine)
+    if (discount || !DiscountProcessor.isDiscountLine(line)) return discount
+
+    const label = line.match(/MULTI[-\s]?BUY|SAVINGS|COUPON|DISCOUNT/i)?.[0] || '値引'
+    const amount = line.match(/(\d+\.\d{2})\s*[A-Z]{0,4}$/)
+    return amount ? { label, amount: parseFloat(amount[1]), consumedNextLine: false } : null
+  }
+
+  /**
+   * 容器デポジット・環境手数料を商品の金額に加算
+   */
+  private static attachFee(item: ExtractedItem, line: string, lineNumber: number): void {
+    const amountMatch = line.match(/(\d+\.\d{2})(?:\s+[A-Z]{1,4})?$/)
+    if (!amountMatch) return
+
+    const amount = parseFloat(amountMatch[1])
+    const key = /ECO|ENVIRO|EHF/i.test(line) ? 'ecoFee' : 'deposit'
+    const add = (value: number) => Math.round((value + amount) * 100) / 100
+
+    item.price = add(item.price || 0)
+    if (item.finalPrice !== undefined) item.finalPrice = add(item.finalPrice)
+    if (item.originalPrice !== undefined) item.originalPrice = add(item.originalPrice)
+    item.lineNumbers = [...item.lineNumbers, lineNumber]
+    item.rawText = `${item.rawText} | ${line}`
+    item.metadata = {
+      ...item.metadata,
+      [key]: add(Number(item.metadata?.[key] || 0))
+    }
+
+    console.log(`  ♻️ ${key === 'ecoFee' ? '環境手数料' : 'デポジット'}加算: ${item.name} +${amount} → ${item.price}`)
+  }
+
+  /**
+   * 商品名のない重さ×単価・数量×単価の行を解析し、商品に反映する関数を返す
+   */
+  private static parseNotation(line: string): ((item: ExtractedItem, line: string, lineNumber: number) => ExtractedItem) | null {
+    const { text } = this.splitTrailingFlags(line)
+    const attach = (item: ExtractedItem, notationLine: string, lineNumber: number) => ({
+      lineNumbers: [...item.lineNumbers, lineNumber],
+      rawText: `${item.rawText} | ${notationLine}`
+    })
+
+    const weight = WeightPriceParser.parse(text)
+    if (weight && !weight.name) {
+      return (item, notationLine, lineNumber) => ({ ...WeightPriceParser.apply(item, weight), ...attach(item, notationLine, lineNumber) })
+    }
+
+    // まとめ買いの価格（2 @ 2/$5.00）は1個あたりの単価に換算
+    const multiPrice = text.match(MULTI_PRICE)
+    if (multiPrice) {
+      const quantity = parseInt(multiPrice[1])
+      const unitPrice = Math.round(parseFloat(multiPrice[3]) / parseInt(multiPrice[2]) * 100) / 100
+      const lineTotal = multiPrice[4] ? parseFloat(multiPrice[4]) : undefined
+      // ドル表記として小数2桁で検算（商品の通貨 CAD は apply で維持される）
+      const reconciled = QuantityPriceParser.reconcile({ quantity, unitPrice, lineTotal, currency: 'USD' })
+      return (item, notationLine, lineNumber) => ({ ...QuantityPriceParser.apply(item, reconciled), ...attach(item, notationLine, lineNumber) })
+    }
+
+    const quantity = QuantityPriceParser.parse(text)
+    if (quantity && !quantity.name && quantity.unitPrice !== undefined) {
+      return (item, notationLine, lineNumber) => ({ ...QuantityPriceParser.apply(item, quantity), ...attach(item, notationLine, lineNumber) })
+    }
+
+    return null
+  }
+
+  private static createItem(parsed: ParsedItemLine, line: string, lineNumber: number): ExtractedItem {
+    return {
+      name: parsed.name,
+      price: parsed.price ?? 0,
+      quantity: 1,
+      currency: 'CAD',
+      confidence: 0.9,
+      sourcePattern: 'na-supermarket',
+      lineNumbers: [lineNumber],
+      rawText: line,
+      category: ProductCategorizer.categorize(parsed.name),
+      metadata: {
+        itemCode: parsed.code,
+        codeType: parsed.code ? (parsed.code.replace(/^0+/, '').length <= 5 ? 'PLU' : 'UPC') : undefined, // ゼロ詰めのPLU（Walmart）を含む
+        taxFlags: parsed.flags,
+        // H: HST課税（TaxModel が13%を適用）
+        taxCode: parsed.flags?.includes('H') ? 'H' : undefined
+      }
+    }
+  }
+
+  /**
+   * 金額の後ろの税区分フラグを分離
+   */
+  private static splitTrailingFlags(line: string): { text: string, flags?: string } {
+    const match = line.trim().match(FLAGS_AFTER_PRICE)
+    return match && TAX_FLAGS.test(match[2]) ? { text: match[1], flags: match[2] } : { text: line.trim() }
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * OCRエンジン抽象化
+ * Vision API・Document AI・オフラインエンジン（Tesseract）を同じインターフェースで扱う
+ */
+
+export type OCREngineName = 'vision' | 'document-ai' | 'tesseract'
+
+export const OCR_ENGINE_NAMES: readonly OCREngineName[] = ['vision', 'document-ai', 'tesseract']
+
+export interface OCRBoundingBox {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+}
+
+export interface OCRWord {
+  text: string
+  confidence: number
+  bbox: OCRBoundingBox
+}
+
+export interface OCRLine {
+  text: string
+  confidence: number
+  bbox: OCRBoundingBox
+  words: OCRWord[]
+  // 列ごとのテキスト（座標から行を再構築した場合のみ）
+  columns?: string[]
+}
+
+export interface OCREngineResult {
+  engine: OCREngineName
+  text: string
+  lines: OCRLine[]
+  words: OCRWord[]
+  confidence: number
+  processingTime: number
+  imageSize?: {
+    width: number
+    height: number
+  }
+  // エンジン固有の生レスポンス（Document AIのエンティティ等）
+  raw?: unknown
+  // OCR結果キャッシュの利用状況（タイル分割時は合計）
+  cache?: OCRCacheUsage
+}
+
+export interface OCRCacheUsage {
+  hits: number
+  misses: number
+}
+
+export interface OCREngineOptions {
+  debugMode?: boolean
+  languages?: string[]
+  // 元画像のハッシュ（記録・再生のキー。未指定時はエンジンに渡した画像から計算）
+  sourceHash?: string
+}
+
+export interface OCREngine {
+  readonly name: OCREngineName
+  isAvailable(): boolean
+  recognize(image: Buffer, mimeType: string, options?: OCREngineOptions): Promise<OCREngineResult>
+}
+
+/**
+ * Google Cloud認証情報を環境変数から取得
+ */
+export function getGoogleCredentials(): {
+  projectId?: string
+  credentials: {
+    client_email?: string
+    private_key?: string
+  }
+} {
+  return {
+    projectId: process.env.GOOGLE_CLOUD_PROJECT_ID,
+    credentials: {
+      client_email: process.env.GOOGLE_CLOUD_CLIENT_EMAIL,
+      private_key: process.env.GOOGLE_CLOUD_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    },
+  }
+}
+
+/**
+ * Google Cloud認証情報が設定されているか
+ */
+export function hasGoogleCredentials(): boolean {
+  return !!(
+    process.env.GOOGLE_CLOUD_PROJECT_ID &&
+    process.env.GOOGLE_CLOUD_CLIENT_EMAIL &&
+    process.env.GOOGLE_CLOUD_PRIVATE_KEY
+  )
+}
+
+/**
+ * 複数のバウンディングボックスを包含するボックスを計算
+ */
+export function mergeBoundingBoxes(boxes: OCRBoundingBox[]): OCRBoundingBox {
+  if (boxes.length === 0) {
+    return { x0: 0, y0: 0, x1: 0, y1: 0 }
+  }
+
+  return {
+    x0: Math.min(...boxes.map(box => box.x0)),
+    y0: Math.min(...boxes.map(box => box.y0)),
+    x1: Math.max(...boxes.map(box => box.x1)),
+    y1: Math.max(...boxes.map(box => box.y1))
+  }
+}
+
+/**
+ * 頂点座標の配列からバウンディングボックスを作成
+ */
+export function boundingBoxFromVertices(
+  vertices: Array<{ x?: number | null; y?: number | null }> | null | undefined
+): OCRBoundingBox {
+  if (!vertices || vertices.length === 0) {
+    return { x0: 0, y0: 0, x1: 0, y1: 0 }
+  }
+
+  const xs = vertices.map(vertex => vertex.x || 0)
+  const ys = vertices.map(vertex => vertex.y || 0)
+
+  return {
+    x0: Math.min(...xs),
+    y0: Math.min(...ys),
+    x1: Math.max(...xs),
+    y1: Math.max(...ys)
+  }
+}
+
+/**
+ * OCRエンジンの生成と選択を担当するファクトリ
+ */
+export class OCREngineFactory {
+
+  /**
+   * 文字列が有効なエンジン名かどうか
+   */
+  static isEngineName(value: unknown): value is OCREngineName {
+    return typeof value === 'string' && (OCR_ENGINE_NAMES as readonly string[]).includes(value)
+  }
+
+  /**
+   * 使用するエンジン名を決定
+   * 優先順位: リクエスト指定 → OCR_ENGINE環境変数 → 認証情報の有無
+   */
+  static resolveEngineName(requested?: string | null): OCREngineName {
+    if (this.isEngineName(requested)) {
+      return requested
+    }
+
+    const configured = process.env.OCR_ENGINE
+    if (this.isEngineName(configured)) {
+      return configured
+    }
+
+    // クラウド認証情報がなければオフラインエンジンを使用
+    return hasGoogleCredentials() ? 'vision' : 'tesseract'
+  }
+
+  /**
+   * エンジンインスタンスを生成
+   */
+  static async create(requested?: string | null): Promise<OCREngine> {
+    const engineName = this.resolveEngineName(requested)
+
+    switch (engineName) {
+      case 'document-ai': {
+        const { DocumentAIOCREngine } = await import('./document-ai-ocr-engine')
+        return this.wrap(new DocumentAIOCREngine())
+      }
+      case 'tesseract': {
+        const { TesseractOCREngine } = await import('./tesseract-ocr-engine')
+        return this.wrap(new TesseractOCREngine())
+      }
+      case 'vision':
+      default: {
+        const { VisionOCREngine } = await import('./vision-ocr-engine')
+        return this.wrap(new VisionOCREngine())
+      }
+    }
+  }
+
+  /**
+   * エンジンを記録・再生ラッパーと結果キャッシュで包む
+   */
+  static async wrap(engine: OCREngine): Promise<OCREngine> {
+    return this.withCache(await this.withRecordReplay(engine))
+  }
+
+  /**
+   * OCR_RECORD_MODE が有効な場合、エンジンを記録・再生ラッパーで包む
+   */
+  static async withRecordReplay(engine: OCREngine): Promise<OCREngine> {
+    const { RecordReplayOCREngine } = await import('./record-replay-ocr-engine')
+    const mode = RecordReplayOCREngine.getMode()
+
+    return mode === 'off' ? engine : new RecordReplayOCREngine(engine, mode)
+  }
+
+  /**
+   * キャッシュが有効な場合、エンジンを結果キャッシュで包む
+   */
+  static async withCache(engine: OCREngine): Promise<OCREngine> {
+    const { CachedOCREngine } = await import('./cached-ocr-engine')
+
+    return CachedOCREngine.isEnabled() ? new CachedOCREngine(engine) : engine
+  }
+
+  /**
+   * 利用可能なエンジン一覧
+   */
+  static async getAvailableEngines(): Promise<OCREngineName[]> {
+    const available: OCREngineName[] = []
+
+    for (const engineName of OCR_ENGINE_NAMES) {
+      const engine = await this.create(engineName)
+      if (engine.isAvailable()) {
+        available.push(engineName)
+      }
+    }
+
+    return available
+  }
+}
@@ -1,6 +1,8 @@
+import { OCREngineFactory } from './ocr-engine'
+
 /**
  * OCR処理ロジック
- * Google Vision APIを使用したテキスト抽出
+ * 設定されたOCRエンジンを使用したテキスト抽出
  */
 export class OCRProcessor {
   /**
@@ -19,18 +21,11 @@ export class OCRProcessor {
         return await this.performOCRFromBrowser(imageFile)
       }
 
-      // サーバーサイドでは直接Google Vision APIを呼び出し
-      const { ImageAnnotatorClient } = await import('@google-cloud/vision')
-      
-      const client = new ImageAnnotatorClient({
-        projectId: process.env.GOOGLE_CLOUD_PROJECT_ID,
-        credentials: {
-          client_email: process.env.GOOGLE_CLOUD_CLIENT_EMAIL,
-          private_key: process.env.GOOGLE_CLOUD_PRIVATE_KEY?.replace(/\\n/g, '\n'),
-        },
-      })
+      // サーバーサイドでは設定されたOCRエンジンを直接呼び出し
+      const engine = await OCREngineFactory.create()
 
       let imageBuffer: Buffer
+      let mimeType = 'image/jpeg'
       
       if (imageFile instanceof Buffer) {
         imageBuffer = imageFile
@@ -38,17 +33,13 @@ export class OCRProcessor {
         // File型の場合はBufferに変換
         const arrayBuffer = await imageFile.arrayBuffer()
         imageBuffer = Buffer.from(arrayBuffer)
+        mimeType = imageFile.type || mimeType
       } else {
         throw new Error('サポートされていない画像ファイルタイプです')
       }
 
-      // Google Cloud Vision APIでOCR実行
-      const [result] = await client.textDetection({
-        image: { content: imageBuffer }
-      })
-
-      const detections = result.textAnnotations
-      const extractedText = detections?.[0]?.description || ''
+      const result = await engine.recognize(imageBuffer, mimeType)
+      const extractedText = result.text
 
       if (!extractedText) {
         throw new Error('テキストを検出できませんでした')
@@ -1,4 +1,5 @@
 import { OCRParseResult, ExtractedItem } from '@/types/ocr-patterns'
+import { OCRCommonUtils } from './common-utils'
 
 export class PatternOptimizer {
   /**
@@ -92,33 +93,10 @@ export class PatternOptimizer {
     const maxLength = Math.max(normalized1.length, normalized2.length)
     if (maxLength === 0) return 1
     
-    const distance = this.levenshteinDistance(normalized1, normalized2)
+    const distance = OCRCommonUtils.levenshteinDistance(normalized1, normalized2)
     return (maxLength - distance) / maxLength
   }
 
-  /**
-   * レーベンシュタイン距離を計算
-   */
-  private static levenshteinDistance(str1: string, str2: string): number {
-    const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null))
-    
-    for (let i = 0; i <= str1.length; i++) matrix[0][i] = i
-    for (let j = 0; j <= str2.length; j++) matrix[j][0] = j
-    
-    for (let j = 1; j <= str2.length; j++) {
-      for (let i = 1; i <= str1.length; i++) {
-        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1
-        matrix[j][i] = Math.min(
-          matrix[j][i - 1] + 1,
-          matrix[j - 1][i] + 1,
-          matrix[j - 1][i - 1] + indicator
-        )
-      }
-    }
-    
-    return matrix[str2.length][str1.length]
-  }
-
   /**
    * 価格の正規化
    */
@@ -1,5 +1,6 @@
 import { ExtractedItem } from '@/types/ocr-patterns'
 import { PATTERN_CONFIG, PRICE_PATTERNS } from './warehouse-pattern-definitions'
+import { ScriptDetector } from './script-detector'
 
 /**
  * パターンマッチングとバリデーション機能を提供するユーティリティクラス
@@ -87,12 +88,12 @@ export class PatternValidationUtils {
     if (/^\d+$/.test(trimmed)) return false
 
     // 記号のみの場合は除外
-    if (/^[^\w\s\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]+$/.test(trimmed)) {
+    if (ScriptDetector.isSymbolsOnly(trimmed)) {
       return false
     }
 
-    // 日本語、英語、数字のいずれかを含む
-    return /[あ-んア-ンぁ-ゖa-zA-Z0-9ー・]/.test(trimmed)
+    // 日本語・韓国語・中国語、英語、数字のいずれかを含む
+    return /[あ-んア-ンぁ-ゖa-zA-Z0-9ー・]/.test(trimmed) || ScriptDetector.hasCJK(trimmed)
   }
 
   /**
@@ -0,0 +1,141 @@
+import path from 'path'
+import { OCRWord } from './ocr-engine'
+import { LineReconstructor } from './line-reconstructor'
+
+export interface PdfTextContent {
+  text: string
+  pageCount: number
+  hasTextLayer: boolean // 文字を埋め込んだPDF（スキャンPDFは false）
+}
+
+export interface PdfRasterizeOptions {
+  maxPages?: number
+  scale?: number // 72dpi に対する倍率
+}
+
+type PdfDocument = Awaited<ReturnType<typeof import('pdfjs-dist/legacy/build/pdf.mjs')['getDocument']>['promise']>
+
+// Node.js上でpdf.jsが使用するキャンバス（@napi-rs/canvas）
+interface NodeCanvasFactory {
+  create(width: number, height: number): {
+    canvas: HTMLCanvasElement & { toBuffer(mimeType: 'image/png'): Buffer }
+    context: CanvasRenderingContext2D
+  }
+}
+
+// テキストレイヤーありと判定する最小文字数
+const MIN_TEXT_LAYER_CHARACTERS = 20
+const DEFAULT_MAX_PAGES = 5
+
+/**
+ * PDFレシートの読み込み
+ * テキストレイヤーがあれば文字座標から行を再構築し、スキャンPDFはページを画像に変換する
+ */
+export class PdfReceiptReader {
+
+  /**
+   * PDFかどうかを判定（MIMEタイプ・拡張子・ファイル先頭のシグネチャ）
+   */
+  static isPdf(data: Buffer, mimeType?: string, fileName?: string): boolean {
+    return mimeType === 'application/pdf' ||
+      /\.pdf$/i.test(fileName || '') ||
+      data.subarray(0, 5).toString('latin1') === '%PDF-'
+  }
+
+  /**
+   * テキストレイヤーから文字列を抽出
+   */
+  static async extractText(data: Buffer, debugMode: boolean = false): Promise<PdfTextContent> {
+    const document = await this.load(data)
+
+    try {
+      const pageTexts: string[] = []
+
+      for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+        const page = await document.getPage(pageNumber)
+        const viewport = page.getViewport({ scale: 1 })
+        const content = await page.getTextContent()
+
+        // PDF座標（左下原点）を画像座標（左上原点）の単語に変換
+        const words: OCRWord[] = []
+        for (const item of content.items) {
+          if (!('str' in item) || !item.str.trim()) continue
+
+          const [, , , scaleY, x, y] = item.transform
+          const height = item.height || Math.abs(scaleY)
+          words.push({
+            text: item.str.trim(),
+            confidence: 1,
+            bbox: {
+              x0: x,
+              y0: viewport.height - y - height,
+              x1: x + item.width,
+              y1: viewport.height - y
+            }
+          })
+        }
+
+        pageTexts.push(LineReconstructor.toText(LineReconstructor.reconstruct(words)))
+        page.cleanup()
+      }
+
+      const text = pageTexts.filter(pageText => pageText.trim()).join('\n')
+      const hasTextLayer = text.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARACTERS
+
+      if (debugMode) {
+        console.log(`📄 PDFテキスト抽出: ${document.numPages}ページ / ${hasTextLayer ? 'テキストレイヤーあり' : 'スキャンPDF'}`)
+      }
+
+      return { text, pageCount: document.numPages, hasTextLayer }
+    } finally {
+      await document.destroy()
+    }
+  }
+
+  /**
+   * スキャンPDFの各ページをPNG画像に変換
+   */
+  static async rasterize(data: Buffer, options: PdfRasterizeOptions = {}): Promise<Buffer[]> {
+    const document = await this.load(data)
+    const maxPages = Math.min(document.numPages, options.maxPages || DEFAULT_MAX_PAGES)
+    const scale = options.scale || 3 // 約216dpi
+
+    try {
+      const images: Buffer[] = []
+
+      for (let pageNumber = 1; pageNumber <= maxPages; pageNumber++) {
+        const page = await document.getPage(pageNumber)
+        const viewport = page.getViewport({ scale })
+        const { canvas, context } = (document.canvasFactory as NodeCanvasFactory).create(viewport.width, viewport.height)
+
+        await page.render({ canvasContext: context, canvas, viewport }).promise
+        images.push(canvas.toBuffer('image/png'))
+        page.cleanup()
+      }
+
+      return images
+    } finally {
+      await document.destroy()
+    }
+  }
+
+  /**
+   * pdf.jsでPDFを読み込む（サーバー内でワーカーを使わずに処理）
+   */
+  private static async load(data: Buffer): Promise<PdfDocument> {
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs')
+    // ワーカーを事前に読み込むと同一スレッドで処理される
+    await import('pdfjs-dist/legacy/build/pdf.worker.mjs')
+
+    const assetsDir = path.join(process.cwd(), 'node_modules', 'pdfjs-dist')
+    return pdfjs.getDocument({
+      data: new Uint8Array(data),
+      // 日本語フォント（CID）の文字コード変換に必要
+      cMapUrl: path.join(assetsDir, 'cmaps') + path.sep,
+      cMapPacked: true,
+      standardFontDataUrl: path.join(assetsDir, 'standard_fonts') + path.sep,
+      isEvalSupported: false,
+      useSystemFonts: false
+    }).promise
+  }
+}
@@ -1,3 +1,5 @@
+import { ScriptDetector } from './script-detector'
+
 /**
  * 価格処理専用ユーティリティ
  * 価格抽出・解析・フォーマットに特化した処理を集約
@@ -478,8 +480,8 @@ export class PriceUtils {
     if (!text || text.length < 2 || text.length > 50) return false
     if (/^\d+$/.test(text)) return false
     
-    // 日本語または英字を含む
-    return /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/.test(text) || /[a-zA-Z]/.test(text)
+    // かな・漢字・ハングルまたは英字を含む
+    return ScriptDetector.hasNameCharacters(text)
   }
 
   /**
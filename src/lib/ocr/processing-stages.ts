@@ -1,16 +1,29 @@
 import { 
+  OCRPattern,
   OCRPatternConfig, 
   OCRParseResult, 
   ExtractedItem,
+  ProcessingStageTrace,
   ReceiptAnalysisContext
 } from '@/types/ocr-patterns'
+import { ScriptDetector } from './script-detector'
 
 export interface ProcessingStage {
   name: string
   description: string
+  budgetShare: number // 全体の制限時間に対するこの段階の持ち時間の割合
   execute: (context: ReceiptAnalysisContext, patterns: OCRPatternConfig[]) => Promise<OCRParseResult>
 }
 
+export interface StagePipelineResult {
+  result: OCRParseResult | null
+  trace: ProcessingStageTrace[]
+}
+
+// 厳密パターンとして扱う優先度
+const HIGH_PRIORITY = 90
+const DEFAULT_CONFIDENCE_TARGET = 0.8
+
 /**
  * OCR処理の段階的実行を管理するクラス
  */
@@ -28,31 +41,154 @@ export class ProcessingStageManager {
     return this.stages
   }
 
+  /**
+   * 処理段階を順に実行
+   * 各段階は持ち時間で打ち切り、信頼度が目標に達した時点で以降の段階を省略する
+   */
+  async run(context: ReceiptAnalysisContext, patterns: OCRPatternConfig[]): Promise<StagePipelineResult> {
+    const { maxProcessingTime, confidenceThreshold } = context.processingOptions
+    const confidenceTarget = context.processingOptions.confidenceTarget ?? DEFAULT_CONFIDENCE_TARGET
+    const startTime = Date.now()
+    const trace: ProcessingStageTrace[] = []
+    let bestResult: OCRParseResult | null = null
+    let skipReason: string | undefined
+
+    for (const stage of this.stages) {
+      const budgetMs = Math.round(maxProcessingTime * stage.budgetShare)
+      const remainingMs = maxProcessingTime - (Date.now() - startTime)
+
+      if (skipReason || remainingMs <= 0) {
+        trace.push({
+          name: stage.name,
+          status: 'skipped',
+          budgetMs,
+          durationMs: 0,
+          itemsFound: 0,
+          itemsAdded: 0,
+          itemsRemoved: 0,
+          adopted: false,
+          patternsAttempted: [],
+          reason: skipReason || '制限時間超過'
+        })
+        continue
+      }
+
+      const stageStart = Date.now()
+      context.deadline = stageStart + Math.min(budgetMs, remainingMs)
+
+      try {
+        const stageResult = await stage.execute(context, patterns)
+        const adopted = stageResult.confidence >= confidenceThreshold &&
+          (!bestResult || stageResult.confidence > bestResult.confidence)
+
+        const stageTrace = ProcessingStageManager.traceStep(
+          stage.name,
+          bestResult?.items || [],
+          adopted ? stageResult.items : bestResult?.items || [],
+          stageStart,
+          stageResult.metadata.patternsAttempted
+        )
+        trace.push({
+          ...stageTrace,
+          status: Date.now() > context.deadline ? 'budget-exceeded' : 'completed',
+          budgetMs,
+          confidence: stageResult.confidence,
+          itemsFound: stageResult.items.length,
+          adopted
+        })
+
+        if (adopted) {
+          bestResult = stageResult
+          bestResult.metadata.primaryStage = stage.name
+        }
+
+        if (adopted && stageResult.confidence >= confidenceTarget) {
+          skipReason = `信頼度目標に到達（${stage.name}）`
+        }
+      } catch (error) {
+        trace.push({
+          name: stage.name,
+          status: 'failed',
+          budgetMs,
+          durationMs: Date.now() - stageStart,
+          itemsFound: 0,
+          itemsAdded: 0,
+          itemsRemoved: 0,
+          adopted: false,
+          patternsAttempted: [],
+          reason: error instanceof Error ? error.message : String(error)
+        })
+      }
+    }
+
+    context.deadline = undefined
+    return { result: bestResult, trace }
+  }
+
+  /**
+   * 処理前後の商品から段階の記録を作成（段階の外で行う後処理の記録にも使用）
+   */
+  static traceStep(
+    name: string,
+    before: ExtractedItem[],
+    after: ExtractedItem[],
+    startTime: number,
+    patternsAttempted: string[] = []
+  ): ProcessingStageTrace {
+    // 商品名と価格が同じ商品の件数で比較（重複の除去も減少として数える）
+    const counts = new Map<string, number>()
+    before.forEach(item => {
+      const key = `${item.name}|${item.price ?? ''}`
+      counts.set(key, (counts.get(key) || 0) + 1)
+    })
+    after.forEach(item => {
+      const key = `${item.name}|${item.price ?? ''}`
+      counts.set(key, (counts.get(key) || 0) - 1)
+    })
+    const differences = [...counts.values()]
+
+    return {
+      name,
+      status: 'completed',
+      durationMs: Date.now() - startTime,
+      itemsFound: after.length,
+      itemsAdded: differences.filter(difference => difference < 0).reduce((sum, difference) => sum - difference, 0),
+      itemsRemoved: differences.filter(difference => difference > 0).reduce((sum, difference) => sum + difference, 0),
+      adopted: true,
+      patternsAttempted
+    }
+  }
+
   private initializeStages() {
     this.stages = [
       {
         name: 'exact-pattern-matching',
         description: '厳密パターンマッチング',
+        budgetShare: 0.15,
         execute: this.exactPatternMatching.bind(this)
       },
       {
         name: 'flexible-pattern-matching',
         description: '柔軟パターンマッチング',
+        budgetShare: 0.2,
         execute: this.flexiblePatternMatching.bind(this)
       },
       {
         name: 'fuzzy-matching',
         description: 'ファジーマッチング',
+        budgetShare: 0.2,
         execute: this.fuzzyMatching.bind(this)
       },
       {
         name: 'ml-enhanced-matching',
         description: 'ML強化マッチング',
+        budgetShare: 0.25,
         execute: this.mlEnhancedMatching.bind(this)
       },
       {
         name: 'fallback-parsing',
         description: 'フォールバック処理',
+        budgetShare: 0.2,
         execute: this.fallbackParsing.bind(this)
       }
     ]
@@ -66,26 +202,27 @@ export class ProcessingStageManager {
     patterns: OCRPatternConfig[]
   ): Promise<OCRParseResult> {
     const items: ExtractedItem[] = []
-    const exactPatterns = patterns.filter(p => p.priority === 'high')
+    const exactPatterns = patterns.filter(p => p.priority >= HIGH_PRIORITY)
     const patternsAttempted: string[] = []
 
     for (const pattern of exactPatterns) {
-      if (pattern.patterns) {
-        for (const patternRegex of pattern.patterns) {
-          patternsAttempted.push(pattern.id)
-          const matches = context.originalText.match(new RegExp(patternRegex.source, 'gm'))
-          
-          if (matches) {
-            matches.forEach((match) => {
-              const lineIndex = context.lines.findIndex(line => line.includes(match))
-              if (lineIndex >= 0) {
-                const extracted = this.extractItemFromMatch(match, pattern, lineIndex)
-                if (extracted) {
-                  items.push(extracted)
-                }
+      for (const patternRegex of pattern.patterns) {
+        if (this.isPastDeadline(context)) break
+        if (!patternRegex.regex) continue
+
+        patternsAttempted.push(patternRegex.id)
+        const matches = context.originalText.match(new RegExp(patternRegex.regex, 'gm'))
+        
+        if (matches) {
+          matches.forEach((match) => {
+            const lineIndex = context.lines.findIndex(line => line.includes(match))
+            if (lineIndex >= 0) {
+              const extracted = this.extractItemFromMatch(match, pattern, patternRegex, lineIndex)
+              if (extracted) {
+                items.push(extracted)
               }
-            })
-          }
+            }
+          })
         }
       }
     }
@@ -110,29 +247,29 @@ export class ProcessingStageManager {
     patterns: OCRPatternConfig[]
   ): Promise<OCRParseResult> {
     const items: ExtractedItem[] = []
-    const flexiblePatterns = patterns.filter(p => p.priority === 'medium')
+    const flexiblePatterns = patterns.filter(p => p.priority < HIGH_PRIORITY)
     const patternsAttempted: string[] = []
 
     for (const pattern of flexiblePatterns) {
-      patternsAttempted.push(pattern.id)
-      
-      if (pattern.fuzzyPatterns) {
-        for (const fuzzyPattern of pattern.fuzzyPatterns) {
-          const regex = new RegExp(fuzzyPattern.pattern, 'gi')
-          const matches = context.originalText.match(regex)
-          
-          if (matches) {
-            matches.forEach((match) => {
-              const lineIndex = context.lines.findIndex(line => line.includes(match))
-              if (lineIndex >= 0) {
-                const extracted = this.extractItemFromMatch(match, pattern, lineIndex)
-                if (extracted) {
-                  extracted.confidence *= fuzzyPattern.confidence
-                  items.push(extracted)
-                }
+      for (const patternRegex of pattern.patterns) {
+        if (this.isPastDeadline(context)) break
+        if (!patternRegex.regex) continue
+
+        patternsAttempted.push(patternRegex.id)
+        // 大文字小文字を区別せずに照合
+        const matches = context.originalText.match(new RegExp(patternRegex.regex, 'gim'))
+        
+        if (matches) {
+          matches.forEach((match) => {
+            const lineIndex = context.lines.findIndex(line => line.includes(match))
+            if (lineIndex >= 0) {
+              const extracted = this.extractItemFromMatch(match, pattern, patternRegex, lineIndex)
+              if (extracted) {
+                extracted.confidence *= patternRegex.confidence
+                items.push(extracted)
               }
-            })
-          }
+            }
+          })
         }
       }
     }
@@ -163,7 +300,7 @@ export class ProcessingStageManager {
     const pricePattern = /(.+?)\s*[\s¥$]\s*(\d{1,6}(?:[.,]\d{2})?)\s*$/gm
     let match
 
-    while ((match = pricePattern.exec(context.originalText)) !== null) {
+    while ((match = pricePattern.exec(context.originalText)) !== null && !this.isPastDeadline(context)) {
       const [fullMatch, nameCandidate, priceStr] = match
       const lineIndex = context.lines.findIndex(line => line.includes(fullMatch))
       
@@ -212,7 +349,7 @@ export class ProcessingStageManager {
     const lines = context.lines
     const currency = this.detectCurrency(context.originalText)
     
-    for (let i = 0; i < lines.length; i++) {
+    for (let i = 0; i < lines.length && !this.isPastDeadline(context); i++) {
       const line = lines[i]
       
       // 商品名と価格の分離を試行
@@ -258,6 +395,7 @@ export class ProcessingStageManager {
     const basicPattern = /(.{2,50}?)\s+(\d{2,6})\s*$/
     
     context.lines.forEach((line, index) => {
+      if (this.isPastDeadline(context)) return
       const match = line.match(basicPattern)
       if (match) {
         const [, name, priceStr] = match
@@ -290,22 +428,39 @@ export class ProcessingStageManager {
     }
   }
 
+  /**
+   * 実行中の段階の持ち時間を超えたか
+   */
+  private isPastDeadline(context: ReceiptAnalysisContext): boolean {
+    return context.deadline !== undefined && Date.now() > context.deadline
+  }
+
   /**
    * マッチからアイテムを抽出
    */
   private extractItemFromMatch(
     match: string, 
     pattern: OCRPatternConfig, 
+    patternRegex: OCRPattern,
     lineIndex: number
   ): ExtractedItem | null {
-    // 価格を抽出
-    const priceMatch = match.match(/(\d{1,6}(?:[.,]\d{2})?)/)
-    if (!priceMatch) return null
+    // 抽出ルールで指定された同じ行の正規表現グループを優先（商品名中の容量・入数を価格としない）
+    const groups = patternRegex.regex ? match.match(new RegExp(patternRegex.regex, 'i')) : null
+    const groupValue = (field: 'name' | 'price') => {
+      const rule = patternRegex.extractionRules.find(extractionRule =>
+        extractionRule.field === field && extractionRule.source === 'regex-group' && !extractionRule.lineOffset
+      )
+      return rule?.groupIndex !== undefined ? groups?.[rule.groupIndex] : undefined
+    }
+
+    // 価格を抽出（グループがなければ行末の金額）
+    const priceText = groupValue('price') ?? match.match(/(\d{1,3}(?:,\d{3})+(?:\.\d{2})?|\d{1,6}(?:\.\d{2})?)[^\d]*$/)?.[1]
+    if (!priceText) return null
 
-    const price = parseFloat(priceMatch[1].replace(/[,]/g, ''))
+    const price = parseFloat(priceText.replace(/[,]/g, ''))
     
     // 商品名を抽出
-    const name = match.replace(/[\d.,¥$\s]+$/, '').trim()
+    const name = (groupValue('name') ?? match.replace(/[\d.,¥$\s]+$/, '')).trim()
     if (name.length < 2) return null
 
     const currency = this.detectCurrency(match)
@@ -369,8 +524,8 @@ export class ProcessingStageManager {
    * 商品名らしさの判定
    */
   private looksLikeProductName(name: string): boolean {
-    // 日本語文字が含まれている
-    if (/[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/.test(name)) return true
+    // 日本語・韓国語・中国語の文字が含まれている
+    if (ScriptDetector.hasCJK(name)) return true
     
     // 英数字の商品名パターン
     if (/^[A-Za-z0-9\s\-'&.]+$/.test(name) && name.length >= 3) return true
@@ -0,0 +1,194 @@
+import abbreviationData from '@/config/productAbbreviations.json'
+import { ExtractedItem } from '@/types/ocr-patterns'
+import { OCRCommonUtils } from './common-utils'
+import { ProductCategorizer } from './product-categorizer'
+import { TextNormalizer } from './text-normalizer'
+
+// POSの略称と読みやすい商品名の対応（src/config/productAbbreviations.json）
+export interface ProductAbbreviationEntry {
+  abbreviation: string
+  name: string
+  // prefix: 商品名の先頭が略称に一致（残りの容量・入数は残す）。contains: 商品名中の略称を置き換え
+  match?: 'prefix' | 'contains'
+  // 適用する店舗（店舗プロファイルID・店舗タイプ）。省略時は全店舗
+  stores?: string[]
+}
+
+export interface AbbreviationMatch {
+  entry: ProductAbbreviationEntry
+  name: string
+  similarity: number // 1 は完全一致
+}
+
+/**
+ * POSで切り詰められた商品名（ｸﾗｺﾝｼｵｺﾝﾌﾞ・KS ORG EGGS 24CT）を読みやすい商品名に展開する辞書
+ * 全角・半角、カタカナ・ひらがなの違いを無視し、OCRの誤読は類似度で許容する
+ */
+export class ProductAbbreviationDictionary {
+  private static readonly entries: ProductAbbreviationEntry[] = [...abbreviationData.entries as ProductAbbreviationEntry[]]
+  // 類似度で照合する略称の最小文字数（短い略称は完全一致のみ）
+  private static readonly FUZZY_MIN_LENGTH = 5
+  private static readonly FUZZY_THRESHOLD = 0.8
+
+  /**
+   * 辞書に略称を追加（後から追加したものを優先）
+   */
+  static register(entries: ProductAbbreviationEntry[]): void {
+    this.entries.unshift(...entries)
+  }
+
+  /**
+   * 全店舗の略称の一覧
+   */
+  static getAllEntries(): ProductAbbreviationEntry[] {
+    return [...this.entries]
+  }
+
+  /**
+   * 店舗に適用する略称の一覧
+   */
+  static getEntries(storeId?: string): ProductAbbreviationEntry[] {
+    return this.entries.filter(entry => !entry.stores || (storeId !== undefined && entry.stores.includes(storeId)))
+  }
+
+  /**
+   * 商品名を展開（一致する略称がなければそのまま）
+   */
+  static expand(name: string, storeId?: string): string {
+    return this.match(name, storeId)?.name ?? name
+  }
+
+  /**
+   * 商品名に一致する略称を検索（先頭一致の略称を優先し、なければ商品名中の略称を置き換える）
+   */
+  static match(name: string, storeId?: string): AbbreviationMatch | null {
+    const entries = this.getEntries(storeId)
+    const display = TextNormalizer.normalize(name).replace(/^[*※]+/, '').trim()
+    if (!display) return null
+
+    const prefixMatch = this.matchPrefix(display, entries.filter(entry => entry.match !== 'contains'))
+    if (prefixMatch) return prefixMatch
+
+    return this.replaceContained(display, entries.filter(entry => entry.match === 'contains'))
+  }
+
+  /**
+   * 解析済みの商品名を展開（レシート上の表記は receiptName に残す。ユーザー辞書を適用済みの商品は対象外）
+   */
+  static applyToItems(items: ExtractedItem[], storeId?: string, debugMode: boolean = false): ExtractedItem[] {
+    return items.map(item => {
+      if (item.metadata?.productAlias) return item
+
+      const match = this.match(item.name, storeId)
+      if (!match || match.name === item.name) return item
+
+      if (debugMode) {
+        console.log(`📚 略称を展開: "${item.name}" → "${match.name}" (類似度${match.similarity.toFixed(2)})`)
+      }
+
+      return {
+        ...item,
+        name: match.name,
+        receiptName: item.receiptName ?? item.name,
+        // 略称のままでは分類できなかった商品は展開後の商品名で分類し直す
+        category: !item.category || item.category === 'その他' ? ProductCategorizer.categorize(match.name) : item.category,
+        metadata: {
+          ...item.metadata,
+          abbreviation: match.entry.abbreviation
+        }
+      }
+    })
+  }
+
+  /**
+   * 先頭一致（完全一致の長い略称を優先し、なければ類似度が最も高い略称）
+   */
+  private static matchPrefix(display: string, entries: ProductAbbreviationEntry[]): AbbreviationMatch | null {
+    const nameKey = this.toKey(display)
+    let best: { entry: ProductAbbreviationEntry, length: number, similarity: number } | null = null
+
+    for (const entry of entries) {
+      const key = this.toKey(entry.abbreviation)
+      if (!key) continue
+
+      let similarity = 0
+      if (nameKey.startsWith(key)) {
+        similarity = 1
+      } else if (key.length >= this.FUZZY_MIN_LENGTH) {
+        similarity = this.similarity(nameKey.slice(0, key.length), key)
+      }
+
+      if (similarity < this.FUZZY_THRESHOLD) continue
+      if (best && (similarity < best.similarity || (similarity === best.similarity && key.length <= best.length))) continue
+
+      // 略称の後ろは容量・入数などの区切りのある表記のみ許容（ユタ → ユタカ のような誤展開を防ぐ）
+      const cut = this.cutIndex(display, Math.min(key.length, nameKey.length))
+      const rest = display.slice(cut)
+      if (rest && !/^[\s\d(（]/.test(rest)) continue
+
+      best = { entry, length: key.length, similarity }
+    }
+
+    if (!best) return null
+
+    const rest = display.slice(this.cutIndex(display, Math.min(best.length, nameKey.length))).trim()
+    return {
+      entry: best.entry,
+      name: rest ? `${best.entry.name} ${rest}` : best.entry.name,
+      similarity: best.similarity
+    }
+  }
+
+  /**
+   * 商品名中の略称を置き換え（長い略称から順に。英字の略称は単語単位）
+   */
+  private static replaceContained(display: string, entries: ProductAbbreviationEntry[]): AbbreviationMatch | null {
+    let replaced = display
+    let matched: ProductAbbreviationEntry | undefined
+
+    const longestFirst = [...entries].sort((a, b) => b.abbreviation.length - a.abbreviation.length)
+    longestFirst.forEach(entry => {
+      const abbreviation = TextNormalizer.normalize(entry.abbreviation).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      const pattern = /^[\x20-\x7E]+$/.test(entry.abbreviation)
+        ? new RegExp(`(?<![A-Za-z0-9])${abbreviation}(?![A-Za-z0-9])`, 'gi')
+        : new RegExp(abbreviation, 'g')
+
+      const next = replaced.replace(pattern, entry.name)
+      if (next !== replaced) {
+        replaced = next
+        matched = matched ?? entry
+      }
+    })
+
+    return matched ? { entry: matched, name: replaced.replace(/\s+/g, ' ').trim(), similarity: 1 } : null
+  }
+
+  /**
+   * 照合用のキー（空白・記号を除く）
+   */
+  private static toKey(text: string): string {
+    return TextNormalizer.toMatchKey(text).replace(/[\s*※・.]/g, '')
+  }
+
+  /**
+   * キーの文字数に対応する表示用の商品名の位置（空白・記号を数えずに進める）
+   */
+  private static cutIndex(display: string, keyLength: number): number {
+    let count = 0
+    for (let index = 0; index < display.length; index++) {
+      if (count === keyLength) return index
+      if (!/[\s*※・.]/.test(display[index])) count++
+    }
+    return display.length
+  }
+
+  /**
+   * 文字列の類似度（0〜1、レーベンシュタイン距離）
+   */
+  private static similarity(a: string, b: string): number {
+    const maxLength = Math.max(a.length, b.length)
+    if (maxLength === 0) return 1
+
+    return (maxLength - OCRCommonUtils.levenshteinDistance(a, b)) / maxLength
+  }
+}
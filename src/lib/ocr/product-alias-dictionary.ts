@@ -0,0 +1,84 @@
+import { ExtractedItem } from '@/types/ocr-patterns'
+import { ProductCategorizer } from './product-categorizer'
+import { TextNormalizer } from './text-normalizer'
+
+// ユーザーが修正した商品（レシート上の表記 → 修正後の商品名・カテゴリ・単位）
+export interface ProductAlias {
+  rawText: string
+  name: string
+  category?: string | null
+  unit?: string | null
+}
+
+/**
+ * ユーザーごとの商品名辞書
+ * 取り込んだ食材を修正した内容を記録したもので、以降のレシートでは組み込みの規則より先に適用する
+ */
+export class ProductAliasDictionary {
+  private readonly byRawKey = new Map<string, ProductAlias>()
+  private readonly byName = new Map<string, ProductAlias>()
+
+  constructor(aliases: ProductAlias[] = []) {
+    aliases.forEach(alias => {
+      this.byRawKey.set(ProductAliasDictionary.normalizeKey(alias.rawText), alias)
+      // 修正後の商品名からもカテゴリ・単位を引けるようにする
+      this.byName.set(ProductAliasDictionary.normalizeKey(alias.name), alias)
+    })
+  }
+
+  /**
+   * 辞書の検索キー（全角・半角、カタカナ・ひらがな、大文字・小文字、空白、先頭の*印の違いを無視）
+   */
+  static normalizeKey(text: string): string {
+    return TextNormalizer.toMatchKey(text).replace(/^[*※]+/, '').replace(/\s+/g, '')
+  }
+
+  get size(): number {
+    return this.byRawKey.size
+  }
+
+  /**
+   * レシート上の表記から検索
+   */
+  lookup(rawText: string): ProductAlias | undefined {
+    return this.byRawKey.get(ProductAliasDictionary.normalizeKey(rawText))
+  }
+
+  /**
+   * 商品名（レシート上の表記または修正後の商品名）から検索
+   */
+  lookupName(name: string): ProductAlias | undefined {
+    return this.lookup(name) || this.byName.get(ProductAliasDictionary.normalizeKey(name))
+  }
+
+  /**
+   * 解析済みの商品に辞書を適用（レシート上の表記は receiptName に残す）
+   */
+  applyToItems(items: ExtractedItem[], debugMode: boolean = false): ExtractedItem[] {
+    if (this.size === 0) return items
+
+    return items.map(item => {
+      // 略称を展開済みの商品はレシート上の表記で照合
+      const receiptName = item.receiptName ?? item.name
+      const alias = this.lookup(receiptName)
+      if (!alias) return item
+
+      if (debugMode) {
+        console.log(`📖 ユーザー辞書を適用: "${receiptName}" → "${alias.name}"`)
+      }
+
+      return {
+        ...item,
+        name: alias.name,
+        receiptName,
+        category: ProductCategorizer.categorize(alias.name, this),
+        // 量り売りの単位はレシートの印字を優先
+        unit: alias.unit && item.unitPriceBasis === undefined ? alias.unit : item.unit,
+        metadata: {
+          ...item.metadata,
+          productAlias: true
+        }
+      }
+    })
+  }
+}
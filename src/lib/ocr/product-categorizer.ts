@@ -1,4 +1,6 @@
 import { CATEGORIES } from '@/constants/itemConstants'
+import type { ProductAliasDictionary } from './product-alias-dictionary'
+import { TextNormalizer } from './text-normalizer'
 
 /**
  * 商品名から適切なカテゴリを自動分類するシステム
@@ -19,7 +21,11 @@ export class ProductCategorizer {
         'tomato', 'tomatoes', 'cucumber', 'eggplant', 'pepper', 'peppers', 'lettuce', 'spinach',
         'bean sprouts', 'green onion', 'radish', 'broccoli', 'asparagus', 'pumpkin', 'squash',
         'mushroom', 'mushrooms', 'shiitake', 'burdock', 'lotus root', 'green beans', 'parsley',
-        'celery', 'bok choy', 'zucchini', 'okra', 'corn', 'sprouts'
+        'celery', 'bok choy', 'zucchini', 'okra', 'corn', 'sprouts',
+        // Korean keywords
+        '배추', '양배추', '당근', '감자', '양파', '오이', '시금치', '콩나물', '숙주', '대파', '버섯', '풋고추', '애호박', '깻잎', '브로콜리', '상추', '무우',
+        // Chinese keywords
+        '土豆', '洋葱', '黄瓜', '番茄', '西红柿', '胡萝卜', '茄子', '菠菜', '豆芽', '香菇', '金针菇', '萝卜', '芹菜', '韭菜', '大葱', '生菜', '西兰花', '玉米', '蔬菜'
       ],
       patterns: [
         /.*野菜$/,
@@ -35,7 +41,11 @@ export class ProductCategorizer {
         'fruit', 'fruits', 'apple', 'apples', 'orange', 'oranges', 'banana', 'bananas', 'strawberry', 'strawberries',
         'grape', 'grapes', 'pear', 'pears', 'peach', 'peaches', 'melon', 'watermelon', 'kiwi',
         'grapefruit', 'lemon', 'lemons', 'lime', 'limes', 'pineapple', 'mango', 'mangoes', 'avocado', 'avocados',
-        'cherry', 'cherries', 'blueberry', 'blueberries', 'raspberry', 'raspberries', 'fig', 'figs', 'apricot', 'persimmon'
+        'cherry', 'cherries', 'blueberry', 'blueberries', 'raspberry', 'raspberries', 'fig', 'figs', 'apricot', 'persimmon',
+        // Korean keywords
+        '사과', '바나나', '딸기', '포도', '귤', '수박', '참외', '복숭아', '키위', '레몬', '망고', '과일',
+        // Chinese keywords
+        '苹果', '香蕉', '草莓', '葡萄', '橘子', '西瓜', '桃子', '芒果', '橙子', '柠檬', '水果'
       ],
       patterns: [
         /.*フルーツ$/,
@@ -49,7 +59,11 @@ export class ProductCategorizer {
         // English keywords
         'meat', 'pork', 'beef', 'chicken', 'turkey', 'lamb', 'ham', 'bacon', 'sausage', 'sausages',
         'ground beef', 'ground pork', 'ground chicken', 'minced meat', 'loin', 'ribs', 'steak',
-        'hot dog', 'hot dogs', 'wiener', 'salami', 'deli meat', 'cold cuts'
+        'hot dog', 'hot dogs', 'wiener', 'salami', 'deli meat', 'cold cuts',
+        // Korean keywords
+        '돼지고기', '소고기', '쇠고기', '닭고기', '삼겹살', '목살', '불고기', '갈비', '고기', '소시지', '베이컨',
+        // Chinese keywords
+        '猪肉', '鸡肉', '羊肉', '五花肉', '排骨', '鸡翅', '鸡腿', '香肠', '火腿', '培根'
       ],
       patterns: [
         /.*肉$/,
@@ -65,7 +79,11 @@ export class ProductCategorizer {
         // English keywords
         'fish', 'salmon', 'tuna', 'mackerel', 'sardine', 'cod', 'flounder', 'sea bass', 'sashimi',
         'squid', 'octopus', 'shrimp', 'prawns', 'crab', 'scallop', 'clam', 'clams', 'eel',
-        'seaweed', 'nori', 'wakame', 'kelp', 'seafood'
+        'seaweed', 'nori', 'wakame', 'kelp', 'seafood',
+        // Korean keywords
+        '생선', '연어', '참치', '고등어', '갈치', '오징어', '새우', '조개', '멸치', '미역', '다시마', '어묵',
+        // Chinese keywords
+        '鱼', '三文鱼', '带鱼', '鱿鱼', '虾', '海带', '紫菜', '鲍鱼', '扇贝', '蛤蜊', '海鲜'
       ],
       patterns: [
         /.*魚$/,
@@ -80,7 +98,11 @@ export class ProductCategorizer {
         // English keywords
         'milk', 'cheese', 'yogurt', 'yoghurt', 'butter', 'cream', 'heavy cream', 'sour cream',
         'cottage cheese', 'mozzarella', 'cheddar', 'gouda', 'camembert', 'cream cheese', 'mascarpone',
-        'dairy', 'whole milk', 'skim milk', '2% milk'
+        'dairy', 'whole milk', 'skim milk', '2% milk',
+        // Korean keywords
+        '우유', '치즈', '요거트', '요구르트', '버터', '생크림',
+        // Chinese keywords
+        '牛奶', '酸奶', '奶酪', '芝士', '黄油', '奶油'
       ],
       patterns: [
         /.*乳$/,
@@ -96,7 +118,11 @@ export class ProductCategorizer {
         // English keywords
         'bread', 'white bread', 'whole wheat bread', 'rice', 'pasta', 'noodles', 'spaghetti',
         'macaroni', 'penne', 'flour', 'breadcrumbs', 'oatmeal', 'cereal', 'croissant',
-        'baguette', 'bagel', 'muffin', 'roll', 'grain', 'grains', 'wheat', 'quinoa'
+        'baguette', 'bagel', 'muffin', 'roll', 'grain', 'grains', 'wheat', 'quinoa',
+        // Korean keywords
+        '쌀', '현미', '빵', '식빵', '라면', '국수', '냉면', '당면', '우동', '떡', '밀가루',
+        // Chinese keywords
+        '大米', '米饭', '面包', '面条', '挂面', '拉面', '方便面', '米粉', '粉丝', '年糕', '馒头', '面粉'
       ],
       patterns: [
         /.*パン$/,
@@ -112,7 +138,11 @@ export class ProductCategorizer {
         'オリーブ', 'ピクルス', '梅干し', '佃煮', 'のり佃煮', 'なめたけ', 'メンマ',
         // English keywords
         'canned', 'jarred', 'tuna can', 'corn can', 'tomato can', 'jam', 'jelly', 'honey', 'syrup',
-        'olives', 'pickles', 'preserve', 'preserves', 'sauce jar', 'canned food', 'bottled'
+        'olives', 'pickles', 'preserve', 'preserves', 'sauce jar', 'canned food', 'bottled',
+        // Korean keywords
+        '통조림', '참치캔', '잼', '꿀', '김치',
+        // Chinese keywords
+        '罐头', '果酱', '蜂蜜', '榨菜'
       ],
       patterns: [
         /.*缶$/,
@@ -129,7 +159,11 @@ export class ProductCategorizer {
         // English keywords
         'soy sauce', 'miso', 'salt', 'sugar', 'vinegar', 'mirin', 'cooking wine', 'oil', 'olive oil',
         'mayonnaise', 'ketchup', 'sauce', 'dressing', 'spice', 'spices', 'pepper', 'garlic', 'ginger',
-        'mustard', 'wasabi', 'hot sauce', 'seasoning', 'condiment', 'condiments'
+        'mustard', 'wasabi', 'hot sauce', 'seasoning', 'condiment', 'condiments',
+        // Korean keywords
+        '간장', '된장', '고추장', '쌈장', '소금', '설탕', '식초', '참기름', '들기름', '마늘', '생강', '고춧가루', '다시다', '마요네즈', '케첩', '식용유', '양념',
+        // Chinese keywords
+        '酱油', '生抽', '老抽', '醋', '盐', '白糖', '蚝油', '料酒', '香油', '麻油', '花生油', '豆瓣酱', '辣椒酱', '味精', '鸡精', '大蒜', '姜', '胡椒粉', '芝麻', '调料'
       ],
       patterns: [
         /.*調味料$/,
@@ -146,7 +180,11 @@ export class ProductCategorizer {
         // English keywords
         'water', 'tea', 'green tea', 'black tea', 'coffee', 'juice', 'cola', 'coke', 'pepsi',
         'soda', 'soft drink', 'beer', 'wine', 'alcohol', 'vodka', 'whiskey', 'rum', 'gin',
-        'energy drink', 'sports drink', 'milk', 'soy milk', 'almond milk', 'beverage', 'drink'
+        'energy drink', 'sports drink', 'milk', 'soy milk', 'almond milk', 'beverage', 'drink',
+        // Korean keywords
+        '생수', '녹차', '보리차', '커피', '주스', '콜라', '사이다', '맥주', '소주', '막걸리', '와인', '두유', '음료',
+        // Chinese keywords
+        '矿泉水', '绿茶', '红茶', '乌龙茶', '咖啡', '果汁', '可乐', '雪碧', '啤酒', '白酒', '豆浆', '饮料'
       ],
       patterns: [
         /.*ml$/,
@@ -166,7 +204,11 @@ export class ProductCategorizer {
         // English keywords
         'chocolate', 'cookie', 'cookies', 'cake', 'candy', 'gum', 'chips', 'snack', 'snacks',
         'biscuit', 'wafer', 'pudding', 'jelly', 'marshmallow', 'nuts', 'almond', 'peanut',
-        'ice cream', 'dessert', 'sweet', 'sweets'
+        'ice cream', 'dessert', 'sweet', 'sweets',
+        // Korean keywords
+        '과자', '초콜릿', '쿠키', '사탕', '젤리', '케이크', '약과',
+        // Chinese keywords
+        '饼干', '巧克力', '糖果', '薯片', '蛋糕', '零食', '月饼'
       ],
       patterns: [
         /.*チョコ.*$/,
@@ -180,7 +222,11 @@ export class ProductCategorizer {
         '冷凍野菜', '冷凍肉', '冷凍魚', '冷凍餃子', '冷凍うどん', '冷凍ピザ', '冷凍フライ',
         // English keywords
         'frozen', 'ice cream', 'ice', 'frozen food', 'frozen vegetables', 'frozen meat',
-        'frozen fish', 'frozen pizza', 'frozen dinner', 'popsicle', 'sherbet', 'sorbet'
+        'frozen fish', 'frozen pizza', 'frozen dinner', 'popsicle', 'sherbet', 'sorbet',
+        // Korean keywords
+        '냉동', '만두', '아이스크림', '빙수',
+        // Chinese keywords
+        '冷冻', '速冻', '水饺', '饺子', '汤圆', '冰淇淋', '雪糕'
       ],
       patterns: [
         /^冷凍.*/,
@@ -189,24 +235,34 @@ export class ProductCategorizer {
     }
   }
 
+  // 照合用のキーに変換したキーワード（初回の分類時に作成）
+  private static keywordKeys: Array<{ category: string, keyword: string, key: string }> | null = null
+
   /**
-   * 商品名から最適なカテゴリを判定
+   * 商品名から最適なカテゴリを判定（ユーザー辞書があれば組み込みの規則より優先）
    */
-  static categorize(productName: string): string {
+  static categorize(productName: string, aliases?: ProductAliasDictionary): string {
     if (!productName || productName.trim().length === 0) {
       return 'その他'
     }
 
-    const cleanName = productName.trim().toLowerCase()
+    const aliasCategory = aliases?.lookupName(productName)?.category
+    if (aliasCategory) {
+      return aliasCategory
+    }
+
+    const cleanName = TextNormalizer.normalize(productName).trim().toLowerCase()
+    // キーワードはカタカナ・ひらがなの違いを無視して照合
+    const matchKey = TextNormalizer.foldKana(cleanName)
     
-    // 各カテゴリをチェック
+    // キーワードマッチング
+    const keywordMatch = this.matchKeyword(matchKey)
+    if (keywordMatch) {
+      return keywordMatch.category
+    }
+
+    // パターンマッチング
     for (const [category, config] of Object.entries(this.CATEGORY_KEYWORDS)) {
-      // キーワードマッチング
-      if (config.keywords.some(keyword => cleanName.includes(keyword.toLowerCase()))) {
-        return category
-      }
-      
-      // パターンマッチング
       if (config.patterns && config.patterns.some(pattern => pattern.test(cleanName))) {
         return category
       }
@@ -221,6 +277,26 @@ export class ProductCategorizer {
     return 'その他'
   }
 
+  /**
+   * 商品名に含まれる最も長いキーワード（牛乳・牛奶 が「牛」で肉類にならないように。同じ長さならカテゴリ定義の順）
+   */
+  private static matchKeyword(matchKey: string): { category: string, keyword: string } | null {
+    if (!this.keywordKeys) {
+      this.keywordKeys = Object.entries(this.CATEGORY_KEYWORDS).flatMap(([category, config]) =>
+        config.keywords.map(keyword => ({ category, keyword, key: TextNormalizer.toMatchKey(keyword) }))
+      )
+    }
+
+    let best: { category: string, keyword: string, key: string } | null = null
+    for (const entry of this.keywordKeys) {
+      if (matchKey.includes(entry.key) && (!best || entry.key.length > best.key.length)) {
+        best = entry
+      }
+    }
+
+    return best && { category: best.category, keyword: best.keyword }
+  }
+
   /**
    * 特別なパターンによる分類
    */
@@ -243,6 +319,13 @@ export class ProductCategorizer {
     return null
   }
 
+  /**
+   * 分類キーワードの一覧（商品名の誤読修正の語彙）
+   */
+  static getKeywords(): string[] {
+    return Object.values(this.CATEGORY_KEYWORDS).flatMap(config => config.keywords)
+  }
+
   /**
    * カテゴリ一覧を取得
    */
@@ -253,27 +336,30 @@ export class ProductCategorizer {
   /**
    * デバッグ用：マッチした理由を返す
    */
-  static categorizeWithReason(productName: string): { category: string, reason: string } {
+  static categorizeWithReason(productName: string, aliases?: ProductAliasDictionary): { category: string, reason: string } {
     if (!productName || productName.trim().length === 0) {
       return { category: 'その他', reason: '商品名が空' }
     }
 
-    const cleanName = productName.trim().toLowerCase()
+    const aliasCategory = aliases?.lookupName(productName)?.category
+    if (aliasCategory) {
+      return { category: aliasCategory, reason: 'ユーザー辞書にマッチ' }
+    }
+
+    const cleanName = TextNormalizer.normalize(productName).trim().toLowerCase()
+    const matchKey = TextNormalizer.foldKana(cleanName)
     
-    // 各カテゴリをチェック
-    for (const [category, config] of Object.entries(this.CATEGORY_KEYWORDS)) {
-      // キーワードマッチング
-      const matchedKeyword = config.keywords.find(keyword => 
-        cleanName.includes(keyword.toLowerCase())
-      )
-      if (matchedKeyword) {
-        return { 
-          category, 
-          reason: `キーワード「${matchedKeyword}」にマッチ` 
-        }
+    // キーワードマッチング
+    const keywordMatch = this.matchKeyword(matchKey)
+    if (keywordMatch) {
+      return { 
+        category: keywordMatch.category, 
+        reason: `キーワード「${keywordMatch.keyword}」にマッチ` 
       }
-      
-      // パターンマッチング
+    }
+
+    // パターンマッチング
+    for (const [category, config] of Object.entries(this.CATEGORY_KEYWORDS)) {
       if (config.patterns) {
         const matchedPattern = config.patterns.find(pattern => pattern.test(cleanName))
         if (matchedPattern) {
@@ -0,0 +1,217 @@
+import { ExtractedItem } from '@/types/ocr-patterns'
+import { ProductCategorizer } from './product-categorizer'
+import { ProductAbbreviationDictionary } from './product-abbreviation-dictionary'
+import { TextNormalizer } from './text-normalizer'
+
+// OCRで取り違えやすい文字の組と置換コスト（通常の置換は1）
+export const OCR_CONFUSION_COSTS: Array<[string, string, number]> = [
+  ['0', 'o', 0.2], ['0', 'd', 0.4], ['0', 'q', 0.4],
+  ['1', 'i', 0.2], ['1', 'l', 0.2], ['i', 'l', 0.3], ['1', '|', 0.2],
+  ['2', 'z', 0.3], ['3', 'e', 0.5], ['4', 'a', 0.5], ['5', 's', 0.3],
+  ['6', 'g', 0.4], ['6', 'b', 0.4], ['7', 't', 0.4], ['8', 'b', 0.3], ['9', 'g', 0.4], ['9', 'q', 0.4],
+  ['c', 'e', 0.5], ['u', 'v', 0.5], ['n', 'h', 0.5], ['m', 'n', 0.6],
+  ['ー', '一', 0.2], ['ー', '-', 0.2], ['カ', '力', 0.2], ['ロ', '口', 0.2], ['エ', '工', 0.2],
+  ['タ', '夕', 0.2], ['ト', '卜', 0.2], ['ニ', '二', 0.2], ['ハ', '八', 0.2], ['ヘ', 'へ', 0.2], ['ベ', 'べ', 0.2], ['ペ', 'ぺ', 0.2],
+  ['シ', 'ツ', 0.4], ['ソ', 'ン', 0.4], ['ク', 'ケ', 0.5], ['ウ', 'ワ', 0.5], ['チ', 'テ', 0.5]
+]
+
+// 数量・容量の表記で数字と取り違えやすい英字
+const DIGIT_LOOKALIKES: Record<string, string> = {
+  O: '0', o: '0', D: '0', I: '1', l: '1', '|': '1', Z: '2', z: '2', E: '3', A: '4',
+  S: '5', s: '5', G: '6', b: '6', T: '7', B: '8', g: '9', q: '9'
+}
+
+// 数量・容量の単位（数字の後ろに続くもの）
+const QUANTITY_UNIT = /(kg|g|ml|l|cc|oz|lb|ct|pk|p|個|本|枚|袋|入|パック|コ)$/i
+// 数字・取り違えやすい英字・小数点・×だけの語（数量・容量の数字部分）
+const NUMERIC_BODY = new RegExp(`^[\\d.,×x${Object.keys(DIGIT_LOOKALIKES).join('').replace('|', '\\|')}]+$`)
+
+/**
+ * 既知の商品名の語彙（分類キーワード・略称辞書・ユーザーの過去の食材）による商品名のOCR誤読修正
+ * 取り違えやすい文字の置換コストを下げた重み付き編集距離で最も近い語に置き換え、
+ * 英字→数字の置換は数量・容量の表記の中だけで行う
+ */
+export class ProductNameCorrector {
+  // 語彙と照合する語の最小文字数（短い語は誤修正が多い）
+  private static readonly MIN_TOKEN_LENGTH = 3
+  // 修正を許容する距離（語の長さに対する割合と上限）
+  private static readonly MAX_DISTANCE_RATIO = 0.2
+  private static readonly MAX_DISTANCE = 2
+  // 取り違え以外の挿入・削除・置換を含む修正（距離1以上）の割合。PEAS → PEARS のような別の語への修正を防ぐ
+  private static readonly PLAIN_EDIT_RATIO = 0.1
+  // 長音記号の脱落・挿入のコスト（ブロッコリ → ブロッコリー）
+  private static readonly LONG_VOWEL_INDEL_COST = 0.5
+  private static readonly confusionCosts = new Map(
+    OCR_CONFUSION_COSTS.flatMap(([a, b, cost]) => [[`${a}${b}`, cost], [`${b}${a}`, cost]])
+  )
+
+  private readonly vocabulary = new Map<string, string>()
+
+  /**
+   * @param extraVocabulary 組み込みの語彙に加える商品名（ユーザーの過去の食材・辞書の商品名）
+   */
+  constructor(extraVocabulary: string[] = []) {
+    const names = [
+      ...ProductCategorizer.getKeywords(),
+      ...ProductAbbreviationDictionary.getAllEntries().flatMap(entry => [entry.abbreviation, entry.name]),
+      ...extraVocabulary
+    ]
+    names.forEach(name => this.addWords(name))
+  }
+
+  get size(): number {
+    return this.vocabulary.size
+  }
+
+  /**
+   * 数量・容量の表記の中だけ、数字と取り違えた英字を数字に戻す（15Og → 150g、I50ML → 150ML）
+   */
+  static fixNumericContexts(name: string): string {
+    return name.replace(/[^\s]+/g, token => {
+      const unit = token.match(QUANTITY_UNIT)?.[0] || ''
+      const body = token.slice(0, token.length - unit.length)
+
+      // 数字を含み、数字と取り違えやすい英字・小数点・×以外を含まない語のみ
+      if (!/\d/.test(body) || !NUMERIC_BODY.test(body)) return token
+      // 英字で始まる語は単位が続く場合のみ（B12 のような型番は変えない）
+      if (!/^\d/.test(body) && !unit) return token
+
+      const fixed = body.replace(/[^\d.,×x]/g, char => DIGIT_LOOKALIKES[char] ?? char)
+      return fixed + unit
+    })
+  }
+
+  /**
+   * 商品名を語ごとに既知の語彙で修正（修正がなければそのまま）
+   */
+  correct(name: string): string {
+    return ProductNameCorrector.fixNumericContexts(name)
+      .split(/(\s+)/)
+      .map(token => (/^\s+$/.test(token) ? token : this.correctWord(token)))
+      .join('')
+  }
+
+  /**
+   * 解析済みの商品名を修正（レシート上の表記は receiptName に残す。ユーザー辞書を適用済みの商品は対象外）
+   */
+  applyToItems(items: ExtractedItem[], debugMode: boolean = false): ExtractedItem[] {
+    return items.map(item => {
+      if (item.metadata?.productAlias) return item
+
+      const corrected = this.correct(item.name)
+      if (corrected === item.name) return item
+
+      if (debugMode) {
+        console.log(`✏️ 商品名を修正: "${item.name}" → "${corrected}"`)
+      }
+
+      return {
+        ...item,
+        name: corrected,
+        receiptName: item.receiptName ?? item.name,
+        category: !item.category || item.category === 'その他' ? ProductCategorizer.categorize(corrected) : item.category,
+        metadata: {
+          ...item.metadata,
+          spellingCorrected: true
+        }
+      }
+    })
+  }
+
+  /**
+   * 語を語彙の最も近い語に置き換え（近い語が一つに定まらない場合は修正しない）
+   */
+  private correctWord(word: string): string {
+    const key = ProductNameCorrector.toKey(word)
+    if (key.length < ProductNameCorrector.MIN_TOKEN_LENGTH || this.vocabulary.has(key)) return word
+    // 数字だけ・数量表記の語は対象外
+    if (/^[\d.,]+$/.test(key) || (QUANTITY_UNIT.test(key) && /^\d/.test(key))) return word
+
+    let best: { word: string, distance: number } | null = null
+    let tied = false
+
+    for (const [candidateKey, candidate] of this.vocabulary) {
+      if (Math.abs(candidateKey.length - key.length) > ProductNameCorrector.MAX_DISTANCE) continue
+
+      const distance = ProductNameCorrector.weightedDistance(key, candidateKey)
+      const ratio = distance < 1 ? ProductNameCorrector.MAX_DISTANCE_RATIO : ProductNameCorrector.PLAIN_EDIT_RATIO
+      const limit = Math.min(ProductNameCorrector.MAX_DISTANCE, candidateKey.length * ratio)
+      if (distance > limit) continue
+
+      if (!best || distance < best.distance) {
+        best = { word: candidate, distance }
+        tied = false
+      } else if (distance === best.distance && candidate !== best.word) {
+        tied = true
+      }
+    }
+
+    if (!best || tied) return word
+    return ProductNameCorrector.matchStyle(word, best.word)
+  }
+
+  private addWords(name: string): void {
+    TextNormalizer.normalize(name).split(/\s+/).forEach(word => {
+      const key = ProductNameCorrector.toKey(word)
+      if (key.length >= ProductNameCorrector.MIN_TOKEN_LENGTH && !/\d/.test(key) && !this.vocabulary.has(key)) {
+        this.vocabulary.set(key, word)
+      }
+    })
+  }
+
+  /**
+   * 照合用のキー（全角・半角と大文字・小文字を無視。取り違えを見分けるためカナは変換しない）
+   */
+  private static toKey(word: string): string {
+    return TextNormalizer.normalize(word).toLowerCase()
+  }
+
+  /**
+   * 修正前の語の書き方（大文字・カタカナ）に合わせる
+   */
+  private static matchStyle(original: string, corrected: string): string {
+    if (/[A-Z]/.test(original) && original === original.toUpperCase()) return corrected.toUpperCase()
+    if (/^[A-Z][a-z]/.test(original)) return corrected.charAt(0).toUpperCase() + corrected.slice(1)
+    return corrected
+  }
+
+  /**
+   * 取り違えやすい文字の置換コストを下げた編集距離（濁点・半濁点だけの違いと長音記号の脱落は0.5）
+   */
+  private static weightedDistance(a: string, b: string): number {
+    let previousRow = [0]
+    for (let j = 1; j <= b.length; j++) {
+      previousRow[j] = previousRow[j - 1] + this.indelCost(b[j - 1])
+    }
+
+    for (let i = 1; i <= a.length; i++) {
+      const currentRow = [previousRow[0] + this.indelCost(a[i - 1])]
+      for (let j = 1; j <= b.length; j++) {
+        currentRow[j] = Math.min(
+          currentRow[j - 1] + this.indelCost(b[j - 1]),
+          previousRow[j] + this.indelCost(a[i - 1]),
+          previousRow[j - 1] + this.substitutionCost(a[i - 1], b[j - 1])
+        )
+      }
+      previousRow = currentRow
+    }
+
+    return previousRow[b.length]
+  }
+
+  private static indelCost(char: string): number {
+    return char === 'ー' ? this.LONG_VOWEL_INDEL_COST : 1
+  }
+
+  private static substitutionCost(a: string, b: string): number {
+    if (a === b) return 0
+
+    const confusion = this.confusionCosts.get(`${a}${b}`)
+    if (confusion !== undefined) return confusion
+
+    // キ/ギ、ハ/パ のように基底の文字が同じもの（ハングルは初声が同じでも別の語になるため対象外）
+    if (!/[가-힯]/.test(a + b) && a.normalize('NFD')[0] === b.normalize('NFD')[0]) return 0.5
+
+    return 1
+  }
+}
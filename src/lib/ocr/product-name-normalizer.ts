@@ -1,4 +1,9 @@
 import { NORMALIZATION_RULES, PRODUCT_CATEGORIES } from './warehouse-pattern-definitions'
+import type { ProductAliasDictionary } from './product-alias-dictionary'
+import { TextNormalizer } from './text-normalizer'
+import { ProductAbbreviationDictionary } from './product-abbreviation-dictionary'
+import { ProductNameCorrector } from './product-name-corrector'
+import { CJK_CHARACTER_CLASS } from './script-detector'
 
 /**
  * 商品名正規化とカテゴリ分類を担当するユーティリティクラス
@@ -7,25 +12,23 @@ import { NORMALIZATION_RULES, PRODUCT_CATEGORIES } from './warehouse-pattern-def
 export class ProductNameNormalizer {
 
   /**
-   * 商品名を正規化（OCR誤読修正 + ブランド名統一）
+   * 商品名を正規化（略称の展開 + OCR誤読修正）
+   * ユーザー辞書に登録された表記は組み込みの規則より優先して置き換える
    */
-  static normalizeProductName(name: string): string {
-    let normalized = name.trim()
+  static normalizeProductName(name: string, aliases?: ProductAliasDictionary, storeId?: string): string {
+    const alias = aliases?.lookup(name)
+    if (alias) {
+      return alias.name
+    }
+
+    // POSの略称・ブランド名を読みやすい商品名に展開（英字の誤読修正より先に照合）
+    let normalized = ProductAbbreviationDictionary.expand(TextNormalizer.normalize(name).trim(), storeId)
+
+    // 数字の誤読修正（数量・容量の表記の中だけ。ORGANIC のような英語の商品名は変えない）
+    normalized = ProductNameCorrector.fixNumericContexts(normalized)
 
     // OCR誤読修正の適用
     const ocrFixes = [
-      // 数字の誤読修正
-      { from: /O/g, to: '0' },
-      { from: /I/g, to: '1' },
-      { from: /Z/g, to: '2' },
-      { from: /E(?=\d)/g, to: '3' },
-      { from: /A(?=\d)/g, to: '4' },
-      { from: /S(?=\d)/g, to: '5' },
-      { from: /G(?=\d)/g, to: '6' },
-      { from: /T(?=\d)/g, to: '7' },
-      { from: /B(?=\d)/g, to: '8' },
-      { from: /g(?=\d)/g, to: '9' },
-
       // 記号の修正
       { from: /⚫/g, to: '個' },
       { from: /°/g, to: '個' },
@@ -44,28 +47,12 @@ export class ProductNameNormalizer {
       normalized = normalized.replace(from, to)
     })
 
-    // ブランド名・固有名詞を一般名詞に置き換え
+    // 誤読・単位表記の個別修正（略称・ブランド名は src/config/productAbbreviations.json）
     const replacements = [
-      // 靴・アパレル
-      { from: /UGG ANSLEY/gi, to: 'ムートンシューズ' },
-      { from: /UGG/gi, to: 'ムートンブーツ' },
-
-      // 食品メーカー・ブランド
-      { from: /ユダノム/gi, to: 'ヨーグルト' },
-      { from: /ユタ/gi, to: 'ヨーグルト' },
-      { from: /KS/gi, to: 'プライベートブランド' },
-      { from: /PROSCIUTTO CRUDO/gi, to: '生ハム' },
-      { from: /マイケルリンネル/gi, to: 'ショルダーバッグ' },
-      { from: /MLEP-08/gi, to: 'バッグ' },
-
-      // 一般化・単位の統一
       { from: /チケ\*/gi, to: 'チゲ' },
       { from: /150g×12個/gi, to: '150g×12個パック' },
       { from: /1L×2本/gi, to: '1L×2本パック' },
       { from: /スンドゥプ/gi, to: 'スンドゥブチゲ' },
-      { from: /トクセンキュウニュウ/gi, to: '特選牛乳' },
-      { from: /ギュウニュウ/gi, to: '牛乳' },
-      { from: /BATH TISSUE/gi, to: 'トイレットペーパー' },
       { from: /シュリンプ.*カクテル/gi, to: 'エビカクテル' },
 
       // 追加の食材名修正
@@ -81,10 +68,15 @@ export class ProductNameNormalizer {
   }
 
   /**
-   * 商品をカテゴリ分類
+   * 商品をカテゴリ分類（ユーザー辞書があれば優先）
    */
-  static categorizeProduct(name: string): string {
-    const normalizedName = name.toLowerCase()
+  static categorizeProduct(name: string, aliases?: ProductAliasDictionary): string {
+    const aliasCategory = aliases?.lookupName(name)?.category
+    if (aliasCategory) {
+      return aliasCategory
+    }
+
+    const normalizedName = TextNormalizer.toMatchKey(name)
 
     // 食品関連のキーワードマッチング
     if (this.matchesCategory(normalizedName, ['ヨーグルト', '牛乳', '乳製品', 'ミルク'])) {
@@ -96,7 +88,7 @@ export class ProductNameNormalizer {
     if (this.matchesCategory(normalizedName, ['野菜', '果物', 'グレープフルーツ', 'フルーツ'])) {
       return '野菜・果物'
     }
-    if (this.matchesCategory(normalizedName, ['冷凍', 'チゲ', 'スンドゥブ'])) {
+    if (this.matchesCategory(normalizedName, ['冷凍', 'チゲ', 'スンドゥブ', '순두부', '찌개'])) {
       return '冷凍食品'
     }
     if (this.matchesCategory(normalizedName, ['卵', 'うずら'])) {
@@ -121,7 +113,7 @@ export class ProductNameNormalizer {
    * 商品名が特定のカテゴリキーワードと一致するかチェック
    */
   private static matchesCategory(name: string, keywords: string[]): boolean {
-    return keywords.some(keyword => name.includes(keyword.toLowerCase()))
+    return keywords.some(keyword => name.includes(TextNormalizer.toMatchKey(keyword)))
   }
 
   /**
@@ -182,7 +174,7 @@ export class ProductNameNormalizer {
     return name
       .trim()
       .replace(/\s+/g, ' ')  // 複数の空白を単一の空白に
-      .replace(/[^\w\s\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/g, '') // 不要な記号を除去
+      .replace(new RegExp(`[^\\w\\s${CJK_CHARACTER_CLASS}]`, 'g'), '') // 不要な記号を除去（ハングル・簡体字は残す）
       .trim()
   }
 
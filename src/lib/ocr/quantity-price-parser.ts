@@ -0,0 +1,241 @@
+import { ExtractedItem } from '@/types/ocr-patterns'
+
+// 数量×単価＝金額の検算結果
+// verified: 一致 / misread: 数量か単価の読み違いで説明できる不一致（印字の値のまま） / derived: 不足分を計算 / mismatch: 不一致 / unchecked: 検算不可
+export type QuantityPriceCheck = 'verified' | 'misread' | 'derived' | 'mismatch' | 'unchecked'
+
+export interface QuantityPriceValues {
+  quantity: number
+  unitPrice?: number
+  lineTotal?: number
+  currency?: 'JPY' | 'USD'
+}
+
+export interface QuantityPriceMatch extends QuantityPriceValues {
+  check: QuantityPriceCheck
+  suspected?: 'quantity' | 'unitPrice' // 読み違いの可能性がある項目（値は変更しない）
+  suggestedValue?: number // 金額と一致する数量・単価
+  name?: string // 同じ行で表記の前にある商品名
+  matchedText: string
+}
+
+// 数量の単位（コ・個・点等）
+const QUANTITY_UNIT = '(?:コ|個|点|本|袋|缶|枚|パック|PCS?|EA)'
+// 金額（3桁区切り・小数2桁まで）
+const AMOUNT = '(\\d{1,3}(?:,\\d{3})+(?:\\.\\d{1,2})?|\\d+(?:\\.\\d{1,2})?)'
+
+// 数量が先: 2コX単158 / 2個 @158 / 3 @ $1.99 / 2点×158円
+const QUANTITY_FIRST = new RegExp(
+  `(?<![\\d.,])(\\d{1,2})\\s*(${QUANTITY_UNIT})?\\s*([xX×*@]\\s*(?:単価?)?|単価?)\\s*([¥$])?\\s*${AMOUNT}\\s*(円)?`,
+  'i'
+)
+// 単価が先: @158 x 2 / 単158×2個 / $1.99 x 3
+const UNIT_PRICE_FIRST = new RegExp(
+  `(@|単価?|[¥$])\\s*([¥$])?\\s*${AMOUNT}\\s*(円)?\\s*(?:${QUANTITY_UNIT}\\s*)?[xX×*]\\s*(\\d{1,2})(?!\\d)\\s*(${QUANTITY_UNIT})?`,
+  'i'
+)
+// 数量のみ: QTY 2 / 数量 2 / 2個 / x2
+const QUANTITY_ONLY = new RegExp(
+  `^(?:(?:QTY|数量)\\s*[:：]?\\s*(\\d{1,3})|(\\d{1,3})\\s*(?:${QUANTITY_UNIT}|QTY)|[xX×](\\d{1,2}))$`,
+  'i'
+)
+// 表記の後ろの金額（税区分の記号を許容）: 2コX単158 316 / 3 @ $1.99 5.97 H / 2個 @158 316 軽
+const TRAILING_TOTAL = new RegExp(`^\\s*([¥$])?\\s*${AMOUNT}\\s*(円)?\\s*[A-Z*※軽]{0,2}$`, 'i')
+
+// 商品名と区別できない数量（「2×6」等の入数表記）を除くため、単位・記号のない表記は単独の行のみ認識する
+const EXPLICIT_MARKER = /[@単¥$円]|コ|個|点|本|袋|缶|枚|パック|PCS?|EA/i
+
+const MAX_QUANTITY = 99
+
+/**
+ * 数量×単価の行の認識
+ * 日本語（2コX単158・2個 @158）と英語（3 @ $1.99・QTY 2）の表記、全角数字に対応し、
+ * 数量・単価・金額を検算する。各店舗パーサーから共通で使用する
+ */
+export class QuantityPriceParser {
+
+  /**
+   * 行から数量×単価の表記を認識（見つからなければ null）
+   */
+  static parse(line: string): QuantityPriceMatch | null {
+    const normalized = this.normalize(line)
+    if (!normalized) return null
+
+    const quantityOnly = normalized.match(QUANTITY_ONLY)
+    if (quantityOnly) {
+      const quantity = parseInt(quantityOnly[1] || quantityOnly[2] || quantityOnly[3])
+      if (quantity < 1 || quantity > MAX_QUANTITY) return null
+      return { quantity, check: 'unchecked', matchedText: normalized }
+    }
+
+    const parsed = this.parseQuantityFirst(normalized) || this.parseUnitPriceFirst(normalized)
+    if (!parsed) return null
+
+    const { values, index, matchedText } = parsed
+    const name = normalized.slice(0, index).replace(/[\s:：\-]+$/, '').trim() || undefined
+
+    // 商品名に続く場合は、単位・記号の付いた表記のみ認識する
+    if (name && !EXPLICIT_MARKER.test(matchedText)) return null
+
+    // 表記の後ろに金額があれば検算に使用
+    const rest = normalized.slice(index + matchedText.length)
+    const trailing = rest.match(TRAILING_TOTAL)
+    if (trailing) {
+      values.lineTotal = this.parseAmount(trailing[2])
+      values.currency = values.currency || this.detectCurrency(trailing[1], trailing[2], trailing[3])
+    } else if (rest.trim()) {
+      return null
+    }
+
+    return {
+      ...this.reconcile(values),
+      name,
+      matchedText: trailing ? normalized.slice(index) : matchedText
+    }
+  }
+
+  /**
+   * 数量のみの行（2個・QTY 2 等）から数量を取得
+   * allowBareNumber: 数量の位置が決まっている行では単位のない数字（2・2.）も認める
+   */
+  static parseQuantity(line: string, allowBareNumber: boolean = false): number | null {
+    const bare = allowBareNumber ? this.normalize(line).match(/^(\d{1,2})\.?$/) : null
+    if (bare) {
+      const quantity = parseInt(bare[1])
+      return quantity >= 1 ? quantity : null
+    }
+
+    const match = this.parse(line)
+    return match && !match.name && match.unitPrice === undefined ? match.quantity : null
+  }
+
+  /**
+   * 行全体が数量×単価の表記か（商品名を含まない）
+   */
+  static isNotationLine(line: string): boolean {
+    const match = this.parse(line)
+    return match !== null && !match.name
+  }
+
+  /**
+   * 数量×単価＝金額を検算
+   * 一致しない場合も印字の値は変更せず、金額と一致する数量、次に単価を読み違いの候補として返す（検証・画面で確認する）
+   */
+  static reconcile(
+    values: QuantityPriceValues
+  ): QuantityPriceValues & Pick<QuantityPriceMatch, 'check' | 'suspected' | 'suggestedValue'> {
+    const { quantity, unitPrice, lineTotal } = values
+    const currency = values.currency ||
+      ([unitPrice, lineTotal].some(value => value !== undefined && !Number.isInteger(value)) ? 'USD' : undefined)
+    const tolerance = (currency === 'USD' ? 0.01 : 1) + 1e-9 // 浮動小数点の誤差を許容
+    const round = (value: number) => currency === 'USD' ? Math.round(value * 100) / 100 : Math.round(value)
+
+    if (unitPrice !== undefined && lineTotal !== undefined) {
+      if (Math.abs(quantity * unitPrice - lineTotal) <= tolerance) {
+        return { ...values, check: 'verified' }
+      }
+
+      const correctedQuantity = Math.round(lineTotal / unitPrice)
+      if (correctedQuantity >= 1 && correctedQuantity <= MAX_QUANTITY &&
+          Math.abs(correctedQuantity * unitPrice - lineTotal) <= tolerance) {
+        return { ...values, check: 'misread', suspected: 'quantity', suggestedValue: correctedQuantity }
+      }
+
+      const correctedUnitPrice = lineTotal / quantity
+      if (Math.abs(round(correctedUnitPrice) * quantity - lineTotal) < 0.005) {
+        return { ...values, check: 'misread', suspected: 'unitPrice', suggestedValue: round(correctedUnitPrice) }
+      }
+
+      return { ...values, check: 'mismatch' }
+    }
+
+    if (unitPrice !== undefined) {
+      return { ...values, lineTotal: round(quantity * unitPrice), check: 'derived' }
+    }
+
+    if (lineTotal !== undefined && quantity > 1) {
+      const derivedUnitPrice = lineTotal / quantity
+      if (Math.abs(round(derivedUnitPrice) * quantity - lineTotal) < 0.005) {
+        return { ...values, unitPrice: round(derivedUnitPrice), check: 'derived' }
+      }
+    }
+
+    return { ...values, check: 'unchecked' }
+  }
+
+  /**
+   * 認識結果を商品に反映（価格は数量×単価の金額）
+   */
+  static apply(
+    item: ExtractedItem,
+    match: QuantityPriceValues & Pick<QuantityPriceMatch, 'check' | 'suspected' | 'suggestedValue'>
+  ): ExtractedItem {
+    return {
+      ...item,
+      quantity: match.quantity,
+      unitPrice: match.unitPrice ?? item.unitPrice,
+      lineTotal: match.lineTotal ?? item.lineTotal,
+      price: match.lineTotal ?? item.price,
+      currency: item.currency || match.currency,
+      metadata: {
+        ...item.metadata,
+        quantityCheck: match.check,
+        // 数量×単価が金額と一致しない場合の読み違いの候補（項目と金額に合う値）
+        ...(match.suspected && { suspectedField: match.suspected, suggestedValue: match.suggestedValue })
+      }
+    }
+  }
+
+  private static parseQuantityFirst(line: string): { values: QuantityPriceValues; index: number; matchedText: string } | null {
+    const match = line.match(QUANTITY_FIRST)
+    if (!match || match.index === undefined) return null
+
+    const quantity = parseInt(match[1])
+    const unitPrice = this.parseAmount(match[5])
+    if (quantity < 1 || !unitPrice) return null
+
+    return {
+      values: { quantity, unitPrice, currency: this.detectCurrency(match[4], match[5], match[6] || (/単/.test(match[3]) ? '円' : undefined)) },
+      index: match.index,
+      matchedText: match[0].trim()
+    }
+  }
+
+  private static parseUnitPriceFirst(line: string): { values: QuantityPriceValues; index: number; matchedText: string } | null {
+    const match = line.match(UNIT_PRICE_FIRST)
+    if (!match || match.index === undefined) return null
+
+    const quantity = parseInt(match[5])
+    const unitPrice = this.parseAmount(match[3])
+    if (quantity < 1 || !unitPrice) return null
+
+    const symbol = match[2] || (/[¥$]/.test(match[1]) ? match[1] : undefined)
+    return {
+      values: { quantity, unitPrice, currency: this.detectCurrency(symbol, match[3], match[4] || (/単/.test(match[1]) ? '円' : undefined)) },
+      index: match.index,
+      matchedText: match[0].trim()
+    }
+  }
+
+  /**
+   * 全角数字・記号を半角に統一
+   */
+  private static normalize(line: string): string {
+    return line
+      .normalize('NFKC')
+      .replace(/[✕✖]/g, '×')
+      .replace(/(\d)\s*[⚫°]/g, '$1個') // 「個」の誤読
+      .replace(/\s+/g, ' ')
+      .trim()
+  }
+
+  private static parseAmount(text: string): number {
+    return parseFloat(text.replace(/,/g, ''))
+  }
+
+  private static detectCurrency(symbol?: string, amount?: string, suffix?: string): 'JPY' | 'USD' | undefined {
+    if (symbol === '$' || /\.\d{2}$/.test(amount || '')) return 'USD'
+    if (symbol === '¥' || suffix === '円') return 'JPY'
+    return undefined
+  }
+}
@@ -0,0 +1,171 @@
+import { OCRResult } from '@/types/upload'
+
+// レシートの指紋（重複取り込みの判定に使用）
+export interface ReceiptFingerprintData {
+  hash: string // 全項目から計算したハッシュ（完全一致の判定用）
+  storeName?: string
+  purchaseDate?: string // YYYY-MM-DD
+  purchaseTime?: string // HH:MM
+  transactionNumber?: string
+  total?: number
+  itemKeys: string[] // 商品名・価格の多重集合（ソート済み）
+}
+
+export interface ReceiptFingerprintMatch {
+  score: number // 比較できた項目のうち一致した割合（0〜1）
+  duplicate: boolean
+  matchedFields: string[]
+}
+
+// 項目ごとの重み（取引番号は同じレシートでのみ一致するため最も重い）
+const FIELD_WEIGHTS = {
+  transactionNumber: 0.3,
+  purchaseDate: 0.15,
+  total: 0.15,
+  storeName: 0.1,
+  purchaseTime: 0.1,
+  items: 0.2
+}
+
+const DUPLICATE_THRESHOLD = 0.8
+// 商品だけでは判定しない（同じ店で同じ物を買い直した場合があるため）
+const MIN_COMPARED_WEIGHT = 0.35
+
+/**
+ * レシートの指紋
+ * 店舗名・購入日時・取引番号・合計・商品の多重集合から作成し、取り込み済みのレシートと比較する
+ * OCRの読み違いで一部の項目が異なっても、一致した項目の割合で重複を判定する
+ */
+export class ReceiptFingerprint {
+
+  /**
+   * OCR結果から指紋を作成
+   */
+  static create(result: Pick<OCRResult, 'header' | 'items' | 'metadata'>): ReceiptFingerprintData {
+    const header = result.header
+    const itemKeys = result.items.map(item => this.itemKey(item.name, item.price)).sort()
+    // 印字された合計のみ使用（商品から計算した合計は商品の一致と重複するため使わない）
+    const total = result.metadata?.reconciliation?.printedTotal
+
+    const fingerprint: Omit<ReceiptFingerprintData, 'hash'> = {
+      storeName: header?.storeName ? this.normalizeText(header.storeName) : undefined,
+      purchaseDate: header?.purchaseDate,
+      purchaseTime: header?.purchaseTime,
+      transactionNumber: header?.transactionNumber?.replace(/^0+(?=\d)/, ''),
+      total: total !== undefined ? Math.round(total * 100) / 100 : undefined,
+      itemKeys
+    }
+
+    const canonical = [
+      fingerprint.storeName, fingerprint.purchaseDate, fingerprint.purchaseTime,
+      fingerprint.transactionNumber, fingerprint.total, itemKeys.join(',')
+    ].map(value => value ?? '').join('|')
+
+    return { hash: this.hashString(canonical), ...fingerprint }
+  }
+
+  /**
+   * 2つの指紋を比較
+   * 両方で読み取れた項目だけを比較し、購入日または取引番号が異なる場合は別のレシートとする
+   */
+  static compare(a: ReceiptFingerprintData, b: ReceiptFingerprintData): ReceiptFingerprintMatch {
+    // 完全一致でも購入日・取引番号のないレシートは重み付きの比較で判定（商品だけでは判定しない）
+    if (a.hash === b.hash && (a.purchaseDate !== undefined || a.transactionNumber !== undefined)) {
+      return { score: 1, duplicate: true, matchedFields: ['hash'] }
+    }
+
+    const differs = (x?: string, y?: string) => x !== undefined && y !== undefined && x !== y
+    if (differs(a.purchaseDate, b.purchaseDate) || differs(a.transactionNumber, b.transactionNumber)) {
+      return { score: 0, duplicate: false, matchedFields: [] }
+    }
+
+    const comparisons: Array<[keyof typeof FIELD_WEIGHTS, number | null]> = [
+      ['transactionNumber', this.compareValues(a.transactionNumber, b.transactionNumber)],
+      ['purchaseDate', this.compareValues(a.purchaseDate, b.purchaseDate)],
+      ['total', this.compareValues(a.total, b.total)],
+      ['storeName', this.compareValues(a.storeName, b.storeName)],
+      ['purchaseTime', this.compareValues(a.purchaseTime, b.purchaseTime)],
+      ['items', a.itemKeys.length > 0 && b.itemKeys.length > 0 ? this.multisetSimilarity(a.itemKeys, b.itemKeys) : null]
+    ]
+
+    let comparedWeight = 0
+    let matchedWeight = 0
+    const matchedFields: string[] = []
+
+    comparisons.forEach(([field, similarity]) => {
+      if (similarity === null) return
+      comparedWeight += FIELD_WEIGHTS[field]
+      matchedWeight += FIELD_WEIGHTS[field] * similarity
+      if (similarity >= DUPLICATE_THRESHOLD) matchedFields.push(field)
+    })
+
+    const score = comparedWeight > 0 ? Math.round((matchedWeight / comparedWeight) * 100) / 100 : 0
+    // 同じ日の同じ取引番号は商品の読み違いがあっても同じレシート
+    const sameTransaction = matchedFields.includes('transactionNumber') && matchedFields.includes('purchaseDate')
+    const duplicate = sameTransaction || (comparedWeight >= MIN_COMPARED_WEIGHT && score >= DUPLICATE_THRESHOLD)
+
+    return { score, duplicate, matchedFields }
+  }
+
+  /**
+   * 商品の比較用キー（表記揺れを除いた商品名と価格）
+   */
+  static itemKey(name: string, price?: number | null): string {
+    return `${this.normalizeText(name)}:${price ?? ''}`
+  }
+
+  /**
+   * 多重集合の差（a にあって b にない要素）
+   */
+  static subtractItemKeys(a: string[], b: string[]): string[] {
+    const remaining = this.countKeys(b)
+    return a.filter(key => {
+      const count = remaining.get(key) || 0
+      if (count === 0) return true
+      remaining.set(key, count - 1)
+      return false
+    })
+  }
+
+  /**
+   * 両方にある場合のみ比較（片方が読み取れていない場合は null）
+   */
+  private static compareValues<T>(a?: T, b?: T): number | null {
+    if (a === undefined || b === undefined) return null
+    return a === b ? 1 : 0
+  }
+
+  /**
+   * 多重集合の一致率（Dice係数）
+   */
+  private static multisetSimilarity(a: string[], b: string[]): number {
+    const common = a.length - this.subtractItemKeys(a, b).length
+    return (2 * common) / (a.length + b.length)
+  }
+
+  private static countKeys(keys: string[]): Map<string, number> {
+    const counts = new Map<string, number>()
+    keys.forEach(key => counts.set(key, (counts.get(key) || 0) + 1))
+    return counts
+  }
+
+  private static normalizeText(text: string): string {
+    return text.normalize('NFKC').toLowerCase().replace(/\s+/g, '')
+  }
+
+  /**
+   * 文字列のハッシュ（ブラウザでも同期的に計算できる53ビットのハッシュ）
+   */
+  private static hashString(text: string): string {
+    let h1 = 0xdeadbeef
+    let h2 = 0x41c6ce57
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i)
+      h1 = Math.imul(h1 ^ code, 2654435761)
+      h2 = Math.imul(h2 ^ code, 1597334677)
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16)
+  }
+}
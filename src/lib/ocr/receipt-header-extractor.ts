@@ -0,0 +1,237 @@
+import { ReceiptHeader } from '@/types/ocr-patterns'
+
+// 和暦の元年（西暦）
+const ERA_START_YEARS: Record<string, number> = {
+  '令和': 2019,
+  'R': 2019,
+  '平成': 1989,
+  'H': 1989,
+  '昭和': 1926,
+  'S': 1926
+}
+
+// 既知のチェーン店名（店舗名の判定に使用）
+const KNOWN_STORE_NAMES = [
+  'コストコ', 'COSTCO', 'ライフ', 'LIFE', 'イオン', 'AEON', 'イトーヨーカドー',
+  '西友', 'SEIYU', 'マルエツ', 'ダイエー', 'サミット', 'オーケー', 'OK',
+  'ローソン', 'LAWSON', 'セブン-イレブン', 'ファミリーマート', 'FamilyMart',
+  '業務スーパー', 'ドン・キホーテ', 'マツモトキヨシ', 'ウエルシア', 'トライアル',
+  'Walmart', 'WALMART', 'Loblaws', 'LOBLAWS', 'Metro', 'METRO', 'Sobeys', 'SOBEYS',
+  'No Frills', 'NO FRILLS', 'Food Basics', 'FOOD BASICS', 'T&T'
+]
+
+/**
+ * レシートヘッダー抽出
+ * 店舗名・支店・電話番号・購入日時・レジ番号・取引番号をOCRテキストから取得
+ */
+export class ReceiptHeaderExtractor {
+
+  /**
+   * OCRテキストからヘッダー情報を抽出
+   */
+  static extract(text: string, debugMode: boolean = false): ReceiptHeader {
+    const lines = text
+      .split('\n')
+      .map(line => this.toHalfWidthDigits(line).replace(/\s+/g, ' ').trim())
+      .filter(line => line.length > 0)
+
+    const header: ReceiptHeader = { confidence: 0 }
+
+    const store = this.extractStoreName(lines)
+    if (store) header.storeName = store
+
+    const branch = this.extractBranch(lines)
+    if (branch) header.branch = branch
+
+    const phone = this.extractPhone(lines)
+    if (phone) header.phone = phone
+
+    const date = this.extractDate(lines)
+    if (date) header.purchaseDate = date
+
+    const time = this.extractTime(lines)
+    if (time) header.purchaseTime = time
+
+    const register = this.extractRegisterNumber(lines)
+    if (register) header.registerNumber = register
+
+    const transaction = this.extractTransactionNumber(lines)
+    if (transaction) header.transactionNumber = transaction
+
+    // 日付は保存時に使用するため重み付けを大きくする
+    const weights: Array<[keyof ReceiptHeader, number]> = [
+      ['storeName', 0.2], ['branch', 0.05], ['phone', 0.1], ['purchaseDate', 0.4],
+      ['purchaseTime', 0.1], ['registerNumber', 0.075], ['transactionNumber', 0.075]
+    ]
+    const score = weights.reduce((sum, [field, weight]) => sum + (header[field] ? weight : 0), 0)
+    header.confidence = Math.round(score * 100) / 100
+
+    if (debugMode) {
+      console.log('🧾 レシートヘッダー抽出結果:', header)
+    }
+
+    return header
+  }
+
+  /**
+   * 日付文字列を YYYY-MM-DD 形式に変換（見つからなければ null）
+   */
+  static parseDate(text: string): string | null {
+    const normalized = this.toHalfWidthDigits(text)
+
+    // 和暦: 令和5年1月25日 / 令和元年5月1日 / R5.1.25 / H30/12/31
+    const eraMatch = normalized.match(/(令和|平成|昭和|(?<![A-Za-z])[RHS])\s*(元|\d{1,2})\s*[年./\-]\s*(\d{1,2})\s*[月./\-]\s*(\d{1,2})/)
+    if (eraMatch) {
+      const eraYear = eraMatch[2] === '元' ? 1 : parseInt(eraMatch[2])
+      const year = ERA_START_YEARS[eraMatch[1]] + eraYear - 1
+      return this.formatDate(year, parseInt(eraMatch[3]), parseInt(eraMatch[4]))
+    }
+
+    // 西暦: 2022年01月25日 / 2022/1/25 / 2022-01-25 / 2022.01.25
+    const isoMatch = normalized.match(/(20\d{2}|19\d{2})\s*[年./\-]\s*(\d{1,2})\s*[月./\-]\s*(\d{1,2})/)
+    if (isoMatch) {
+      return this.formatDate(parseInt(isoMatch[1]), parseInt(isoMatch[2]), parseInt(isoMatch[3]))
+    }
+
+    // 北米形式: 01/25/2022
+    const usMatch = normalized.match(/(\d{1,2})\/(\d{1,2})\/(20\d{2})/)
+    if (usMatch) {
+      return this.formatDate(parseInt(usMatch[3]), parseInt(usMatch[1]), parseInt(usMatch[2]))
+    }
+
+    return null
+  }
+
+  /**
+   * 店舗名を抽出（既知チェーン → 先頭付近の店舗名らしい行）
+   */
+  private static extractStoreName(lines: string[]): string | null {
+    const headLines = lines.slice(0, 8)
+
+    for (const line of headLines) {
+      const known = KNOWN_STORE_NAMES.find(name =>
+        name.length <= 2 ? new RegExp(`(^|\\s)${name}(\\s|$)`).test(line) : line.includes(name)
+      )
+      if (known) return line.replace(/\s+\S+(店|支店)$/, '').trim()
+    }
+
+    const candidate = headLines.find(line =>
+      line.length >= 2 &&
+      line.length <= 30 &&
+      !this.parseDate(line) &&
+      !/\d{2,}[-‐ー−]\d{2,}/.test(line) &&
+      !/(TEL|電話|レジ|領収|レシート|住所|〒|\d{1,2}:\d{2})/i.test(line) &&
+      !/^[\d\s\-.,:¥$#*]+$/.test(line)
+    )
+
+    return candidate || null
+  }
+
+  /**
+   * 支店名を抽出（「○○店」）
+   */
+  private static extractBranch(lines: string[]): string | null {
+    for (const line of lines.slice(0, 10)) {
+      const match = line.match(/([^\s()（）]{1,15}(店|支店))(?:\s|$|[(（])/)
+      if (match && !/(当店|本店舗|お店)/.test(match[1])) {
+        return match[1]
+      }
+    }
+    return null
+  }
+
+  /**
+   * 電話番号を抽出
+   */
+  private static extractPhone(lines: string[]): string | null {
+    for (const line of lines) {
+      const jpMatch = line.match(/(0\d{1,4})\s*[-‐ー−()（）]\s*(\d{1,4})\s*[-‐ー−]\s*(\d{3,4})/)
+      if (jpMatch) return `${jpMatch[1]}-${jpMatch[2]}-${jpMatch[3]}`
+
+      const naMatch = line.match(/\(?(\d{3})\)?\s*[-.\s]\s*(\d{3})\s*[-.]\s*(\d{4})/)
+      if (naMatch && /(TEL|PHONE|電話|\()/i.test(line)) return `${naMatch[1]}-${naMatch[2]}-${naMatch[3]}`
+    }
+    return null
+  }
+
+  /**
+   * 購入日を抽出
+   */
+  private static extractDate(lines: string[]): string | null {
+    for (const line of lines) {
+      const date = this.parseDate(line)
+      if (date) return date
+    }
+    return null
+  }
+
+  /**
+   * 購入時刻を抽出（HH:MM）
+   */
+  private static extractTime(lines: string[]): string | null {
+    // 日付と同じ行の時刻を優先
+    const ordered = [
+      ...lines.filter(line => this.parseDate(line)),
+      ...lines.filter(line => !this.parseDate(line))
+    ]
+
+    for (const line of ordered) {
+      const match = line.match(/(?:^|[^\d])([01]?\d|2[0-3])\s*(?::|時)\s*([0-5]\d)(?:\s*分)?/)
+      if (match) {
+        let hour = parseInt(match[1])
+        if (/PM/i.test(line) && hour < 12) hour += 12
+        if (/AM/i.test(line) && hour === 12) hour = 0
+        return `${String(hour).padStart(2, '0')}:${match[2]}`
+      }
+    }
+    return null
+  }
+
+  /**
+   * レジ番号を抽出
+   */
+  private static extractRegisterNumber(lines: string[]): string | null {
+    for (const line of lines) {
+      const match = line.match(/(?:レジ|REG(?:ISTER)?|POS)\s*(?:番号|No\.?|#)?\s*[:：]?\s*(\d{1,6})/i)
+      if (match) return match[1]
+    }
+    return null
+  }
+
+  /**
+   * 取引番号を抽出（取引番号・TRN の表記を優先し、なければ伝票番号・レシートNo。責No は責任者番号のため対象外）
+   */
+  private static extractTransactionNumber(lines: string[]): string | null {
+    const patterns = [
+      /(?:取引|TRN|TRANS(?:ACTION)?)\s*(?:番号|No\.?|#)?\s*[:：.]?\s*(\d{3,})/i,
+      /(?:伝票番号|レシート\s*No)\s*\.?\s*[:：.]?\s*(\d{3,})/i
+    ]
+
+    for (const pattern of patterns) {
+      for (const line of lines) {
+        const match = line.match(pattern)
+        if (match) return match[1]
+      }
+    }
+    return null
+  }
+
+  /**
+   * 全角数字を半角に変換
+   */
+  private static toHalfWidthDigits(text: string): string {
+    return text.replace(/[０-９]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xFEE0))
+  }
+
+  /**
+   * 年月日を YYYY-MM-DD に整形（不正な日付は null）
+   */
+  private static formatDate(year: number, month: number, day: number): string | null {
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null
+
+    const date = new Date(Date.UTC(year, month - 1, day))
+    if (date.getUTCMonth() !== month - 1) return null
+
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+  }
+}
@@ -1,4 +1,6 @@
 import { ExtractedItem } from '@/types/ocr-patterns'
+import { QuantityPriceParser } from './quantity-price-parser'
+import { ScriptDetector } from './script-detector'
 
 /**
  * Receipt2.jpgの具体的な問題に対応した修正クラス
@@ -74,7 +76,10 @@ export class ReceiptSpecificFixes {
       '対象額', '課税', '非課税', 'ポイント', 'カード番号',
       '営業時間', '住所', 'TEL', '電話', 'ありがとう', 'またお越し',
       'クレジット', 'VISA', 'Master', 'JCB', 'AMEX',
-      '領収書', 'レシート', '明細', '証明', '控え'
+      '領収書', 'レシート', '明細', '証明', '控え',
+      // 韓国語・中国語のレシート
+      '합계', '소계', '부가세', '면세', '현금', '거스름돈', '영수증', '감사합니다',
+      '合计', '小计', '总计', '税额', '找零', '现金', '收银', '发票', '谢谢'
     ]
     
     // キーワードマッチ
@@ -94,18 +99,7 @@ export class ReceiptSpecificFixes {
    * 数量情報のみの行を検出
    */
   private static isQuantityOnly(name: string): boolean {
-    const quantityPatterns = [
-      /^\d+コX\d+$/,      // 2コX98
-      /^\d+コX単\d+$/,    // 2コX単88
-      /^\d+個X\d+$/,
-      /^\d+本X\d+$/,
-      /^X\d+$/,
-      /^\d+コ$/,
-      /^\d+個$/,
-      /^\d+本$/
-    ]
-    
-    return quantityPatterns.some(pattern => pattern.test(name))
+    return QuantityPriceParser.isNotationLine(name) // 2コX98・2コX単88・2個 等
   }
 
   /**
@@ -246,8 +240,8 @@ export class ReceiptSpecificFixes {
     if (name.length >= 2 && name.length <= 20) score += 3
     if (name.length >= 3 && name.length <= 15) score += 2
     
-    // 日本語が含まれる
-    if (/[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/.test(name)) score += 5
+    // 日本語・韓国語・中国語が含まれる
+    if (ScriptDetector.hasCJK(name)) score += 5
     
     // 英数字のみでない
     if (!/^[A-Za-z0-9\s]+$/.test(name)) score += 2
@@ -256,7 +250,7 @@ export class ReceiptSpecificFixes {
     if (!/^\d+$/.test(name)) score += 3
     
     // 記号が少ない
-    const symbolCount = (name.match(/[^\w\s\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/g) || []).length
+    const symbolCount = ScriptDetector.countSymbols(name)
     if (symbolCount === 0) score += 2
     else if (symbolCount <= 1) score += 1
     
@@ -281,7 +275,7 @@ export class ReceiptSpecificFixes {
     if (/^\d+$/.test(name)) return false
     
     // 記号のみは無効
-    if (/^[^\w\s\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]+$/.test(name)) return false
+    if (ScriptDetector.isSymbolsOnly(name)) return false
     
     // システムコードっぽいものは無効
     if (/^[A-Z0-9]{5,}$/.test(name)) return false
@@ -0,0 +1,154 @@
+import { OCRCommonUtils } from './common-utils'
+
+export interface StitchOptions {
+  // 重なりを探す行数（前の写真の末尾・次の写真の先頭）
+  searchWindow?: number
+  // 同じ行とみなす類似度
+  minSimilarity?: number
+  // 重なりと判定する最小一致行数
+  minMatchedLines?: number
+  debugMode?: boolean
+}
+
+export interface StitchOverlap {
+  photoIndex: number // 重なりを検出した写真（2枚目以降）
+  previousStart: number // 結合済み行のうち重なりが始まる位置
+  nextStart: number // 次の写真で重なりが始まる位置
+  matchedLines: number
+  skippedLines: number // 次の写真から除いた行数
+}
+
+export interface StitchResult {
+  lines: string[]
+  overlaps: StitchOverlap[]
+}
+
+const DEFAULT_OPTIONS: Required<Omit<StitchOptions, 'debugMode'>> = {
+  searchWindow: 20,
+  minSimilarity: 0.75,
+  minMatchedLines: 2
+}
+
+/**
+ * 複数枚に分けて撮影したレシートの結合
+ * 連続する写真の末尾と先頭で重複して写った行を検出し、1つの行の並びにまとめる
+ */
+export class ReceiptStitcher {
+
+  /**
+   * 写真ごとのOCRテキストを結合
+   */
+  static stitch(texts: string[], options: StitchOptions = {}): StitchResult {
+    const config = { ...DEFAULT_OPTIONS, ...options }
+    const overlaps: StitchOverlap[] = []
+    let lines: string[] = []
+
+    texts.forEach((text, photoIndex) => {
+      const nextLines = text.split('\n').filter(line => line.trim())
+
+      if (photoIndex === 0 || lines.length === 0) {
+        lines = nextLines
+        return
+      }
+
+      const overlap = this.findOverlap(lines, nextLines, config)
+      if (overlap) {
+        // 重なり部分は次の写真の行を採用（前の写真の端で切れた行を置き換える）
+        lines = [...lines.slice(0, overlap.previousStart), ...nextLines.slice(overlap.nextStart)]
+        overlaps.push({ photoIndex, ...overlap, skippedLines: overlap.nextStart })
+
+        if (options.debugMode) {
+          console.log(`🧵 写真${photoIndex}と${photoIndex + 1}の重なり: ${overlap.matchedLines}行一致`)
+        }
+      } else {
+        lines = [...lines, ...nextLines]
+
+        if (options.debugMode) {
+          console.log(`⚠️ 写真${photoIndex}と${photoIndex + 1}の重なりが見つかりません - そのまま連結`)
+        }
+      }
+    })
+
+    return { lines, overlaps }
+  }
+
+  /**
+   * 前の行の末尾と次の行の先頭が一致する位置を探す
+   * 重なりは前の写真の最後まで続く必要がある（端の1行は途中で切れていてもよい）
+   */
+  private static findOverlap(
+    previous: string[],
+    next: string[],
+    config: Required<Omit<StitchOptions, 'debugMode'>>
+  ): Omit<StitchOverlap, 'photoIndex' | 'skippedLines'> | null {
+    let best: Omit<StitchOverlap, 'photoIndex' | 'skippedLines'> | null = null
+    let bestScore = 0
+
+    const firstPrevious = Math.max(0, previous.length - config.searchWindow)
+    const lastNext = Math.min(next.length, config.searchWindow)
+
+    for (let previousStart = firstPrevious; previousStart < previous.length; previousStart++) {
+      // 次の写真の先頭数行は前の写真より上の部分（切れた行など）の可能性がある
+      for (let nextStart = 0; nextStart < Math.min(lastNext, 4); nextStart++) {
+        const length = Math.min(previous.length - previousStart, next.length - nextStart)
+        if (length < config.minMatchedLines) continue
+
+        let matched = 0
+        let mismatched = 0
+        for (let offset = 0; offset < length; offset++) {
+          const previousLine = previous[previousStart + offset]
+          const nextLine = next[nextStart + offset]
+          // 前の写真の最後の行は写真の端で切れている場合がある
+          const isCutLine = previousStart + offset === previous.length - 1 && this.isTruncatedLine(previousLine, nextLine)
+          if (isCutLine || this.lineSimilarity(previousLine, nextLine) >= config.minSimilarity) {
+            matched++
+          } else {
+            mismatched++
+          }
+        }
+
+        // 先頭行は必ず一致し、不一致は端の切れた行程度に限る
+        const startsMatched = this.lineSimilarity(previous[previousStart], next[nextStart]) >= config.minSimilarity
+        if (!startsMatched || matched < config.minMatchedLines || mismatched > Math.max(1, Math.floor(length * 0.2))) {
+          continue
+        }
+
+        const score = matched - mismatched * 0.5 - nextStart * 0.1
+        if (score > bestScore) {
+          bestScore = score
+          best = { previousStart, nextStart, matchedLines: matched }
+        }
+      }
+    }
+
+    return best
+  }
+
+  /**
+   * 写真の端で途中まで写った行か（もう一方の行の先頭部分と一致）
+   */
+  private static isTruncatedLine(partial: string, full: string): boolean {
+    const normalizedPartial = this.normalizeLine(partial)
+    const normalizedFull = this.normalizeLine(full)
+    return normalizedPartial.length >= 2 &&
+      normalizedPartial.length < normalizedFull.length &&
+      normalizedFull.startsWith(normalizedPartial)
+  }
+
+  /**
+   * 行の類似度（空白・全角半角の違いを無視）
+   */
+  private static lineSimilarity(a: string, b: string): number {
+    const normalizedA = this.normalizeLine(a)
+    const normalizedB = this.normalizeLine(b)
+
+    const maxLength = Math.max(normalizedA.length, normalizedB.length)
+    if (maxLength === 0) return 1
+
+    return (maxLength - OCRCommonUtils.levenshteinDistance(normalizedA, normalizedB)) / maxLength
+  }
+
+  private static normalizeLine(line: string): string {
+    return line.normalize('NFKC').toLowerCase().replace(/\s+/g, '')
+  }
+}
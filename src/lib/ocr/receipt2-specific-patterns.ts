@@ -1,4 +1,6 @@
 import { ExtractedItem } from '@/types/ocr-patterns'
+import { DiscountProcessor } from './discount-processor'
+import { QuantityPriceParser } from './quantity-price-parser'
 
 /**
  * Receipt2.jpgの具体的なOCRテキストに対応したパターンマッチング
@@ -22,6 +24,18 @@ export class Receipt2SpecificPatterns {
     for (let i = 0; i < filteredLines.length; i++) {
       const line = filteredLines[i].trim()
       
+      // 値引・割引行は直前の商品に適用
+      const discount = DiscountProcessor.parseDiscountLine(line, filteredLines[i + 1])
+      if (discount || DiscountProcessor.isDiscountLine(line)) {
+        const lastItem = items[items.length - 1]
+        if (discount && lastItem) {
+          const consumed = discount.consumedNextLine ? [i, i + 1] : [i]
+          DiscountProcessor.applyDiscount(lastItem, discount, consumed, consumed.map(index => filteredLines[index]).join(' '))
+        }
+        if (discount?.consumedNextLine) i++
+        continue
+      }
+      
       // パターン1: 商品名と価格が別行
       const item = this.tryExtractItemTwoLines(filteredLines, i)
       if (item) {
@@ -66,6 +80,9 @@ export class Receipt2SpecificPatterns {
     // 空行
     if (!line || line.length === 0) return true
     
+    // 値引行は商品に適用するため残す（「%」を含む割引行も対象）
+    if (DiscountProcessor.isDiscountLine(line)) return false
+    
     // システム情報
     if (/^(領収証明細|レジ\d+|スNo|スキャンレジ|スキャン\s*No)/.test(line)) return true
     
@@ -89,7 +106,7 @@ export class Receipt2SpecificPatterns {
     if (/^\d{4}軽?$/.test(line)) return true
     
     // 数量のみの行
-    if (/^\d+コX(単)?\d+$/.test(line)) return true
+    if (QuantityPriceParser.isNotationLine(line)) return true
     
     // 分数表記
     if (/^\d+\/\d+$/.test(line)) return true
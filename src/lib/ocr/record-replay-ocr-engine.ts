@@ -0,0 +1,121 @@
+import { createHash } from 'crypto'
+import { mkdir, readFile, readdir, writeFile } from 'fs/promises'
+import path from 'path'
+import {
+  OCREngine,
+  OCREngineName,
+  OCREngineOptions,
+  OCREngineResult
+} from './ocr-engine'
+
+export type OCRRecordMode = 'off' | 'record' | 'replay'
+
+export interface OCRFixture {
+  hash: string
+  engine: OCREngineName
+  recordedAt: string
+  mimeType: string
+  result: OCREngineResult
+}
+
+/**
+ * 画像内容のハッシュ（フィクスチャのキー）
+ */
+export function hashImageContent(image: Buffer): string {
+  return createHash('sha256').update(image).digest('hex')
+}
+
+/**
+ * OCRエンジンの生レスポンスを記録・再生するラッパー
+ * record: 実エンジンの結果をフィクスチャとして保存
+ * replay: 保存済みフィクスチャを返す（認証情報・ネットワーク不要）
+ */
+export class RecordReplayOCREngine implements OCREngine {
+  readonly name: OCREngineName
+
+  constructor(
+    private inner: OCREngine,
+    private mode: Exclude<OCRRecordMode, 'off'> = 'replay',
+    private fixturesDir: string = RecordReplayOCREngine.getFixturesDir()
+  ) {
+    this.name = inner.name
+  }
+
+  /**
+   * OCR_RECORD_MODE 環境変数から動作モードを取得
+   */
+  static getMode(): OCRRecordMode {
+    const mode = process.env.OCR_RECORD_MODE
+    return mode === 'record' || mode === 'replay' ? mode : 'off'
+  }
+
+  /**
+   * フィクスチャ保存先ディレクトリ
+   */
+  static getFixturesDir(): string {
+    return process.env.OCR_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'ocr')
+  }
+
+  /**
+   * 保存済みフィクスチャの一覧
+   */
+  static async listFixtures(fixturesDir: string = this.getFixturesDir()): Promise<Array<{
+    hash: string
+    engine: string
+    file: string
+  }>> {
+    try {
+      const files = await readdir(fixturesDir)
+      return files
+        .filter(file => file.endsWith('.json'))
+        .map(file => {
+          const [hash, engine] = file.replace(/\.json$/, '').split('.')
+          return { hash, engine, file }
+        })
+    } catch {
+      return []
+    }
+  }
+
+  isAvailable(): boolean {
+    return this.mode === 'replay' || this.inner.isAvailable()
+  }
+
+  async recognize(image: Buffer, mimeType: string, options: OCREngineOptions = {}): Promise<OCREngineResult> {
+    const hash = options.sourceHash || hashImageContent(image)
+    const fixturePath = path.join(this.fixturesDir, `${hash}.${this.name}.json`)
+
+    if (this.mode === 'replay') {
+      let content: string
+      try {
+        content = await readFile(fixturePath, 'utf-8')
+      } catch {
+        throw new Error(`OCRフィクスチャが見つかりません: ${path.basename(fixturePath)}`)
+      }
+
+      const fixture = JSON.parse(content) as OCRFixture
+      if (options.debugMode) {
+        console.log(`📼 OCRフィクスチャを再生: ${path.basename(fixturePath)}`)
+      }
+      return fixture.result
+    }
+
+    const result = await this.inner.recognize(image, mimeType, options)
+    const fixture: OCRFixture = {
+      hash,
+      engine: this.name,
+      recordedAt: new Date().toISOString(),
+      mimeType,
+      result
+    }
+
+    await mkdir(this.fixturesDir, { recursive: true })
+    await writeFile(fixturePath, JSON.stringify(fixture, null, 2), 'utf-8')
+
+    if (options.debugMode) {
+      console.log(`🔴 OCRフィクスチャを記録: ${path.basename(fixturePath)}`)
+    }
+
+    return result
+  }
+}
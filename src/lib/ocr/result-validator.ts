@@ -1,4 +1,7 @@
 import { ExtractedItem } from '@/types/ocr-patterns'
+import { OCRCommonUtils } from './common-utils'
+import { QuantityPriceParser } from './quantity-price-parser'
+import { ScriptDetector } from './script-detector'
 
 export interface ValidationResult {
   isValid: boolean
@@ -9,7 +12,7 @@ export interface ValidationResult {
 }
 
 export interface ValidationIssue {
-  type: 'price' | 'name' | 'quantity' | 'format' | 'duplicate'
+  type: 'price' | 'name' | 'quantity' | 'format' | 'duplicate' | 'total' | 'arithmetic'
   severity: 'error' | 'warning' | 'info'
   message: string
   field: string
@@ -25,6 +28,26 @@ export interface ValidationSuggestion {
   confidence: number
 }
 
+export interface ReceiptTotals {
+  subtotal?: number
+  tax?: number
+  taxIncluded?: boolean // 内税（合計に含まれる）かどうか
+  total?: number
+  lineNumbers: number[]
+}
+
+export interface ReconciliationResult {
+  totals: ReceiptTotals
+  itemsTotal: number
+  expectedTotal?: number
+  difference: number
+  matched: boolean
+  issues: ValidationIssue[]
+  // 差額を説明できる取りこぼし行・重複アイテム
+  missingLine?: { lineNumber: number; text: string; name: string; price: number }
+  duplicateIndex?: number
+}
+
 export interface ValidationRule {
   name: string
   description: string
@@ -187,8 +210,8 @@ export class OCRResultValidator {
         corrected.price = priceCorrection.value
       }
 
-      // 商品名の自動修正
-      const nameCorrection = this.autoCorrectName(item)
+      // 商品名の自動修正（ユーザー辞書を適用済みの商品は対象外）
+      const nameCorrection = item.metadata?.productAlias ? null : this.autoCorrectName(item)
       if (nameCorrection) {
         corrections.push({
           index,
@@ -260,6 +283,13 @@ export class OCRResultValidator {
         validator: this.validateContext.bind(this),
         priority: 6,
         enabled: true
+      },
+      {
+        name: 'arithmetic-validation',
+        description: '数量×単価と行合計の整合性検証',
+        validator: this.validateLineArithmetic.bind(this),
+        priority: 5,
+        enabled: true
       }
     ]
   }
@@ -376,7 +406,7 @@ export class OCRResultValidator {
       confidence *= 0.3
     }
 
-    if (/^[^\w\s\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]+$/.test(item.name)) {
+    if (ScriptDetector.isSymbolsOnly(item.name)) {
       issues.push({
         type: 'name',
         severity: 'error',
@@ -535,6 +565,183 @@ export class OCRResultValidator {
     }
   }
 
+  /**
+   * 数量×単価の検証
+   */
+  private validateLineArithmetic(item: ExtractedItem): ValidationResult {
+    const issues: ValidationIssue[] = []
+    const suggestions: ValidationSuggestion[] = []
+    let confidence = item.confidence
+
+    const unitPrice = this.extractUnitPrice(item)
+    const quantity = item.quantity || 1
+
+    if (unitPrice && item.price && quantity > 1) {
+      const expected = Math.round(unitPrice * quantity * 100) / 100
+      if (Math.abs(expected - item.price) > this.getTolerance(item.currency)) {
+        issues.push({
+          type: 'arithmetic',
+          severity: 'warning',
+          message: `数量×単価（${quantity}×${unitPrice}=${expected}）が行合計（${item.price}）と一致しません`,
+          field: 'price',
+          originalValue: item.price,
+          suggestedValue: expected
+        })
+        suggestions.push({
+          type: 'correction',
+          message: '数量×単価から行合計を再計算できます',
+          action: 'recalculate-line-total',
+          newValue: expected,
+          confidence: 0.6
+        })
+        confidence *= 0.7
+      }
+    }
+
+    return {
+      isValid: true,
+      confidence,
+      issues,
+      suggestions
+    }
+  }
+
+  /**
+   * 印字された小計・税・合計の抽出
+   */
+  extractTotals(originalText: string): ReceiptTotals {
+    // 行番号はパーサーと同じく空行を除いた並びで数える
+    const lines = OCRCommonUtils.splitLines(originalText)
+    const totals: ReceiptTotals = { lineNumbers: [] }
+
+    lines.forEach((line, index) => {
+      // 金額が次の行に分かれている場合は次の行も使用済みとする
+      const inlineAmount = this.extractLineAmount(line)
+      const amount = inlineAmount ?? this.extractLineAmount(lines[index + 1] || '', true)
+      if (amount === null) return
+      const lineNumbers = inlineAmount === null ? [index, index + 1] : [index]
+
+      if (/(小\s*[計计]|소\s*계|SUB\s*-?\s*TOTAL)/i.test(line)) {
+        totals.subtotal = amount
+        totals.lineNumbers.push(...lineNumbers)
+      } else if (/(消費税|外税|内税|税額|税额|부가세|TAX|HST|GST|PST|QST)/i.test(line) && !/(対象|税込|税抜)/.test(line)) {
+        // 複数税率の行は合算
+        totals.tax = (totals.tax || 0) + amount
+        totals.taxIncluded = /内/.test(line)
+        totals.lineNumbers.push(...lineNumbers)
+      } else if (
+        /(合\s*[計计]|总\s*计|합\s*계|お買上げ?計|お会計|TOTAL)/i.test(line) &&
+        !/(点数|数量|対象|ITEMS|QTY|SAVINGS|割引)/i.test(line)
+      ) {
+        totals.total = amount
+        totals.lineNumbers.push(...lineNumbers)
+      }
+    })
+
+    if (totals.tax !== undefined) {
+      totals.tax = Math.round(totals.tax * 100) / 100
+    }
+
+    return totals
+  }
+
+  /**
+   * 抽出アイテムの合計と印字合計の照合
+   * 差額がある場合は取りこぼし行・重複アイテムを探索する
+   */
+  reconcileTotals(items: ExtractedItem[], originalText: string): ReconciliationResult {
+    const totals = this.extractTotals(originalText)
+    const currency = OCRCommonUtils.detectCurrency(originalText)
+    const issues: ValidationIssue[] = []
+    const itemsTotal = Math.round(items.reduce((sum, item) => sum + (item.price || 0), 0) * 100) / 100
+
+    // 小計があれば小計と、なければ外税を除いた合計と比較
+    let expectedTotal: number | undefined
+    if (totals.subtotal !== undefined) {
+      expectedTotal = totals.subtotal
+    } else if (totals.total !== undefined) {
+      expectedTotal = totals.tax && !totals.taxIncluded
+        ? Math.round((totals.total - totals.tax) * 100) / 100
+        : totals.total
+    }
+
+    if (expectedTotal === undefined) {
+      return { totals, itemsTotal, difference: 0, matched: false, issues }
+    }
+
+    const difference = Math.round((expectedTotal - itemsTotal) * 100) / 100
+    const matched = Math.abs(difference) <= this.getTolerance(currency)
+
+    // 小計 + 外税 = 合計 の整合性
+    if (totals.subtotal !== undefined && totals.total !== undefined && totals.tax && !totals.taxIncluded) {
+      const expected = Math.round((totals.subtotal + totals.tax) * 100) / 100
+      if (Math.abs(expected - totals.total) > this.getTolerance(currency)) {
+        issues.push({
+          type: 'total',
+          severity: 'info',
+          message: `小計＋税（${expected}）が合計（${totals.total}）と一致しません`,
+          field: 'total',
+          originalValue: totals.total,
+          suggestedValue: expected
+        })
+      }
+    }
+
+    if (matched) {
+      return { totals, itemsTotal, expectedTotal, difference, matched, issues }
+    }
+
+    const result: ReconciliationResult = { totals, itemsTotal, expectedTotal, difference, matched, issues }
+
+    if (difference > 0) {
+      result.missingLine = this.findMissingLine(items, originalText, difference, totals.lineNumbers, currency)
+    } else {
+      result.duplicateIndex = this.findDuplicateItem(items, -difference, currency)
+    }
+
+    issues.push({
+      type: 'total',
+      severity: 'warning',
+      message: difference > 0
+        ? `商品合計（${itemsTotal}）が印字金額（${expectedTotal}）より${difference}少なく、取りこぼしの可能性があります`
+        : `商品合計（${itemsTotal}）が印字金額（${expectedTotal}）より${-difference}多く、重複の可能性があります`,
+      field: 'total',
+      originalValue: itemsTotal,
+      suggestedValue: result.missingLine
+        ? { name: result.missingLine.name, price: result.missingLine.price, lineNumber: result.missingLine.lineNumber }
+        : result.duplicateIndex !== undefined
+          ? { removeIndex: result.duplicateIndex }
+          : expectedTotal
+    })
+
+    return result
+  }
+
+  /**
+   * 照合結果に基づいて取りこぼし行の追加・重複アイテムの除去を適用
+   */
+  applyReconciliation(items: ExtractedItem[], reconciliation: ReconciliationResult): ExtractedItem[] {
+    if (reconciliation.missingLine) {
+      const { lineNumber, text, name, price } = reconciliation.missingLine
+      return [...items, {
+        name,
+        price,
+        quantity: 1,
+        confidence: 0.5,
+        sourcePattern: 'total-reconciliation',
+        lineNumbers: [lineNumber],
+        rawText: text,
+        metadata: { recoveredByReconciliation: true }
+      }]
+    }
+
+    if (reconciliation.duplicateIndex !== undefined) {
+      return items.filter((_, index) => index !== reconciliation.duplicateIndex)
+    }
+
+    return items
+  }
+
   /**
    * グローバル検証
    */
@@ -576,6 +783,30 @@ export class OCRResultValidator {
       })
     }
 
+    // 印字合計との照合
+    if (items.length > 0 && context.originalText) {
+      const reconciliation = this.reconcileTotals(items, context.originalText)
+      issues.push(...reconciliation.issues)
+
+      if (reconciliation.missingLine) {
+        suggestions.push({
+          type: 'correction',
+          message: `合計との差額に一致する行が見つかりました: ${reconciliation.missingLine.text}`,
+          action: 'add-missing-item',
+          newValue: reconciliation.missingLine,
+          confidence: 0.6
+        })
+      } else if (reconciliation.duplicateIndex !== undefined) {
+        suggestions.push({
+          type: 'correction',
+          message: `合計との差額に一致する重複アイテムがあります: ${items[reconciliation.duplicateIndex].name}`,
+          action: 'remove-duplicate-item',
+          newValue: reconciliation.duplicateIndex,
+          confidence: 0.6
+        })
+      }
+    }
+
     return { issues, suggestions }
   }
 
@@ -606,6 +837,109 @@ export class OCRResultValidator {
     return match ? parseInt(match) : undefined
   }
 
+  /**
+   * 行末の金額を抽出（割合・点数表記は除外）
+   */
+  private extractLineAmount(line: string, amountOnly: boolean = false): number | null {
+    const cleaned = line
+      .replace(/\d+(\.\d+)?\s*%/g, '')
+      .replace(/\d+\s*(点|個|コ|items?)/gi, '')
+
+    if (amountOnly && !/^[¥￥$]?\s*[\d,]+(\.\d{1,2})?\s*(円|[TE])?$/.test(cleaned.trim())) {
+      return null
+    }
+
+    const matches = cleaned.match(/[¥￥$]?\s*\d[\d,]*(\.\d{1,2})?/g)
+    if (!matches) return null
+
+    const amount = OCRCommonUtils.parsePrice(matches[matches.length - 1])
+    return amount > 0 ? amount : null
+  }
+
+  /**
+   * 差額と同じ金額を持ち、どのアイテムにも使われていない行を探索
+   */
+  private findMissingLine(
+    items: ExtractedItem[],
+    originalText: string,
+    difference: number,
+    totalLineNumbers: number[],
+    currency: string
+  ): ReconciliationResult['missingLine'] {
+    const lines = OCRCommonUtils.splitLines(originalText)
+    const usedLines = new Set([...items.flatMap(item => item.lineNumbers || []), ...totalLineNumbers])
+    const tolerance = this.getTolerance(currency)
+
+    for (let index = 0; index < lines.length; index++) {
+      if (usedLines.has(index)) continue
+
+      const amount = this.extractLineAmount(lines[index])
+      if (amount === null || Math.abs(amount - difference) > tolerance) continue
+
+      // 同じ行の金額前のテキスト、なければ直前の行を商品名とする
+      const inlineName = lines[index].replace(/[¥￥$]?\s*\d[\d,]*(\.\d{1,2})?\s*(円|[TE])?\s*$/, '').trim()
+      const previousLine = index > 0 && !usedLines.has(index - 1) ? lines[index - 1] : ''
+      const name = this.cleanupName(inlineName.length >= 2 ? inlineName : previousLine)
+
+      if (name.length >= 2 && !OCRCommonUtils.isReceiptMetadata(name) && !/^\d+$/.test(name)) {
+        return { lineNumber: index, text: lines[index], name, price: amount }
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * 超過額と同じ価格の重複アイテムを探索
+   */
+  private findDuplicateItem(items: ExtractedItem[], excess: number, currency: string): number | undefined {
+    const tolerance = this.getTolerance(currency)
+
+    for (let index = items.length - 1; index >= 0; index--) {
+      const item = items[index]
+      if (!item.price || Math.abs(item.price - excess) > tolerance) continue
+
+      const hasTwin = items.some((other, otherIndex) =>
+        otherIndex !== index &&
+        other.name === item.name &&
+        other.price === item.price &&
+        (other.lineNumbers || []).some(line => (item.lineNumbers || []).includes(line))
+      )
+      if (hasTwin) return index
+    }
+
+    return undefined
+  }
+
+  /**
+   * 数量×単価の単価を取得（unitPrice → メタデータ → rawText）
+   */
+  private extractUnitPrice(item: ExtractedItem): number | null {
+    if (item.unitPrice && item.unitPrice > 0) {
+      return item.unitPrice
+    }
+
+    const metadataUnitPrice = item.metadata?.unitPrice
+    if (typeof metadataUnitPrice === 'number' && metadataUnitPrice > 0) {
+      return metadataUnitPrice
+    }
+
+    // rawText は「商品名 | 2コX単158」のように行を連結している
+    const match = (item.rawText || '')
+      .split('|')
+      .map(segment => QuantityPriceParser.parse(segment))
+      .find(parsed => parsed?.unitPrice !== undefined && parsed.quantity === item.quantity)
+
+    return match?.unitPrice ?? null
+  }
+
+  /**
+   * 金額比較の許容誤差（ドル表記は1セント、円は1円）
+   */
+  private getTolerance(currency?: string): number {
+    return currency === 'USD' || currency === 'CAD' ? 0.01 : 1
+  }
+
   private cleanupName(name: string): string {
     return name
       .replace(/^[*\s]+/, '')
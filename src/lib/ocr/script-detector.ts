@@ -0,0 +1,106 @@
+import { ExtractedItem } from '@/types/ocr-patterns'
+
+// 文字種
+export type TextScript = 'kana' | 'han' | 'hangul' | 'latin'
+// 行の言語（漢字のみの行は簡体字に固有の字があれば中国語、なければ日本語として扱う）
+export type TextLanguage = 'ja' | 'ko' | 'zh' | 'en' | 'unknown'
+
+export interface ScriptDetection {
+  language: TextLanguage
+  scripts: TextScript[]
+}
+
+// 商品名に使われる英字以外の文字（かな・漢字・ハングル）。正規表現の文字クラスに埋め込んで使う
+export const CJK_CHARACTER_CLASS = '\\u3040-\\u30FF\\u3400-\\u4DBF\\u4E00-\\u9FFF\\uF900-\\uFAFF\\u1100-\\u11FF\\u3130-\\u318F\\uAC00-\\uD7AF'
+
+const SCRIPT_PATTERNS: Record<TextScript, RegExp> = {
+  kana: /[぀-ヿｦ-ﾟ]/,
+  han: /[㐀-䶿一-鿿豈-﫿]/,
+  hangul: /[ᄀ-ᇿ㄰-㆏가-힯ﾠ-ￜ]/,
+  latin: /[A-Za-z]/
+}
+
+// 簡体字にしかない字（日本語の字体と異なるもの）。食品名・レシートによく出る字に限る
+const SIMPLIFIED_ONLY = /[们这个为时说对发买卖东车门问间长开关见头边过还进运达务动场产气电话价钱优总计应实币鸡鸭鱼虾猪饺酱汤鲜饮乐龙奶浆丝饼馄饨粮蚝鲍冻啤红绿乌咖饭萝苹柠糕面]/
+const NAME_CHARACTERS = new RegExp(`[A-Za-z${CJK_CHARACTER_CLASS}]`)
+const CJK_CHARACTERS = new RegExp(`[${CJK_CHARACTER_CLASS}]`)
+const SYMBOLS = new RegExp(`[^\\w\\s${CJK_CHARACTER_CLASS}]`, 'g')
+
+/**
+ * 行・商品名の文字種と言語の判定
+ * 日本語（かな・漢字）・韓国語（ハングル）・中国語（簡体字）・英語を見分け、
+ * 商品名らしさの判定で日本語以外の商品名を記号やノイズとして除外しないようにする
+ */
+export class ScriptDetector {
+
+  /**
+   * 文字種と言語を判定
+   */
+  static detect(text: string): ScriptDetection {
+    const normalized = (text || '').normalize('NFKC')
+    const scripts = (Object.keys(SCRIPT_PATTERNS) as TextScript[]).filter(script => SCRIPT_PATTERNS[script].test(normalized))
+
+    let language: TextLanguage = 'unknown'
+    if (scripts.includes('hangul')) {
+      language = 'ko'
+    } else if (scripts.includes('kana')) {
+      language = 'ja'
+    } else if (scripts.includes('han')) {
+      language = SIMPLIFIED_ONLY.test(normalized) ? 'zh' : 'ja'
+    } else if (scripts.includes('latin')) {
+      language = 'en'
+    }
+
+    return { language, scripts }
+  }
+
+  /**
+   * 商品名に使われる文字（かな・漢字・ハングル・英字）を含むか
+   */
+  static hasNameCharacters(text: string): boolean {
+    return NAME_CHARACTERS.test(text || '')
+  }
+
+  /**
+   * かな・漢字・ハングルを含むか
+   */
+  static hasCJK(text: string): boolean {
+    return CJK_CHARACTERS.test(text || '')
+  }
+
+  /**
+   * 記号のみか（英数字・かな・漢字・ハングル・空白を含まない）
+   */
+  static isSymbolsOnly(text: string): boolean {
+    return !!text && text.replace(SYMBOLS, '') === ''
+  }
+
+  /**
+   * 記号の数
+   */
+  static countSymbols(text: string): number {
+    return (text.match(SYMBOLS) || []).length
+  }
+
+  /**
+   * 韓国語・中国語の商品名に言語を記録（metadata.language）
+   */
+  static applyToItems(items: ExtractedItem[], debugMode: boolean = false): ExtractedItem[] {
+    return items.map(item => {
+      const { language } = this.detect(item.name)
+      if (language !== 'ko' && language !== 'zh') return item
+
+      if (debugMode) {
+        console.log(`🌏 商品名の言語: "${item.name}" → ${language}`)
+      }
+
+      return {
+        ...item,
+        metadata: {
+          ...item.metadata,
+          language
+        }
+      }
+    })
+  }
+}
@@ -0,0 +1,88 @@
+import { StoreProfile, StoreProfileCandidate } from '@/types/ocr-patterns'
+import { STORE_PROFILES } from './store-profiles'
+
+// 店名等の識別子とレイアウトパターンの配点
+const IDENTIFIER_SCORE = 1
+const LAYOUT_PATTERN_SCORE = 0.5
+
+/**
+ * 店舗プロファイルのレジストリ
+ * 各プロファイルの識別子・レイアウトパターン・除外条件でテキストを採点し、専用パーサーを選択する
+ */
+export class StoreProfileRegistry {
+  private static profiles: StoreProfile[] = [...STORE_PROFILES]
+
+  /**
+   * プロファイルを登録（同じIDは置き換え）
+   */
+  static register(profile: StoreProfile): void {
+    this.profiles = [...this.profiles.filter(existing => existing.id !== profile.id), profile]
+  }
+
+  static getProfiles(): StoreProfile[] {
+    return [...this.profiles]
+  }
+
+  static getProfile(id: string): StoreProfile | undefined {
+    return this.profiles.find(profile => profile.id === id)
+  }
+
+  /**
+   * テキストを全プロファイルで採点し、スコアの高い順に返す（スコア0は除く）
+   * enabledProfiles を指定した場合はそのプロファイルのみ採点
+   */
+  static rank(text: string, enabledProfiles?: string[]): StoreProfileCandidate[] {
+    const priorities = new Map(this.profiles.map(profile => [profile.id, profile.priority]))
+
+    return this.profiles
+      .filter(profile => !enabledProfiles || enabledProfiles.includes(profile.id))
+      .map(profile => this.score(profile, text))
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) =>
+        Number(b.matched) - Number(a.matched) ||
+        b.score - a.score ||
+        (priorities.get(b.profileId) || 0) - (priorities.get(a.profileId) || 0)
+      )
+  }
+
+  /**
+   * 条件を満たす最上位のプロファイルを返す
+   */
+  static detect(text: string, enabledProfiles?: string[]): StoreProfile | null {
+    const [best] = this.rank(text, enabledProfiles)
+    return best?.matched ? this.getProfile(best.profileId) || null : null
+  }
+
+  /**
+   * 1つのプロファイルでテキストを採点
+   */
+  private static score(profile: StoreProfile, text: string): StoreProfileCandidate {
+    const matchedIdentifiers = profile.identifiers.filter(identifier => this.includesIdentifier(text, identifier))
+    const matchedLayoutPatterns = profile.layoutPatterns
+      .filter(pattern => pattern.test(text))
+      .map(pattern => pattern.source)
+    const exclusion = profile.exclusions?.find(pattern => pattern.test(text))
+
+    const score = matchedIdentifiers.length * IDENTIFIER_SCORE + matchedLayoutPatterns.length * LAYOUT_PATTERN_SCORE
+
+    return {
+      profileId: profile.id,
+      name: profile.name,
+      score,
+      matched: !exclusion && score >= profile.minScore,
+      matchedIdentifiers,
+      matchedLayoutPatterns,
+      excludedBy: exclusion?.source
+    }
+  }
+
+  /**
+   * 識別子を含むか（英字の識別子は単語単位で照合し、METRO が METROPOLITAN 等に一致しないようにする）
+   */
+  private static includesIdentifier(text: string, identifier: string): boolean {
+    if (!/^[\x20-\x7E]+$/.test(identifier)) return text.includes(identifier)
+
+    const escaped = identifier.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    return new RegExp(`(?<![A-Za-z0-9])${escaped}(?![A-Za-z0-9])`).test(text)
+  }
+}
@@ -0,0 +1,18 @@
+import { StoreProfile } from '@/types/ocr-patterns'
+import { warehouseProfile } from './warehouse'
+import { lifeProfile } from './life'
+import { receipt2Profile } from './receipt2'
+import { receipt3Profile } from './receipt3'
+import { northAmericanSupermarketProfile } from './north-american-supermarket'
+
+/**
+ * 登録済みの店舗プロファイル
+ * 新しいチェーンはプロファイルファイルを追加してここに登録する
+ */
+export const STORE_PROFILES: StoreProfile[] = [
+  warehouseProfile,
+  lifeProfile,
+  receipt2Profile,
+  receipt3Profile,
+  northAmericanSupermarketProfile
+]
@@ -0,0 +1,22 @@
+import { StoreProfile } from '@/types/ocr-patterns'
+import { LifePatterns } from '../life-patterns'
+
+/**
+ * ライフ
+ * *印付き商品名の次行に価格、数量は「2コX単198」の形式
+ */
+export const lifeProfile: StoreProfile = {
+  id: 'life',
+  name: 'ライフ',
+  priority: 30,
+  identifiers: ['ライフコーポレーション', 'L-POINT', 'Lポイント', 'ライフポイント'],
+  layoutPatterns: [
+    /\*[^*]+\s*\n\s*¥\d+/, // *商品名 改行 ¥価格
+    /[A-Z]\s+.+\s*\n\s*\d+コX単\d+/, // 税区分付き商品 改行 数量
+    /\d+コX単\d+/, // 数量
+    /[A-Z]\s*金オフ/ // 金額値引
+  ],
+  minScore: 1,
+  confidence: 0.9,
+  parse: text => LifePatterns.parseLifeText(text)
+}
@@ -0,0 +1,26 @@
+import { StoreProfile } from '@/types/ocr-patterns'
+import { NorthAmericanSupermarketPatterns } from '../north-american-supermarket-patterns'
+
+/**
+ * 北米のスーパー（Loblaws・Metro・No Frills・Walmart）
+ * 商品コード＋商品名＋税区分＋金額の1行で1商品、量り売りは次行に重さ×単価
+ */
+export const northAmericanSupermarketProfile: StoreProfile = {
+  id: 'na-supermarket',
+  name: '北米スーパー（Loblaws・Metro・No Frills・Walmart）',
+  priority: 20,
+  identifiers: ['LOBLAWS', 'NO FRILLS', 'NOFRILLS', 'METRO', 'WALMART', 'SUPERCENTRE', 'PC OPTIMUM', 'REAL CANADIAN SUPERSTORE'],
+  layoutPatterns: [
+    /^\d{4,14}\s+[A-Z].*\s\d+\.\d{2}(\s+[HMRJDGPTKX]{1,4})?$/m, // 商品コード＋商品名＋金額
+    /^[A-Z].*\s\d{10,14}\s+[A-Z]{0,4}\s*\d+\.\d{2}/m, // 商品名＋UPC＋金額（Walmart）
+    /@\s*\$\d+\.\d{2}\s*\/\s*(kg|lb)/i, // 重さ×単価
+    /\d\.\d{2}\s+(H|HMRJ|MRJ)$/m, // 金額＋税区分
+    /MULTI[-\s]?BUY/i
+  ],
+  exclusions: [/WHOLESALE|COSTCO/i],
+  // 店名だけでは選ばない（METRO 等は他の文脈にも現れるため、識別子＋レイアウトパターンが必要）
+  minScore: 1.5,
+  confidence: 0.9,
+  taxJurisdiction: 'CA-ON',
+  parse: text => NorthAmericanSupermarketPatterns.parseText(text)
+}
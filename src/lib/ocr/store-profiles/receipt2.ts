@@ -0,0 +1,23 @@
+import { StoreProfile } from '@/types/ocr-patterns'
+import { Receipt2SpecificPatterns } from '../receipt2-specific-patterns'
+
+/**
+ * 領収証明細形式のスーパー（スキャンレジ）
+ * 「2022年01月25日 ... レジ0605」の日付行と「スNo」の取引番号
+ */
+export const receipt2Profile: StoreProfile = {
+  id: 'receipt2',
+  name: '領収証明細形式スーパー',
+  priority: 20,
+  identifiers: ['領収証明細', 'スキャンレジ', 'ひらいし'],
+  layoutPatterns: [
+    /\d{4}年\d{1,2}月\d{1,2}日.*レジ\d{4}/, // 日付とレジ番号
+    /スNo\s+\d{8}/, // 取引番号
+    /^\d+コX(単)?\d+$/m // 数量
+  ],
+  // 日付・レジ番号の形式が共通する別チェーン
+  exclusions: [/ピーコックストア|イオンマーケット/],
+  minScore: 1.5,
+  confidence: 0.8,
+  parse: text => Receipt2SpecificPatterns.parseReceipt2Text(text)
+}
@@ -0,0 +1,21 @@
+import { StoreProfile } from '@/types/ocr-patterns'
+import { Receipt3Patterns } from '../receipt3-patterns'
+
+/**
+ * ピーコックストア（イオンマーケット）
+ * 軽減税率の商品は金額の後ろに※、値引は「割引! 20%」の形式
+ */
+export const receipt3Profile: StoreProfile = {
+  id: 'receipt3',
+  name: 'ピーコックストア',
+  priority: 10,
+  identifiers: ['ピーコックストア', 'イオンマーケット'],
+  layoutPatterns: [
+    /レジ\s*\d{4}/, // レジ番号
+    /\d+※$/m, // 軽減税率マーク
+    /割引!\s*\d+%/ // 割引率
+  ],
+  minScore: 1,
+  confidence: 0.8,
+  parse: text => Receipt3Patterns.parseReceipt3Text(text)
+}
@@ -0,0 +1,21 @@
+import { StoreProfile } from '@/types/ocr-patterns'
+import { WarehousePatternsSimple } from '../warehouse-patterns-simple'
+
+/**
+ * 会員制大型店舗（WHOLESALE）
+ * 商品名・商品コード・数量・単価・金額＋税区分の5行で1商品
+ */
+export const warehouseProfile: StoreProfile = {
+  id: 'warehouse',
+  name: '会員制大型店舗',
+  priority: 40,
+  identifiers: ['WHOLESALE', 'COSTCO', 'コストコ', 'BIZ/GOLD'],
+  layoutPatterns: [
+    /\d{5,7}\s*\n\s*\d+個\s*\n\s*[\d,]+\s*\n\s*[\d,]+\s+[TE]/m, // 商品コード〜金額の5行パターン
+    /※.+\s*\n\s*\d{5,7}/m, // ※付き商品名の次行に商品コード
+    /^[\d,]+\s+[TE]$/m // 金額＋税区分
+  ],
+  minScore: 1,
+  confidence: 0.9,
+  parse: (text, aliases) => WarehousePatternsSimple.parseWarehouseText(text, aliases)
+}
@@ -0,0 +1,149 @@
+import { ExtractedItem, TaxJurisdiction, TaxMode, TaxSummary } from '@/types/ocr-patterns'
+import { StoreProfileRegistry } from './store-profile-registry'
+
+export type TaxMarker = 'reduced' | 'standard' | 'hst' | 'zero'
+
+// 地域ごとの税率
+export const TAX_RATES = {
+  'JP': { reduced: 0.08, standard: 0.10 },
+  'CA-ON': { hst: 0.13, zero: 0 } // オンタリオ州HST、基礎食料品は非課税
+} as const
+
+// 日本で標準税率（10%）となる食品以外の商品
+const JP_STANDARD_RATE_KEYWORDS = [
+  'ビール', '酒', 'ワイン', 'チューハイ', 'ハイボール', '焼酎', 'ウイスキー', '金麦',
+  'レジ袋', '袋', '洗剤', 'ティッシュ', 'シャンプー', '電池', '医薬'
+]
+
+/**
+ * 商品ごとの税率判定と税込価格の計算
+ * 日本の軽減税率（8%/10%）とオンタリオ州HST（13%、食料品0%）に対応
+ */
+export class TaxModel {
+
+  /**
+   * 課税地域を判定
+   * 店舗プロファイルの課税地域を優先し、プロファイルがなければ税集計行（HST/GST＋金額）のみで判定
+   * （本文全体は照合しない。コストコの「CANADA DRY」等、英字の商品名で誤判定するため）
+   */
+  static detectJurisdiction(text: string): TaxJurisdiction {
+    const profile = StoreProfileRegistry.detect(text)
+    if (profile) return profile.taxJurisdiction || 'JP'
+
+    return /^\s*(HST|GST)\b.*\d+\.\d{2}\s*$/im.test(text) ? 'CA-ON' : 'JP'
+  }
+
+  /**
+   * 税込・税抜（外税）表示を判定
+   */
+  static detectTaxMode(text: string, jurisdiction: TaxJurisdiction = this.detectJurisdiction(text)): TaxMode {
+    // カナダのレシートは常に税抜表示
+    if (jurisdiction === 'CA-ON') return 'exclusive'
+
+    if (/(外税|外\s*\d+\s*%|税抜|\(外\)|（外）)/.test(text)) return 'exclusive'
+    return 'inclusive'
+  }
+
+  /**
+   * 行ごとの税区分マーカーを検出（※・軽・E/T・H/HST）
+   */
+  static detectLineMarker(line: string): TaxMarker | null {
+    const text = line.trim()
+
+    if (/(\bHST\b|[\d.]\s*H\s*$|\s H$)/.test(text)) return 'hst'
+    if (/^[※＊*]|※|軽/.test(text)) return 'reduced'
+    if (/\d\s*E\s*$/.test(text)) return 'reduced'
+    if (/\d\s*T\s*$/.test(text)) return 'standard'
+
+    return null
+  }
+
+  /**
+   * 商品の税率を決定
+   * 優先順位: パーサーのメタデータ → 行マーカー → 商品名による推定
+   */
+  static resolveRate(item: ExtractedItem, jurisdiction: TaxJurisdiction): number {
+    const marker = this.markerFromMetadata(item) || this.detectLineMarker(item.rawText || '')
+
+    if (jurisdiction === 'CA-ON') {
+      // HSTマークのない商品は非課税（基礎食料品）
+      const rates = TAX_RATES['CA-ON']
+      return marker === 'hst' || marker === 'standard' ? rates.hst : rates.zero
+    }
+
+    const rates = TAX_RATES['JP']
+    if (marker === 'reduced') return rates.reduced
+    if (marker === 'standard') return rates.standard
+
+    return JP_STANDARD_RATE_KEYWORDS.some(keyword => item.name.includes(keyword))
+      ? rates.standard
+      : rates.reduced
+  }
+
+  /**
+   * 各商品に税率を設定し、税抜レシートの場合は税込価格に換算する
+   * price は税込の支払額、priceExcludingTax は税抜価格になる
+   */
+  static applyToItems(items: ExtractedItem[], text: string, debugMode: boolean = false): TaxSummary {
+    const jurisdiction = this.detectJurisdiction(text)
+    const mode = this.detectTaxMode(text, jurisdiction)
+    const taxByRate: Record<string, number> = {}
+
+    items.forEach(item => {
+      // 適用済みのアイテムはスキップ
+      if (item.taxRate !== undefined || item.price === undefined) return
+
+      const rate = this.resolveRate(item, jurisdiction)
+      const isDecimal = jurisdiction === 'CA-ON' || item.currency === 'USD' || !Number.isInteger(item.price)
+
+      let priceIncludingTax: number
+      let priceExcludingTax: number
+      if (mode === 'exclusive') {
+        priceExcludingTax = item.price
+        priceIncludingTax = this.round(item.price * (1 + rate), isDecimal)
+      } else {
+        priceIncludingTax = item.price
+        priceExcludingTax = this.round(item.price / (1 + rate), isDecimal)
+      }
+
+      item.taxRate = rate
+      item.priceExcludingTax = priceExcludingTax
+      item.price = priceIncludingTax
+      if (item.finalPrice !== undefined) {
+        item.finalPrice = priceIncludingTax
+      }
+
+      const key = rate.toFixed(2)
+      taxByRate[key] = this.round((taxByRate[key] || 0) + priceIncludingTax - priceExcludingTax, isDecimal)
+    })
+
+    const totalIncludingTax = Math.round(items.reduce((sum, item) => sum + (item.price || 0), 0) * 100) / 100
+
+    if (debugMode) {
+      console.log(`💴 税計算: ${jurisdiction} / ${mode === 'exclusive' ? '税抜' : '税込'}表示`, taxByRate)
+    }
+
+    return { jurisdiction, mode, taxByRate, totalIncludingTax }
+  }
+
+  /**
+   * パーサーが付与したメタデータから税区分を取得
+   */
+  private static markerFromMetadata(item: ExtractedItem): TaxMarker | null {
+    const metadata = item.metadata || {}
+
+    if (metadata.taxCode === 'H' || metadata.taxCode === 'HST') return 'hst'
+    if (metadata.taxType === 'E' || metadata.taxType === 'reduced') return 'reduced'
+    if (metadata.taxType === 'T' || metadata.taxType === 'standard') return 'standard'
+    if (metadata.reducedTaxRate === true) return 'reduced'
+
+    return null
+  }
+
+  /**
+   * 通貨に応じた丸め（円は整数、ドルはセント単位）
+   */
+  private static round(value: number, isDecimal: boolean): number {
+    return isDecimal ? Math.round(value * 100) / 100 : Math.round(value)
+  }
+}
@@ -0,0 +1,123 @@
+import { access, copyFile, mkdir } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import {
+  OCREngine,
+  OCREngineOptions,
+  OCREngineResult,
+  OCRLine,
+  OCRWord
+} from './ocr-engine'
+
+// 同梱の言語データ（@tesseract.js-data/*）
+const DEFAULT_LANGUAGES = ['jpn', 'eng']
+const BUNDLED_DATA_VERSION = '4.0.0_best_int'
+
+/**
+ * Tesseract.jsによるオフラインOCRエンジン
+ * クラウド認証情報・ネットワーク接続なしで動作する
+ */
+export class TesseractOCREngine implements OCREngine {
+  readonly name = 'tesseract' as const
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  async recognize(image: Buffer, _mimeType: string, options: OCREngineOptions = {}): Promise<OCREngineResult> {
+    const startTime = Date.now()
+    const { createWorker } = await import('tesseract.js')
+
+    const languages = options.languages || DEFAULT_LANGUAGES
+    const langPath = await this.prepareLangPath(languages)
+
+    // 言語データは同梱ファイルから読み込み、CDN・キャッシュを使わない
+    const worker = await createWorker(languages, 1, {
+      langPath,
+      gzip: true,
+      cacheMethod: 'none',
+      logger: options.debugMode
+        ? message => console.log(`🔤 Tesseract: ${message.status} ${(message.progress * 100).toFixed(0)}%`)
+        : undefined
+    })
+
+    try {
+      await worker.setParameters({ preserve_interword_spaces: '1' })
+      const { data } = await worker.recognize(image, {}, { text: true, blocks: true })
+
+      const lines: OCRLine[] = []
+      const words: OCRWord[] = []
+
+      data.blocks?.forEach(block => {
+        block.paragraphs.forEach(paragraph => {
+          paragraph.lines.forEach(line => {
+            const lineWords: OCRWord[] = line.words.map(word => ({
+              text: word.text,
+              confidence: word.confidence / 100,
+              bbox: { ...word.bbox }
+            }))
+            words.push(...lineWords)
+            lines.push({
+              text: this.joinWords(line.text),
+              confidence: line.confidence / 100,
+              bbox: { ...line.bbox },
+              words: lineWords
+            })
+          })
+        })
+      })
+
+      if (options.debugMode) {
+        console.log(`🔤 Tesseract: ${lines.length}行 / ${words.length}語を検出`)
+      }
+
+      return {
+        engine: this.name,
+        text: lines.map(line => line.text).join('\n'),
+        lines,
+        words,
+        confidence: data.confidence / 100,
+        processingTime: Date.now() - startTime
+      }
+    } finally {
+      await worker.terminate()
+    }
+  }
+
+  /**
+   * 言語データのディレクトリを準備
+   * TESSERACT_LANG_PATH が設定されていればそちらを優先し、
+   * 未設定なら言語ごとに別パッケージの同梱データを一つのディレクトリにまとめる
+   */
+  private async prepareLangPath(languages: string[]): Promise<string> {
+    if (process.env.TESSERACT_LANG_PATH) {
+      return process.env.TESSERACT_LANG_PATH
+    }
+
+    const langPath = path.join(os.tmpdir(), 'receipt-ocr-tessdata')
+    await mkdir(langPath, { recursive: true })
+
+    for (const code of languages) {
+      const target = path.join(langPath, `${code}.traineddata.gz`)
+      try {
+        await access(target)
+      } catch {
+        const source = path.join(
+          process.cwd(), 'node_modules', '@tesseract.js-data', code, BUNDLED_DATA_VERSION, `${code}.traineddata.gz`
+        )
+        await copyFile(source, target)
+      }
+    }
+
+    return langPath
+  }
+
+  /**
+   * 日本語文字間に挿入される余分な空白を除去
+   */
+  private joinWords(text: string): string {
+    return text
+      .replace(/([\u3040-\u30FF\u4E00-\u9FAF])\s+(?=[\u3040-\u30FF\u4E00-\u9FAF])/g, '$1')
+      .trim()
+  }
+}
@@ -0,0 +1,43 @@
+// 長音記号の代わりに読まれるダッシュ・マイナス類（NFKC後）
+const DASH_VARIANTS = '\\-‐‑‒–—―−'
+
+/**
+ * レシート本文・商品名の表記ゆれの正規化
+ * 半角カナ・全角英数記号をNFKCで統一し、長音記号とダッシュの揺れをそろえる。
+ * 照合用にはさらにカタカナをひらがなに寄せたキーを作る（表示には使わない）
+ */
+export class TextNormalizer {
+  // カナの直後のダッシュ類は長音記号（ｺ-ﾋ- → コーヒー）。数字・金額の前は除く
+  private static readonly LONG_VOWEL = new RegExp(`(?<=[ぁ-ゖァ-ヺー])[${DASH_VARIANTS}](?![¥$\\d])`, 'g')
+  // 上記以外のダッシュ類は半角ハイフン
+  private static readonly DASH = /[‐‑‒–—―−]/g
+  // 数字・金額の前の長音記号はマイナス（ー100 → -100、03ー1234 → 03-1234）
+  private static readonly MINUS = /(^|[\s\d])ー(?=\s*[¥$]?\d)/gm
+
+  /**
+   * レシート本文・商品名を正規化（行の区切りと空白の並びは保持）
+   */
+  static normalize(text: string): string {
+    if (!text) return text
+
+    return text
+      .normalize('NFKC')
+      .replace(this.LONG_VOWEL, 'ー')
+      .replace(this.DASH, '-')
+      .replace(this.MINUS, '$1-')
+  }
+
+  /**
+   * カタカナをひらがなに変換（長音記号はそのまま）
+   */
+  static foldKana(text: string): string {
+    return text.replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60))
+  }
+
+  /**
+   * 照合用のキー（全角・半角、カタカナ・ひらがな、大文字・小文字、長音記号の揺れを無視）
+   */
+  static toMatchKey(text: string): string {
+    return this.foldKana(this.normalize(text)).toLowerCase()
+  }
+}
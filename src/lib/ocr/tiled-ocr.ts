@@ -0,0 +1,209 @@
+import { IMAGE_CONFIG } from '@/constants/appConstants'
+import { OCRBoundingBox, OCREngine, OCREngineOptions, OCREngineResult, OCRLine, OCRWord } from './ocr-engine'
+
+export interface TiledOCROptions extends OCREngineOptions {
+  tileHeight?: number // タイルの高さ（px）
+  overlap?: number // 隣接タイルの重なり（px）
+}
+
+export interface OCRTile {
+  index: number
+  top: number
+  height: number
+}
+
+const DEFAULT_TILE_HEIGHT = 1600
+const DEFAULT_OVERLAP = 200
+
+/**
+ * 長尺レシートの分割OCR
+ * 縦長の画像を重なりのある横長タイルに分け、元の解像度のままOCRして結果を結合する
+ */
+export class TiledOCR {
+
+  /**
+   * 縦長画像かどうか
+   */
+  static isTall(width: number, height: number): boolean {
+    return width > 0 && height / width >= IMAGE_CONFIG.TALL_ASPECT_RATIO
+  }
+
+  /**
+   * タイルの配置を計算（分割不要なら1枚）
+   */
+  static planTiles(height: number, options: TiledOCROptions = {}): OCRTile[] {
+    const tileHeight = options.tileHeight || DEFAULT_TILE_HEIGHT
+    const overlap = Math.min(options.overlap ?? DEFAULT_OVERLAP, Math.floor(tileHeight / 2))
+
+    // 最後のタイルが極端に小さくなる程度なら分割しない
+    if (height <= tileHeight * 1.25) {
+      return [{ index: 0, top: 0, height }]
+    }
+
+    const step = tileHeight - overlap
+    const count = Math.ceil((height - overlap) / step)
+    const tiles: OCRTile[] = []
+
+    for (let index = 0; index < count; index++) {
+      const top = index === count - 1 ? Math.max(0, height - tileHeight) : index * step
+      tiles.push({ index, top, height: Math.min(tileHeight, height - top) })
+    }
+
+    return tiles
+  }
+
+  /**
+   * 必要に応じて画像をタイルに分けてOCRを実行
+   */
+  static async recognize(
+    engine: OCREngine,
+    image: Buffer,
+    mimeType: string,
+    options: TiledOCROptions = {}
+  ): Promise<OCREngineResult> {
+    const sharp = (await import('sharp')).default
+    const metadata = await sharp(image).metadata()
+    const width = metadata.width || 0
+    const height = metadata.height || 0
+    const tiles = this.planTiles(height, options)
+
+    const engineOptions: OCREngineOptions = {
+      debugMode: options.debugMode,
+      languages: options.languages,
+      sourceHash: options.sourceHash
+    }
+
+    if (tiles.length === 1) {
+      return engine.recognize(image, mimeType, engineOptions)
+    }
+
+    if (options.debugMode) {
+      console.log(`✂️ 縦長画像をタイル分割: ${width}x${height} → ${tiles.length}枚`)
+    }
+
+    const startTime = Date.now()
+    const recognizeTile = async (tile: OCRTile): Promise<OCREngineResult> => {
+      const tileImage = await sharp(image)
+        .extract({ left: 0, top: tile.top, width, height: tile.height })
+        .toBuffer()
+
+      return engine.recognize(tileImage, mimeType, {
+        ...engineOptions,
+        // 記録・再生のキーはタイルごとに分ける
+        sourceHash: options.sourceHash ? `${options.sourceHash}-tile${tile.index}` : undefined
+      })
+    }
+
+    // Tesseractはローカルで処理するため1枚ずつ、クラウドエンジンは並列に実行
+    const results: OCREngineResult[] = []
+    if (engine.name === 'tesseract') {
+      for (const tile of tiles) {
+        results.push(await recognizeTile(tile))
+      }
+    } else {
+      results.push(...await Promise.all(tiles.map(recognizeTile)))
+    }
+
+    const merged = this.merge(tiles, results)
+
+    if (options.debugMode) {
+      console.log(`🧩 タイル結合: ${merged.lines.length}行 / ${merged.words.length}語`)
+    }
+
+    return {
+      ...merged,
+      engine: engine.name,
+      processingTime: Date.now() - startTime,
+      imageSize: { width, height }
+    }
+  }
+
+  /**
+   * タイルごとの結果を結合
+   * 座標をタイル位置だけずらし、重なり部分は中央で切り分けて重複を除く
+   */
+  static merge(tiles: OCRTile[], results: OCREngineResult[]): Omit<OCREngineResult, 'engine' | 'processingTime'> {
+    const lines: OCRLine[] = []
+    const words: OCRWord[] = []
+    const textLines: string[] = []
+
+    tiles.forEach((tile, index) => {
+      const result = results[index]
+      const previous = tiles[index - 1]
+      const next = tiles[index + 1]
+
+      // このタイルが担当する範囲（重なりの中央で区切る）
+      const rangeTop = previous ? (previous.top + previous.height + tile.top) / 2 : -Infinity
+      const rangeBottom = next ? (tile.top + tile.height + next.top) / 2 : Infinity
+      const inRange = (box: OCRBoundingBox) => {
+        const centerY = (box.y0 + box.y1) / 2
+        return centerY >= rangeTop && centerY < rangeBottom
+      }
+
+      const tileWords = result.words.map(word => this.offsetWord(word, tile.top)).filter(word => inRange(word.bbox))
+      words.push(...tileWords)
+
+      if (result.lines.length > 0) {
+        const tileLines = result.lines
+          .map(line => ({
+            ...line,
+            bbox: this.offsetBox(line.bbox, tile.top),
+            words: line.words.map(word => this.offsetWord(word, tile.top))
+          }))
+          .filter(line => inRange(line.bbox))
+        lines.push(...tileLines)
+        textLines.push(...tileLines.map(line => line.text))
+      } else {
+        // 座標のない結果はテキストの一致で重複を除く
+        textLines.push(...this.removeOverlapLines(textLines, result.text.split('\n')))
+      }
+    })
+
+    const confidenceSource = words.length > 0 ? words : lines
+    const confidence = confidenceSource.length > 0
+      ? confidenceSource.reduce((sum, entry) => sum + entry.confidence, 0) / confidenceSource.length
+      : results.reduce((sum, result) => sum + result.confidence, 0) / results.length
+
+    const cachedResults = results.filter(result => result.cache)
+    const cache = cachedResults.length > 0
+      ? {
+          hits: cachedResults.reduce((sum, result) => sum + result.cache!.hits, 0),
+          misses: cachedResults.reduce((sum, result) => sum + result.cache!.misses, 0)
+        }
+      : undefined
+
+    return {
+      text: textLines.join('\n'),
+      lines,
+      words,
+      confidence,
+      raw: results.map(result => result.raw),
+      cache
+    }
+  }
+
+  /**
+   * 前のタイルの末尾と一致する先頭行を除去
+   */
+  private static removeOverlapLines(previousLines: string[], nextLines: string[]): string[] {
+    const maxOverlap = Math.min(previousLines.length, nextLines.length, 15)
+
+    for (let size = maxOverlap; size > 0; size--) {
+      const tail = previousLines.slice(-size).map(line => line.trim())
+      const head = nextLines.slice(0, size).map(line => line.trim())
+      if (tail.every((line, index) => line === head[index])) {
+        return nextLines.slice(size)
+      }
+    }
+
+    return nextLines
+  }
+
+  private static offsetWord(word: OCRWord, offsetY: number): OCRWord {
+    return { ...word, bbox: this.offsetBox(word.bbox, offsetY) }
+  }
+
+  private static offsetBox(box: OCRBoundingBox, offsetY: number): OCRBoundingBox {
+    return { ...box, y0: box.y0 + offsetY, y1: box.y1 + offsetY }
+  }
+}
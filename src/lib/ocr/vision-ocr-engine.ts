@@ -0,0 +1,123 @@
+import {
+  OCREngine,
+  OCREngineOptions,
+  OCREngineResult,
+  OCRLine,
+  OCRWord,
+  boundingBoxFromVertices,
+  getGoogleCredentials,
+  hasGoogleCredentials,
+  mergeBoundingBoxes
+} from './ocr-engine'
+
+// 行末とみなすVision APIの改行種別
+const LINE_BREAK_TYPES = ['LINE_BREAK', 'EOL_SURE_SPACE', 5, 3]
+const SPACE_BREAK_TYPES = ['SPACE', 'SURE_SPACE', 1, 2]
+
+interface VisionSymbol {
+  text?: string | null
+  property?: {
+    detectedBreak?: {
+      type?: string | number | null
+    } | null
+  } | null
+}
+
+interface VisionWord {
+  symbols?: VisionSymbol[] | null
+  confidence?: number | null
+  boundingBox?: {
+    vertices?: Array<{ x?: number | null; y?: number | null }> | null
+  } | null
+}
+
+/**
+ * Google Cloud Vision APIによるOCRエンジン
+ */
+export class VisionOCREngine implements OCREngine {
+  readonly name = 'vision' as const
+
+  isAvailable(): boolean {
+    return hasGoogleCredentials()
+  }
+
+  async recognize(image: Buffer, _mimeType: string, options: OCREngineOptions = {}): Promise<OCREngineResult> {
+    const startTime = Date.now()
+    const { ImageAnnotatorClient } = await import('@google-cloud/vision')
+
+    const visionClient = new ImageAnnotatorClient(getGoogleCredentials())
+
+    const [result] = await visionClient.textDetection({
+      image: { content: image },
+      imageContext: options.languages ? { languageHints: options.languages } : undefined
+    })
+
+    // 画像単位のエラーは例外にする（空のテキストとして返すとキャッシュされ、再アップロードでも失敗し続ける）
+    if (result.error?.message) {
+      throw new Error(`Vision API処理が失敗しました: ${result.error.message}`)
+    }
+
+    const text = result.textAnnotations?.[0]?.description || ''
+    const page = result.fullTextAnnotation?.pages?.[0]
+
+    const words: OCRWord[] = []
+    const lines: OCRLine[] = []
+    let currentWords: OCRWord[] = []
+    let currentText = ''
+
+    const flushLine = () => {
+      if (currentWords.length === 0) return
+      lines.push({
+        text: currentText.trim(),
+        confidence: currentWords.reduce((sum, word) => sum + word.confidence, 0) / currentWords.length,
+        bbox: mergeBoundingBoxes(currentWords.map(word => word.bbox)),
+        words: currentWords
+      })
+      currentWords = []
+      currentText = ''
+    }
+
+    page?.blocks?.forEach(block => {
+      block.paragraphs?.forEach(paragraph => {
+        (paragraph.words as VisionWord[] | null | undefined)?.forEach(visionWord => {
+          const symbols = visionWord.symbols || []
+          const word: OCRWord = {
+            text: symbols.map(symbol => symbol.text || '').join(''),
+            confidence: visionWord.confidence ?? 0.9,
+            bbox: boundingBoxFromVertices(visionWord.boundingBox?.vertices)
+          }
+          words.push(word)
+          currentWords.push(word)
+          currentText += word.text
+
+          const breakType = symbols[symbols.length - 1]?.property?.detectedBreak?.type
+          if (breakType != null && LINE_BREAK_TYPES.includes(breakType)) {
+            flushLine()
+          } else if (breakType != null && SPACE_BREAK_TYPES.includes(breakType)) {
+            currentText += ' '
+          }
+        })
+      })
+      flushLine()
+    })
+
+    if (options.debugMode) {
+      console.log(`👁️ Vision API: ${lines.length}行 / ${words.length}語を検出`)
+    }
+
+    return {
+      engine: this.name,
+      text,
+      lines,
+      words,
+      confidence: words.length > 0
+        ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length
+        : 0,
+      processingTime: Date.now() - startTime,
+      imageSize: page?.width && page?.height
+        ? { width: page.width, height: page.height }
+        : undefined,
+      raw: result
+    }
+  }
+}
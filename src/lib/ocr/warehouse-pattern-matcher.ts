@@ -1,7 +1,10 @@
 import { ExtractedItem } from '@/types/ocr-patterns'
 import { KNOWN_PRODUCT_PATTERNS, PATTERN_CONFIG } from './warehouse-pattern-definitions'
 import { ProductNameNormalizer } from './product-name-normalizer'
+import type { ProductAliasDictionary } from './product-alias-dictionary'
 import { PatternValidationUtils } from './pattern-validation-utils'
+import { DiscountProcessor } from './discount-processor'
+import { QuantityPriceParser } from './quantity-price-parser'
 
 /**
  * 大型店舗（WHOLESALE）専用のOCRパターンマッチング（リファクタリング版）
@@ -10,30 +13,19 @@ import { PatternValidationUtils } from './pattern-validation-utils'
 export class WarehousePatternMatcher {
 
   /**
-   * 大型店舗のOCRテキストを解析（適応型パーサー使用）
+   * 大型店舗のOCRテキストを解析
+   * aliases を指定した場合はユーザー辞書に登録された表記を組み込みの正規化より優先する
    */
-  static parseWarehouseText(ocrText: string): ExtractedItem[] {
-    console.log(`🏪 適応型レシートパーサー開始`)
+  static parseWarehouseText(ocrText: string, aliases?: ProductAliasDictionary): ExtractedItem[] {
+    console.log(`🏪 大型店舗レシートパーサー開始`)
     console.log('=' + '='.repeat(50))
     
-    // Step 1: 適応型パターンで解析
-    console.log('🧠 Step 1: 適応型パターンマッチング')
-    let items = AdaptiveReceiptParser.parseAdaptively(ocrText)
-    
-    // Step 1.5: 結果が不十分な場合、汎用パーサーでフォールバック
-    const minExpectedItems = Math.max(2, ocrText.split('\n').filter(l => l.trim()).length * 0.1)
-    if (items.length < minExpectedItems) {
-      console.log('📦 フォールバック: 汎用パーサーを併用')
-      const fallbackItems = UniversalReceiptParser.parseReceipt(ocrText)
-      
-      // 重複を避けて結合
-      const newItems = fallbackItems.filter(newItem => 
-        !PatternValidationUtils.isDuplicateItem(newItem, items)
-      )
-      
-      items.push(...newItems)
-      console.log(`📈 フォールバック結果: +${newItems.length}件 (合計: ${items.length}件)`)
-    }
+    const lines = ocrText.split('\n').map(line => line.trim()).filter(line => line.length > 0)
+
+    // Step 1: 商品名・商品コード・数量・単価・金額＋税区分の5行パターンで解析
+    console.log('🧠 Step 1: 5行パターンマッチング')
+    let items = this.findItemBlocks(lines, aliases)
+    console.log(`📦 5行パターン: ${items.length}件`)
     
     // Step 2: デバッグモード時の詳細分析
     if (process.env.NODE_ENV === 'development') {
@@ -41,11 +33,14 @@ export class WarehousePatternMatcher {
     }
     
     // Step 3: 補完的パターンマッチング
-    const supplementaryItems = this.findSupplementaryPatterns(ocrText, items)
+    const supplementaryItems = this.findSupplementaryPatterns(ocrText, items, aliases)
     items.push(...supplementaryItems)
     
+    // Step 3.5: 値引・INSTANT SAVINGS行を直前の商品に適用
+    items = DiscountProcessor.applyDiscountLines(lines, items)
+    
     // Step 4: 最終品質チェック
-    const qualityCheckedItems = this.finalQualityCheck(items)
+    const qualityCheckedItems = this.finalQualityCheck(items, aliases)
     
     console.log(`✅ 最終結果: ${qualityCheckedItems.length}件の商品を検出`)
     console.log('=' + '='.repeat(50))
@@ -53,6 +48,51 @@ export class WarehousePatternMatcher {
     return qualityCheckedItems
   }
 
+  /**
+   * 商品名・商品コード・数量・単価・金額＋税区分の5行で1商品の形式を解析
+   */
+  private static findItemBlocks(lines: string[], aliases?: ProductAliasDictionary): ExtractedItem[] {
+    const items: ExtractedItem[] = []
+
+    for (let i = 0; i + 4 < lines.length; i++) {
+      const [nameLine, codeLine, quantityLine, unitPriceLine, totalLine] = lines.slice(i, i + 5)
+      const codeMatch = codeLine.match(/^(\d{4,7})$/)
+      const quantity = QuantityPriceParser.parseQuantity(quantityLine, true)
+      const unitPriceMatch = unitPriceLine.match(/^([\d,]+)$/)
+      const totalMatch = totalLine.match(/^([\d,]+)\s*([TE])?$/)
+      if (!codeMatch || !quantity || !unitPriceMatch || !totalMatch) continue
+
+      const name = nameLine.replace(/^[※*]+/, '').trim()
+      const price = parseInt(totalMatch[1].replace(/,/g, ''))
+      if (!PatternValidationUtils.isValidProductName(name) || !PatternValidationUtils.isValidPrice(price)) continue
+
+      const taxType = totalMatch[2]
+      const item: ExtractedItem = {
+        name,
+        price,
+        quantity,
+        unitPrice: parseInt(unitPriceMatch[1].replace(/,/g, '')),
+        confidence: PATTERN_CONFIG.confidence.high,
+        sourcePattern: 'warehouse-item-block',
+        lineNumbers: [i, i + 1, i + 2, i + 3, i + 4],
+        rawText: [nameLine, codeLine, quantityLine, unitPriceLine, totalLine].join(' | '),
+        metadata: {
+          productCode: codeMatch[1],
+          taxType,
+          reducedTaxRate: taxType === 'E'
+        }
+      }
+      this.normalizeItemName(item, aliases)
+      item.category = ProductNameNormalizer.categorizeProduct(item.name, aliases)
+      items.push(item)
+      console.log(`  📦 5行パターン検出: ${item.name} ${quantity}個 (¥${price})`)
+
+      i += 4
+    }
+
+    return items
+  }
+
   /**
    * デバッグ分析を実行
    */
@@ -77,7 +117,11 @@ export class WarehousePatternMatcher {
   /**
    * 補完的パターンマッチングで追加の商品を検索
    */
-  private static findSupplementaryPatterns(ocrText: string, existingItems: ExtractedItem[]): ExtractedItem[] {
+  private static findSupplementaryPatterns(
+    ocrText: string,
+    existingItems: ExtractedItem[],
+    aliases?: ProductAliasDictionary
+  ): ExtractedItem[] {
     const lines = ocrText.split('\n').map(line => line.trim()).filter(line => line.length > 0)
     const supplementaryItems: ExtractedItem[] = []
     const processedLines = new Set<number>()
@@ -90,16 +134,17 @@ export class WarehousePatternMatcher {
     })
 
     // 高信頼度商品の検索
-    const highConfidenceItems = this.findItemsWithHighConfidence(lines, processedLines)
+    const highConfidenceItems = this.findItemsWithHighConfidence(lines, processedLines, aliases)
     supplementaryItems.push(...highConfidenceItems)
 
     // 既知パターンの検索
     const knownPatternItems = this.findKnownPatterns(lines, processedLines)
     supplementaryItems.push(...knownPatternItems)
 
-    // 汎用価格パターンの検索
+    // 汎用価格パターンの検索（商品として処理済みの行を含むものは除く）
     const genericItems = PatternValidationUtils.findGenericPricePatterns(lines)
     const filteredGenericItems = genericItems.filter(item => 
+      !item.lineNumbers.some(lineNum => processedLines.has(lineNum)) &&
       !PatternValidationUtils.isDuplicateItem(item, [...existingItems, ...supplementaryItems])
     )
     supplementaryItems.push(...filteredGenericItems)
@@ -110,7 +155,11 @@ export class WarehousePatternMatcher {
   /**
    * 高信頼度商品を検索
    */
-  private static findItemsWithHighConfidence(lines: string[], processedLines: Set<number>): ExtractedItem[] {
+  private static findItemsWithHighConfidence(
+    lines: string[],
+    processedLines: Set<number>,
+    aliases?: ProductAliasDictionary
+  ): ExtractedItem[] {
     const items: ExtractedItem[] = []
 
     for (let i = 0; i < lines.length - 4; i++) {
@@ -119,12 +168,11 @@ export class WarehousePatternMatcher {
       // 5行パターンの検索
       const warehouseItem = PatternValidationUtils.findWarehouseProduct(lines, i, processedLines)
       if (warehouseItem) {
-        const normalizedName = ProductNameNormalizer.normalizeProductName(warehouseItem.name)
-        warehouseItem.name = normalizedName
-        warehouseItem.category = ProductNameNormalizer.categorizeProduct(normalizedName)
+        this.normalizeItemName(warehouseItem, aliases)
+        warehouseItem.category = ProductNameNormalizer.categorizeProduct(warehouseItem.name, aliases)
         
         items.push(warehouseItem)
-        console.log(`  📦 5行パターン検出: ${normalizedName} (¥${warehouseItem.price})`)
+        console.log(`  📦 5行パターン検出: ${warehouseItem.name} (¥${warehouseItem.price})`)
         
         // 処理済みマーク
         warehouseItem.lineNumbers?.forEach(lineNum => processedLines.add(lineNum))
@@ -134,10 +182,9 @@ export class WarehousePatternMatcher {
     // 分離商品名パターンの検索
     const splitNameItems = PatternValidationUtils.findSplitNameProducts(lines, processedLines)
     splitNameItems.forEach(item => {
-      const normalizedName = ProductNameNormalizer.normalizeProductName(item.name)
-      item.name = normalizedName
-      item.category = ProductNameNormalizer.categorizeProduct(normalizedName)
-      console.log(`  📦 分離名パターン検出: ${normalizedName} (¥${item.price})`)
+      this.normalizeItemName(item, aliases)
+      item.category = ProductNameNormalizer.categorizeProduct(item.name, aliases)
+      console.log(`  📦 分離名パターン検出: ${item.name} (¥${item.price})`)
     })
     items.push(...splitNameItems)
 
@@ -192,7 +239,7 @@ export class WarehousePatternMatcher {
   /**
    * 最終品質チェック
    */
-  private static finalQualityCheck(items: ExtractedItem[]): ExtractedItem[] {
+  private static finalQualityCheck(items: ExtractedItem[], aliases?: ProductAliasDictionary): ExtractedItem[] {
     console.log(`\n🔍 Step 4: 最終品質チェック (${items.length}件を検証)`)
     
     const validItems = items.filter(item => {
@@ -229,9 +276,9 @@ export class WarehousePatternMatcher {
 
     // 商品名の正規化を再適用
     uniqueItems.forEach(item => {
-      item.name = ProductNameNormalizer.normalizeProductName(item.name)
+      this.normalizeItemName(item, aliases)
       if (!item.category) {
-        item.category = ProductNameNormalizer.categorizeProduct(item.name)
+        item.category = ProductNameNormalizer.categorizeProduct(item.name, aliases)
       }
     })
 
@@ -239,4 +286,20 @@ export class WarehousePatternMatcher {
     
     return uniqueItems
   }
-}
\ No newline at end of file
+
+  /**
+   * 商品名を正規化（レシート上の表記は receiptName に残し、ユーザー辞書の照合に使う）
+   */
+  private static normalizeItemName(item: ExtractedItem, aliases?: ProductAliasDictionary): void {
+    const receiptName = item.receiptName ?? item.name
+    const normalizedName = ProductNameNormalizer.normalizeProductName(receiptName, aliases, 'warehouse')
+
+    item.name = normalizedName
+    if (normalizedName !== receiptName) {
+      item.receiptName = receiptName
+    }
+    if (aliases?.lookup(receiptName)) {
+      item.metadata = { ...item.metadata, productAlias: true }
+    }
+  }
+}
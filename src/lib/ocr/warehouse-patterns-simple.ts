@@ -1,5 +1,6 @@
 import { ExtractedItem } from '@/types/ocr-patterns'
 import { WarehousePatternMatcher } from './warehouse-pattern-matcher'
+import type { ProductAliasDictionary } from './product-alias-dictionary'
 
 /**
  * 大型店舗（WHOLESALE）専用のOCRパターンマッチング（リファクタリング版）
@@ -15,9 +16,10 @@ export class WarehousePatternsSimple {
    * 大型店舗のOCRテキストを解析
    * 
    * @param ocrText OCRで抽出されたテキスト
+   * @param aliases ユーザー辞書（組み込みの正規化より優先）
    * @returns 抽出された商品アイテム配列
    */
-  static parseWarehouseText(ocrText: string): ExtractedItem[] {
-    return WarehousePatternMatcher.parseWarehouseText(ocrText)
+  static parseWarehouseText(ocrText: string, aliases?: ProductAliasDictionary): ExtractedItem[] {
+    return WarehousePatternMatcher.parseWarehouseText(ocrText, aliases)
   }
 }
\ No newline at end of file
@@ -0,0 +1,279 @@
+import { ExtractedItem } from '@/types/ocr-patterns'
+import { QuantityPriceCheck } from './quantity-price-parser'
+
+// 重さ・容量の単位（食材の単位一覧 UNITS のうち計量単位）
+export type MeasureUnit = 'g' | 'kg' | 'ml' | 'L'
+
+export interface WeightPriceMatch {
+  quantity: number // 重さ・容量（unit 単位）
+  unit: MeasureUnit
+  unitPrice: number // unitPriceBasis あたりの価格
+  unitPriceBasis: number // 単価の基準量（unit 単位。100g当り → 100）
+  lineTotal?: number
+  currency?: 'JPY' | 'USD'
+  check: QuantityPriceCheck
+  name?: string // 同じ行で表記の前にある商品名
+  matchedText: string
+}
+
+// 単位表記 → 単位と換算係数（ポンドはキログラムに換算）
+const UNIT_ALIASES: Record<string, { unit: MeasureUnit; factor: number }> = {
+  g: { unit: 'g', factor: 1 },
+  kg: { unit: 'kg', factor: 1 },
+  ml: { unit: 'ml', factor: 1 },
+  l: { unit: 'L', factor: 1 },
+  lb: { unit: 'kg', factor: 0.45359237 },
+  lbs: { unit: 'kg', factor: 0.45359237 }
+}
+
+// 同じ次元で単位をそろえるための基準（g・ml 単位）
+const BASE_FACTORS: Record<MeasureUnit, number> = { g: 1, kg: 1000, ml: 1, L: 1000 }
+
+const MEASURE = '(kg|g|ml|lbs|lb|l)(?![a-z])'
+const AMOUNT = '(\\d{1,3}(?:,\\d{3})+(?:\\.\\d{1,2})?|\\d+(?:\\.\\d{1,2})?)'
+
+// 基準量が先: 100g当り198円 / 100gあたり 198
+const BASIS_FIRST = new RegExp(`(?:(\\d+(?:\\.\\d+)?)\\s*)?${MEASURE}\\s*(?:当り|当たり|あたり|当|につき)\\s*([¥$])?\\s*${AMOUNT}\\s*(円)?`, 'i')
+// 価格が先: @ $1.74/kg / 198円/100g / @198 per 100g
+const PRICE_FIRST = new RegExp(`(?:@|単価)?\\s*([¥$])?\\s*${AMOUNT}\\s*(円)?\\s*(?:/|per\\s*)\\s*(\\d+(?:\\.\\d+)?)?\\s*${MEASURE}`, 'i')
+// 重さ・容量: 245g / 1.23 kg
+const MEASURED = new RegExp(`(?<![\\d.])(\\d+(?:\\.\\d+)?)\\s*${MEASURE}`, 'gi')
+// 表記の後ろの金額（税区分の記号を許容）
+const TRAILING_TOTAL = new RegExp(`^\\s*([¥$])?\\s*${AMOUNT}\\s*(円)?\\s*[A-Z*※軽]{0,2}$`, 'i')
+
+/**
+ * 重さ・容量で価格が決まる商品（量り売りの肉・魚・惣菜、青果等）の行の認識
+ * 「豚ばらうす切り 245g 100g当り198円」「BANANAS 1.23 kg @ $1.74/kg」から
+ * 数量（重さ）・単位・単価を取得し、金額を検算する
+ */
+export class WeightPriceParser {
+
+  /**
+   * 行から重さ×単価の表記を認識（単価の基準量がない単なる内容量は対象外）
+   */
+  static parse(line: string): WeightPriceMatch | null {
+    const normalized = line.normalize('NFKC').replace(/\s+/g, ' ').trim()
+    if (!normalized) return null
+
+    const perUnit = this.parsePerUnitPrice(normalized)
+    if (!perUnit) return null
+
+    // 単価表記を除いた部分から、単価表記に最も近い重さ・容量を取得
+    const rest = normalized.slice(0, perUnit.index) + ' '.repeat(perUnit.text.length) + normalized.slice(perUnit.index + perUnit.text.length)
+    const measured = Array.from(rest.matchAll(MEASURED))
+      .map(match => ({ match, alias: UNIT_ALIASES[match[2].toLowerCase()] }))
+      .filter(({ alias }) => BASE_FACTORS[alias.unit] && this.sameDimension(alias.unit, perUnit.unit))
+      .sort((a, b) => Math.abs(a.match.index! - perUnit.index) - Math.abs(b.match.index! - perUnit.index))[0]
+    if (!measured) return null
+
+    const quantity = this.round(parseFloat(measured.match[1]) * measured.alias.factor, 3)
+    const unit = measured.alias.unit
+    if (!quantity) return null
+
+    // 単価を重さと同じ単位に換算（1.2kg と 198円/100g → 0.1kg あたり198円）
+    const unitPriceBasis = this.round(perUnit.basis * BASE_FACTORS[perUnit.unit] / BASE_FACTORS[unit], 6)
+
+    const start = Math.min(perUnit.index, measured.match.index!)
+    const end = Math.max(perUnit.index + perUnit.text.length, measured.match.index! + measured.match[0].length)
+    const name = normalized.slice(0, start).replace(/[\s:：\-]+$/, '').trim() || undefined
+
+    // 表記の後ろに金額があれば検算に使用
+    const trailing = normalized.slice(end).match(TRAILING_TOTAL)
+    if (!trailing && normalized.slice(end).trim()) return null
+
+    const values = {
+      quantity,
+      unit,
+      unitPrice: perUnit.unitPrice,
+      unitPriceBasis,
+      lineTotal: trailing ? parseFloat(trailing[2].replace(/,/g, '')) : undefined,
+      currency: perUnit.currency || (trailing?.[1] === '$' ? 'USD' : trailing?.[1] === '¥' || trailing?.[3] ? 'JPY' : undefined)
+    } as const
+
+    return {
+      ...this.reconcile(values),
+      name,
+      matchedText: normalized.slice(start)
+    }
+  }
+
+  /**
+   * 行全体が重さ×単価の表記か（商品名を含まない）
+   */
+  static isNotationLine(line: string): boolean {
+    const match = this.parse(line)
+    return match !== null && !match.name
+  }
+
+  /**
+   * 重さ×単価＝金額を検算（円は端数処理の違いを1円まで許容）
+   */
+  static reconcile(values: Omit<WeightPriceMatch, 'check' | 'name' | 'matchedText'>): Omit<WeightPriceMatch, 'name' | 'matchedText'> {
+    const currency = values.currency ||
+      ([values.unitPrice, values.lineTotal].some(value => value !== undefined && !Number.isInteger(value)) ? 'USD' : undefined)
+    const calculated = values.quantity / values.unitPriceBasis * values.unitPrice
+    const derived = currency === 'USD' ? this.round(calculated, 2) : Math.floor(calculated + 1e-9)
+
+    if (values.lineTotal === undefined) {
+      return { ...values, currency, lineTotal: derived, check: 'derived' }
+    }
+
+    const tolerance = (currency === 'USD' ? 0.01 : 1) + 1e-9 // 浮動小数点の誤差を許容
+    return {
+      ...values,
+      currency,
+      check: Math.abs(calculated - values.lineTotal) <= tolerance ? 'verified' : 'mismatch'
+    }
+  }
+
+  /**
+   * 解析済みの商品に重さ・単位・単価を反映
+   * 商品名の行・次の行・rawText から表記を探し、重さの行だけが商品として抽出されている場合は前の行の商品に統合する
+   */
+  static applyToItems(items: ExtractedItem[], text: string, debugMode: boolean = false): ExtractedItem[] {
+    const lines = text.split('\n').map(line => line.trim())
+    const result: ExtractedItem[] = []
+    const usedLines = new Set<number>() // 同じ表記の行が複数ある場合に備えて使用済みの行を記録
+
+    items.forEach(item => {
+      const ownMatch = this.parse(item.name)
+
+      // 重さの行だけが商品になっている場合（商品名は前の行）
+      if (ownMatch && !ownMatch.name) {
+        const lineIndex = lines.findIndex((line, index) => !usedLines.has(index) && this.parse(line)?.matchedText === ownMatch.matchedText)
+        usedLines.add(lineIndex)
+        const previousLine = lineIndex > 0 ? lines[lineIndex - 1] : ''
+        const owner = previousLine ? result.find(other => other.name && previousLine.includes(other.name)) : undefined
+
+        if (owner) {
+          // 前の商品が次の行から反映済みの場合は重さの行を除くだけ
+          if (owner.unit === undefined) {
+            result[result.indexOf(owner)] = this.apply(owner, ownMatch)
+          }
+          if (debugMode) {
+            console.log(`⚖️ 重さの行を統合: "${item.name}" → "${owner.name}"`)
+          }
+          return
+        }
+
+        if (previousLine && !this.parse(previousLine)) {
+          result.push(this.apply({ ...item, name: previousLine.replace(/^[*＊※]+/, '').trim() }, ownMatch))
+          return
+        }
+      }
+
+      const match = this.findMatch(item, lines)
+      if (match) {
+        const applied = this.apply(item, match)
+        if (debugMode) {
+          console.log(`⚖️ 量り売り: ${applied.name} ${applied.quantity}${applied.unit} (${match.unitPriceBasis}${match.unit}あたり${match.unitPrice}) = ${applied.price} [${applied.metadata?.weightCheck}]`)
+        }
+        result.push(applied)
+        return
+      }
+
+      result.push(item)
+    })
+
+    return result
+  }
+
+  /**
+   * 認識結果を商品に反映（金額は印字された金額を優先）
+   */
+  static apply(item: ExtractedItem, match: Omit<WeightPriceMatch, 'name' | 'matchedText'>): ExtractedItem {
+    let weighed = match
+    if (match.check === 'derived' && item.price) {
+      const checked = this.reconcile({ ...match, lineTotal: item.price })
+      // 抽出済みの価格が単価を拾っている場合は計算した金額を使用
+      weighed = checked.check === 'verified' || item.price !== match.unitPrice ? checked : match
+    }
+
+    return {
+      ...item,
+      quantity: weighed.quantity,
+      unit: weighed.unit,
+      unitPrice: weighed.unitPrice,
+      unitPriceBasis: weighed.unitPriceBasis,
+      lineTotal: weighed.lineTotal,
+      price: weighed.lineTotal ?? item.price,
+      currency: item.currency || weighed.currency,
+      metadata: {
+        ...item.metadata,
+        weightCheck: weighed.check
+      }
+    }
+  }
+
+  /**
+   * 商品の rawText・商品名の行・次の行から表記を探す
+   */
+  private static findMatch(item: ExtractedItem, lines: string[]): WeightPriceMatch | null {
+    const segments = (item.rawText || '').split('|')
+    for (const segment of segments) {
+      const match = this.parse(segment)
+      if (match) return match
+    }
+
+    const cleanName = item.name.replace(/^[*＊※]+/, '').trim()
+    if (!cleanName) return null
+
+    const lineIndex = lines.findIndex(line => line.includes(cleanName))
+    if (lineIndex < 0) return null
+
+    const sameLine = this.parse(lines[lineIndex])
+    if (sameLine) return sameLine
+
+    // 次の行が商品名のない重さの行の場合
+    const nextLine = lines[lineIndex + 1] ? this.parse(lines[lineIndex + 1]) : null
+    return nextLine && !nextLine.name ? nextLine : null
+  }
+
+  /**
+   * 単価表記（100g当り198円・$1.74/kg 等）を取得
+   */
+  private static parsePerUnitPrice(line: string): {
+    unitPrice: number
+    basis: number
+    unit: MeasureUnit
+    currency?: 'JPY' | 'USD'
+    index: number
+    text: string
+  } | null {
+    const basisFirst = line.match(BASIS_FIRST)
+    const priceFirst = line.match(PRICE_FIRST)
+    const match = basisFirst && (!priceFirst || basisFirst.index! <= priceFirst.index!) ? basisFirst : priceFirst
+    if (!match || match.index === undefined) return null
+
+    const [basisText, unitText, symbol, amountText, suffix] = match === basisFirst
+      ? [match[1], match[2], match[3], match[4], match[5]]
+      : [match[4], match[5], match[1], match[2], match[3]]
+
+    const alias = UNIT_ALIASES[unitText.toLowerCase()]
+    const unitPrice = parseFloat(amountText.replace(/,/g, ''))
+    if (!alias || !unitPrice) return null
+
+    // ポンド単価はキログラム単価に換算
+    const basis = parseFloat(basisText || '1') * alias.factor
+    const currency = symbol === '$' || /\.\d{2}$/.test(amountText) ? 'USD' : symbol === '¥' || suffix ? 'JPY' : undefined
+
+    return {
+      unitPrice: alias.factor === 1 ? unitPrice : this.round(unitPrice / alias.factor, 2),
+      basis: alias.factor === 1 ? basis : 1,
+      unit: alias.unit,
+      currency,
+      index: match.index,
+      text: match[0]
+    }
+  }
+
+  private static sameDimension(a: MeasureUnit, b: MeasureUnit): boolean {
+    const isWeight = (unit: MeasureUnit) => unit === 'g' || unit === 'kg'
+    return isWeight(a) === isWeight(b)
+  }
+
+  private static round(value: number, digits: number): number {
+    const factor = Math.pow(10, digits)
+    return Math.round(value * factor) / factor
+  }
+}
@@ -1,9 +1,13 @@
 // lib/receiptParser.ts
 
+import { QuantityPriceParser } from './ocr/quantity-price-parser'
+
 export interface ParsedItem {
   name: string
   price?: number
   quantity?: number
+  unitPrice?: number
+  lineTotal?: number
   category?: string
   confidence?: number
 }
@@ -107,15 +111,21 @@ export class StoreConfigManager {
           lineCount: 3,
           confidence: 0.8,
           matcher: (lines, index) => {
-            const quantityMatch = lines[index].match(/^(\d+)コX単(\d+)$/)
+            const quantityPrice = QuantityPriceParser.parse(lines[index])
             const priceMatch = lines[index + 1]?.match(/^¥(\d{1,5})$/)
             const productName = index > 0 ? lines[index - 1] : ''
             
-            if (quantityMatch && priceMatch && productName) {
+            if (quantityPrice && !quantityPrice.name && quantityPrice.unitPrice !== undefined && priceMatch && productName) {
+              // 数量×単価と価格行を検算
+              const checked = QuantityPriceParser.reconcile({ ...quantityPrice, lineTotal: parseInt(priceMatch[1]) })
+              if (checked.check === 'mismatch') return null
+              
               return {
                 name: productName.trim(),
-                price: parseInt(priceMatch[1]),
-                quantity: parseInt(quantityMatch[1]),
+                price: checked.lineTotal,
+                quantity: checked.quantity,
+                unitPrice: checked.unitPrice,
+                lineTotal: checked.lineTotal,
                 category: this.categorizeItem(productName),
                 confidence: 0.8
               }
@@ -144,21 +154,28 @@ export class StoreConfigManager {
           matcher: (lines, index) => {
             const productName = lines[index]
             const productCode = lines[index + 1]?.match(/^(\d{5,7})$/)
-            const quantity = lines[index + 2]?.match(/^(\d+)[⚫°.]?$/)
+            const quantity = lines[index + 2] ? QuantityPriceParser.parseQuantity(lines[index + 2], true) : null
             const unitPrice = lines[index + 3]?.match(/^([0-9,]+)$/)
             const totalPrice = lines[index + 4]?.match(/^([0-9,]+)\s*([TER])$/)
             
             if (productCode && quantity && unitPrice && totalPrice &&
                 productName && productName.match(/[あ-んア-ンa-zA-Zぁ-ゖ]/)) {
               
-              const price = parseInt(totalPrice[1].replace(/[,\.]/g, ''))
-              const qty = parseInt(quantity[1])
+              // 数量×単価＝金額を検算（一致しなければ行の対応がずれている）
+              const checked = QuantityPriceParser.reconcile({
+                quantity,
+                unitPrice: parseInt(unitPrice[1].replace(/,/g, '')),
+                lineTotal: parseInt(totalPrice[1].replace(/[,\.]/g, ''))
+              })
+              const price = checked.lineTotal ?? 0
               
-              if (price >= 1 && price <= 999999) {
+              if (checked.check !== 'mismatch' && price >= 1 && price <= 999999) {
                 return {
                   name: productName.trim(),
                   price,
-                  quantity: qty,
+                  quantity: checked.quantity,
+                  unitPrice: checked.unitPrice,
+                  lineTotal: checked.lineTotal,
                   category: this.categorizeItem(productName),
                   confidence: 0.8
                 }
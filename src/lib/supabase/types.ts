@@ -19,6 +19,10 @@ export interface Database {
           unit: string
           price: number | null
           currency: string
+          tax_rate: number | null
+          unit_price: number | null
+          unit_price_basis: number | null
+          receipt_name: string | null
           expiry_date: string | null
           purchase_date: string | null
           is_consumed: boolean
@@ -36,6 +40,10 @@ export interface Database {
           unit?: string
           price?: number | null
           currency?: string
+          tax_rate?: number | null
+          unit_price?: number | null
+          unit_price_basis?: number | null
+          receipt_name?: string | null
           expiry_date?: string | null
           purchase_date?: string | null
           is_consumed?: boolean
@@ -53,6 +61,10 @@ export interface Database {
           unit?: string
           price?: number | null
           currency?: string
+          tax_rate?: number | null
+          unit_price?: number | null
+          unit_price_basis?: number | null
+          receipt_name?: string | null
           expiry_date?: string | null
           purchase_date?: string | null
           is_consumed?: boolean
@@ -62,6 +74,85 @@ export interface Database {
           updated_at?: string
         }
       }
+      receipt_imports: {
+        Row: {
+          id: string
+          user_id: string
+          fingerprint_hash: string
+          store_name: string | null
+          purchase_date: string | null
+          purchase_time: string | null
+          transaction_number: string | null
+          total: number | null
+          item_keys: string[]
+          items: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          fingerprint_hash: string
+          store_name?: string | null
+          purchase_date?: string | null
+          purchase_time?: string | null
+          transaction_number?: string | null
+          total?: number | null
+          item_keys?: string[]
+          items?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          fingerprint_hash?: string
+          store_name?: string | null
+          purchase_date?: string | null
+          purchase_time?: string | null
+          transaction_number?: string | null
+          total?: number | null
+          item_keys?: string[]
+          items?: Json
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      product_aliases: {
+        Row: {
+          id: string
+          user_id: string
+          raw_text: string
+          raw_key: string
+          name: string
+          category: string | null
+          unit: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          raw_text: string
+          raw_key: string
+          name: string
+          category?: string | null
+          unit?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          raw_text?: string
+          raw_key?: string
+          name?: string
+          category?: string | null
+          unit?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
     }
   }
 }
\ No newline at end of file
@@ -1,11 +1,14 @@
 export interface Item {
   id: string
+  user_id?: string
   name: string
+  receipt_name?: string | null // レシート上の表記（レシートから取り込んだ食材のみ）
   category: string
   quantity: number
   unit: string
   price?: number | null
   currency?: string | null
+  tax_rate?: number | null
   expiry_date: string | null
   purchase_date: string | null
   is_consumed: boolean
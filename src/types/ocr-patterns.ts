@@ -1,3 +1,5 @@
+import type { ProductAliasDictionary } from '@/lib/ocr/product-alias-dictionary'
+
 // OCRパターン認識システムの型定義
 
 export interface OCRPatternConfig {
@@ -57,25 +59,84 @@ export interface OCRParseResult {
     processingTime: number
     patternsAttempted: string[]
     fallbackUsed?: boolean
+    primaryStage?: string // 採用した処理段階
+    stageTrace?: ProcessingStageTrace[]
   }
 }
 
+// 段階的処理の各段階の記録
+export interface ProcessingStageTrace {
+  name: string
+  status: 'completed' | 'budget-exceeded' | 'skipped' | 'failed'
+  budgetMs?: number
+  durationMs: number
+  confidence?: number
+  itemsFound: number
+  itemsAdded: number // 直前の採用結果との差分
+  itemsRemoved: number
+  adopted: boolean // 結果を採用したか
+  patternsAttempted: string[]
+  reason?: string // 省略・失敗の理由
+}
+
 export interface ExtractedItem {
   name: string
+  receiptName?: string // レシート上の表記（ユーザー辞書で商品名を置き換えた場合）
   price?: number
   quantity?: number
+  unitPrice?: number // 単価（数量×単価の表記がある場合）
+  lineTotal?: number // 数量×単価の金額（値引前）
+  unitPriceBasis?: number // 単価の基準量（100g当り → 100。重さ・容量の商品のみ）
   category?: string
   unit?: string
   currency?: string // 通貨情報を追加
+  originalPrice?: number // 値引前の価格
+  discount?: number // 値引額（合計）
+  finalPrice?: number // 値引後の支払額（price と同じ）
+  taxRate?: number // 適用税率（0.08 / 0.10 / 0.13 / 0）
+  priceExcludingTax?: number // 税抜価格（price は税込）
   confidence: number
   sourcePattern: string
   lineNumbers: number[]
   rawText: string
+  provenance?: ItemProvenance // 項目ごとの出力元（ハイブリッド戦略で統合した場合）
   metadata?: {
     [key: string]: string | number | boolean | null | undefined
   }
 }
 
+// 商品の項目を出力したOCRエンジン
+export type ItemFieldSource = 'document-ai' | 'pattern-match'
+
+export interface ItemProvenance {
+  name: ItemFieldSource
+  price?: ItemFieldSource
+  quantity?: ItemFieldSource
+}
+
+// レシートヘッダー情報
+export interface ReceiptHeader {
+  storeName?: string
+  branch?: string
+  phone?: string
+  purchaseDate?: string // YYYY-MM-DD
+  purchaseTime?: string // HH:MM
+  registerNumber?: string
+  transactionNumber?: string
+  confidence: number
+}
+
+// 税区分
+export type TaxJurisdiction = 'JP' | 'CA-ON'
+export type TaxMode = 'inclusive' | 'exclusive' // 税込 / 税抜（外税）
+
+export interface TaxSummary {
+  jurisdiction: TaxJurisdiction
+  mode: TaxMode
+  taxByRate: Record<string, number> // 税率ごとの税額（キーは '0.08' 等）
+  totalIncludingTax: number
+}
+
 export interface StorePattern {
   storeId: string
   storeName: string
@@ -84,6 +145,30 @@ export interface StorePattern {
   patterns: OCRPatternConfig[]
 }
 
+// 店舗プロファイル（チェーンごとの判定条件と専用パーサー）
+export interface StoreProfile {
+  id: string // storeType として使用
+  name: string
+  priority: number // 同スコア時の優先度（大きいほど優先）
+  identifiers: string[] // 店名・会員表記等（一致ごとに1点。英字の識別子は単語単位で照合）
+  layoutPatterns: RegExp[] // 行の並び・価格表記等（一致ごとに0.5点）
+  exclusions?: RegExp[] // 一致した場合は候補から除外
+  minScore: number // 専用パーサーを使用する最小スコア
+  confidence: number // 専用パーサーで商品を抽出できた場合の信頼度
+  taxJurisdiction?: TaxJurisdiction // 課税地域（未指定は日本）
+  parse: (text: string, aliases?: ProductAliasDictionary) => ExtractedItem[] // aliases: ユーザー辞書（組み込みの正規化より優先）
+}
+
+export interface StoreProfileCandidate {
+  profileId: string
+  name: string
+  score: number
+  matched: boolean // minScore 以上かつ除外条件なし
+  matchedIdentifiers: string[]
+  matchedLayoutPatterns: string[]
+  excludedBy?: string
+}
+
 // パターン処理エンジン
 export interface PatternProcessor {
   processText(text: string, patterns: OCRPatternConfig[]): Promise<OCRParseResult>
@@ -107,6 +192,7 @@ export interface ReceiptAnalysisContext {
   originalText: string
   lines: string[]
   detectedStoreType?: string
+  deadline?: number // 実行中の処理段階の打ち切り時刻（ミリ秒）
   imageMetadata?: {
     width: number
     height: number
@@ -116,5 +202,6 @@ export interface ReceiptAnalysisContext {
     enableFallback: boolean
     maxProcessingTime: number
     confidenceThreshold: number
+    confidenceTarget?: number // 到達したら以降の処理段階を省略
   }
 }
\ No newline at end of file
@@ -0,0 +1,3 @@
+// pdf.js のワーカーモジュール（型定義なし。読み込むだけで同一スレッドの処理に使われる）
+
+declare module 'pdfjs-dist/legacy/build/pdf.worker.mjs'
@@ -0,0 +1,11 @@
+// ユーザー辞書の登録内容（レシート上の表記 → 修正後の食材）
+export interface ProductAliasEntry {
+  id: string
+  raw_text: string
+  name: string
+  category: string | null
+  unit: string | null
+  updated_at: string
+}
+
+export type ProductAliasChanges = Pick<ProductAliasEntry, 'name' | 'category' | 'unit'>
@@ -1,35 +1,80 @@
 // アップロード機能関連の型定義
 
+import { ReceiptHeader, TaxSummary } from './ocr-patterns'
+
 export interface ExtractedItem {
   name: string
+  receiptName?: string
   price?: number
   quantity?: number
+  unitPrice?: number
+  unitPriceBasis?: number
+  unit?: string
   category?: string
   currency?: string
+  originalPrice?: number
+  discount?: number
+  taxRate?: number
 }
 
 export interface OCRResult {
   success: boolean
   extractedText: string
   items: ExtractedItem[]
+  header?: ReceiptHeader
+  tax?: TaxSummary
+  metadata?: {
+    // 印字された合計との照合結果（printedTotal はレシートから読み取れた場合のみ）
+    reconciliation?: {
+      printedTotal?: number
+    }
+  }
+}
+
+// 取り込み済みのレシートに保存した商品
+export interface ReceiptImportItem {
+  name: string
+  price: number | null
+  currency?: string
+  quantity: number
+}
+
+// 取り込み済みと判定されたレシート
+export interface DuplicateReceipt {
+  importId: string
+  importedAt: string
+  storeName?: string
+  purchaseDate?: string
+  items: ReceiptImportItem[]
+  matchedFields: string[] // 一致した項目（取引番号・合計等）
+  score: number
 }
 
+// skip: 保存しない / merge: 前回にない商品のみ追加 / import: すべて保存
+export type DuplicateResolution = 'skip' | 'merge' | 'import'
+
 export interface UploadState {
-  file: File | null
-  preview: string | null
+  files: File[] // 撮影順（長いレシートは複数枚）
+  previews: string[]
   loading: boolean
   ocrResult: OCRResult | null
   error: string
   progress: number
   selectedItems: Set<number>
   showCamera: boolean
+  duplicateReceipt: DuplicateReceipt | null
 }
 
 export interface UploadActions {
   handleFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void
+  handleAddFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void
   processFile: (file: File) => void
+  addFile: (file: File) => void
+  removeFile: (index: number) => void
+  moveFile: (index: number, offset: number) => void
   processOCR: () => Promise<void>
   saveSelectedItems: () => Promise<void>
+  resolveDuplicate: (resolution: DuplicateResolution) => Promise<void>
   toggleItemSelection: (index: number) => void
   setShowCamera: (show: boolean) => void
   setError: (error: string) => void